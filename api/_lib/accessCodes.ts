@@ -0,0 +1,49 @@
+import { createHash, randomInt, timingSafeEqual } from 'node:crypto';
+
+// One-time codes let a person prove they own an email address before new links to their
+// reports are issued. Only a hash of the code is stored.
+
+export interface AccessCode {
+    personId: string;
+    codeHash: string;
+    expiresAt: string;
+    attemptsLeft: number;
+}
+
+export const ACCESS_CODE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+export const ACCESS_CODE_MAX_ATTEMPTS = 5;
+
+/**
+ * Hashes a code together with the person it was issued to.
+ */
+export const hashAccessCode = (personId: string, code: string): string =>
+    createHash('sha256').update(`${personId}:${code}`).digest('hex');
+
+/**
+ * Creates a new six-digit code for a person.
+ * @returns The code to send, and the record to store.
+ */
+export function createAccessCode(personId: string): { code: string; record: AccessCode } {
+    const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+    return {
+        code,
+        record: {
+            personId,
+            codeHash: hashAccessCode(personId, code),
+            expiresAt: new Date(Date.now() + ACCESS_CODE_TTL_MS).toISOString(),
+            attemptsLeft: ACCESS_CODE_MAX_ATTEMPTS,
+        },
+    };
+}
+
+/**
+ * Checks a code a person entered against the one stored for them.
+ * @returns "valid", "expired" if the code has timed out or run out of attempts, or "invalid".
+ */
+export function checkAccessCode(stored: AccessCode, personId: string, code: string): 'valid' | 'expired' | 'invalid' {
+    if (stored.attemptsLeft <= 0 || new Date(stored.expiresAt).getTime() <= Date.now()) return 'expired';
+
+    const expected = new TextEncoder().encode(stored.codeHash);
+    const presented = new TextEncoder().encode(hashAccessCode(personId, code.trim()));
+    return expected.length === presented.length && timingSafeEqual(expected, presented) ? 'valid' : 'invalid';
+}
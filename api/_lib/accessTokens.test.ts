@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ACCESS_TOKEN_TTL_MS, authorizeReportAccess, issueAccessToken, issueLinkedToken, verifyAccessToken } from './accessTokens.js';
+import { generateReportFromJotform } from './logic.js';
+import { getReportRepository, setReportRepository } from './repository/index.js';
+import { InMemoryReportRepository } from './repository/memory.js';
+
+const ISSUED_AT = new Date('2026-10-19T09:00:00Z').getTime();
+
+const saveReport = (submissionId: string) => getReportRepository().save(generateReportFromJotform({
+    submissionId,
+    firstName: 'Alex',
+    lastName: 'Doe',
+    email: 'alex@example.com',
+    assessmentDate: '2026-10-19',
+    answers: {},
+}));
+
+beforeEach(async () => {
+    vi.stubEnv('REPORT_LINK_SECRET', 'test-secret');
+    vi.useFakeTimers({ now: ISSUED_AT });
+    setReportRepository(new InMemoryReportRepository());
+    await saveReport('report-1');
+    await saveReport('report-2');
+});
+
+afterEach(() => {
+    setReportRepository(null);
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+});
+
+describe('verifyAccessToken', () => {
+    it('returns the payload of a token it issued', () => {
+        const payload = verifyAccessToken(issueAccessToken('report-1', 'clinician', 'Dr Smith'));
+
+        expect(payload).toMatchObject({ sub: 'report-1', scope: 'clinician', actor: 'Dr Smith', iat: ISSUED_AT });
+        expect(payload?.exp).toBe(ISSUED_AT + ACCESS_TOKEN_TTL_MS.clinician);
+        expect(payload?.verified).toBeUndefined();
+    });
+
+    it('rejects a token whose payload was changed', () => {
+        const [, signature] = issueAccessToken('report-1', 'owner').split('.');
+        const forged = Buffer.from(JSON.stringify({
+            sub: 'report-2', scope: 'owner', iat: ISSUED_AT, exp: ISSUED_AT + ACCESS_TOKEN_TTL_MS.owner,
+        })).toString('base64url');
+
+        expect(verifyAccessToken(`${forged}.${signature}`)).toBeNull();
+    });
+
+    it('rejects a token signed with another secret', () => {
+        vi.stubEnv('REPORT_LINK_SECRET', 'other-secret');
+        const token = issueAccessToken('report-1', 'owner');
+        vi.stubEnv('REPORT_LINK_SECRET', 'test-secret');
+
+        expect(verifyAccessToken(token)).toBeNull();
+    });
+
+    it('rejects malformed tokens', () => {
+        expect(verifyAccessToken('')).toBeNull();
+        expect(verifyAccessToken('not-a-token')).toBeNull();
+        expect(verifyAccessToken(`${issueAccessToken('report-1', 'owner')}.extra`)).toBeNull();
+    });
+
+    it('rejects a token once it has expired', () => {
+        const token = issueAccessToken('report-1', 'clinician');
+
+        vi.setSystemTime(ISSUED_AT + ACCESS_TOKEN_TTL_MS.clinician - 1);
+        expect(verifyAccessToken(token)).not.toBeNull();
+        vi.setSystemTime(ISSUED_AT + ACCESS_TOKEN_TTL_MS.clinician);
+        expect(verifyAccessToken(token)).toBeNull();
+    });
+});
+
+describe('authorizeReportAccess', () => {
+    it('rejects tokens issued before the report was revoked, but not those issued after', async () => {
+        const before = issueAccessToken('report-1', 'owner');
+        vi.setSystemTime(ISSUED_AT + 1000);
+        await getReportRepository().revokeAccess('report-1', new Date().toISOString());
+        vi.setSystemTime(ISSUED_AT + 2000);
+        const after = issueAccessToken('report-1', 'owner');
+
+        expect(await authorizeReportAccess(before)).toBeNull();
+        expect(await authorizeReportAccess(after)).toMatchObject({ sub: 'report-1' });
+    });
+
+    it('leaves tokens for other reports valid', async () => {
+        const other = issueAccessToken('report-2', 'owner');
+        vi.setSystemTime(ISSUED_AT + 1000);
+        await getReportRepository().revokeAccess('report-1', new Date().toISOString());
+
+        expect(await authorizeReportAccess(other)).toMatchObject({ sub: 'report-2' });
+    });
+
+    it('rejects a linked token when the report it leads to is revoked, however late it was linked', async () => {
+        const source = verifyAccessToken(issueAccessToken('report-1', 'owner', undefined, true))!;
+        vi.setSystemTime(ISSUED_AT + 1000);
+        await getReportRepository().revokeAccess('report-2', new Date().toISOString());
+        vi.setSystemTime(ISSUED_AT + 2000);
+        const linked = issueLinkedToken(source, 'report-2');
+
+        expect(verifyAccessToken(linked)).toMatchObject({ sub: 'report-2', iat: ISSUED_AT, exp: source.exp, verified: true });
+        expect(await authorizeReportAccess(linked)).toBeNull();
+    });
+});
@@ -0,0 +1,97 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { AccessScope } from './types.js';
+import { getReportRepository } from './repository/index.js';
+
+// ====================================================================================
+// Report Access Tokens
+// ------------------------------------------------------------------------------------
+// Reports are only served to holders of a signed, expiring token naming the report,
+// never by submission ID alone. A token is "<payload>.<signature>", both base64url, the
+// signature being an HMAC-SHA256 of the payload with REPORT_LINK_SECRET.
+// Revoking a report's links invalidates every token issued before the revocation.
+// ====================================================================================
+
+export interface AccessTokenPayload {
+    sub: string; // Submission ID of the report
+    scope: AccessScope;
+    iat: number; // Issued at, ms since epoch
+    exp: number; // Expires at, ms since epoch
+    actor?: string; // The clinician a clinician-scoped token was issued to
+    verified?: boolean; // Issued after the holder proved they own the report's email with a one-time code
+}
+
+// How long each kind of link stays valid.
+export const ACCESS_TOKEN_TTL_MS: Record<AccessScope, number> = {
+    owner: 30 * 24 * 60 * 60 * 1000, // 30 days
+    clinician: 8 * 60 * 60 * 1000, // One working day
+};
+
+const getSecret = (): string => {
+    const secret = process.env.REPORT_LINK_SECRET;
+    if (!secret) throw new Error('REPORT_LINK_SECRET is not defined in environment variables.');
+    return secret;
+};
+
+const sign = (encodedPayload: string): string =>
+    createHmac('sha256', getSecret()).update(encodedPayload).digest('base64url');
+
+const encode = (payload: AccessTokenPayload): string => {
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encodedPayload}.${sign(encodedPayload)}`;
+};
+
+/**
+ * Issues a signed access token for one report.
+ * @param submissionId The report the token gives access to.
+ * @param scope Who the token is for; sets how long it lasts.
+ * @param actor The clinician's name, for clinician-scoped tokens.
+ * @param verified Whether the holder has just proved they own the report's email.
+ * @returns The token.
+ */
+export function issueAccessToken(submissionId: string, scope: AccessScope, actor?: string, verified = false): string {
+    const now = Date.now();
+    return encode({ sub: submissionId, scope, iat: now, exp: now + ACCESS_TOKEN_TTL_MS[scope], actor, ...(verified && { verified }) });
+}
+
+/**
+ * Issues a token for another report with the same scope, holder, issue time and expiry as
+ * an existing one, so that following links from a report never extends how long access
+ * lasts, and revoking a report's links also invalidates the links it led to.
+ */
+export function issueLinkedToken(payload: AccessTokenPayload, submissionId: string): string {
+    return encode({ ...payload, sub: submissionId });
+}
+
+/**
+ * Checks a token's signature and expiry. Does not check revocation; see authorizeReportAccess.
+ * @returns The payload, or null if the token is malformed, forged or expired.
+ */
+export function verifyAccessToken(token: string): AccessTokenPayload | null {
+    const [encodedPayload, signature, ...rest] = token.split('.');
+    if (!encodedPayload || !signature || rest.length > 0) return null;
+
+    const expected = new TextEncoder().encode(sign(encodedPayload));
+    const presented = new TextEncoder().encode(signature);
+    if (expected.length !== presented.length || !timingSafeEqual(expected, presented)) return null;
+
+    try {
+        const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8')) as AccessTokenPayload;
+        if (typeof payload.sub !== 'string' || typeof payload.exp !== 'number' || typeof payload.iat !== 'number') return null;
+        return payload.exp > Date.now() ? payload : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Verifies a token and checks that the report's links have not been revoked since it was issued.
+ * @returns The payload, or null if the token does not grant access.
+ */
+export async function authorizeReportAccess(token: string): Promise<AccessTokenPayload | null> {
+    const payload = verifyAccessToken(token);
+    if (!payload) return null;
+
+    const revokedBefore = await getReportRepository().getAccessRevokedBefore(payload.sub);
+    if (revokedBefore && payload.iat < new Date(revokedBefore).getTime()) return null;
+    return payload;
+}
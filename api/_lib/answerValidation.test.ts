@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { checkAdaptiveAnswers, validateSubmissionFields } from './answerValidation.js';
+import { currentInstrument } from './instruments/index.js';
+import { ItemBank, nextAdaptiveStep, validateItemBank } from './irt.js';
+
+const depressionScreeners = ['ltemgtinTheltemgtltstronggtItemgt', 'ltemgtinTheltemgtltstronggtItemgt5'];
+
+const bank: ItemBank = {
+    domain: 'Depression',
+    name: 'Test bank',
+    source: 'Synthetic parameters for tests',
+    responseScale: 'PROMIS_FREQUENCY',
+    items: [
+        { id: 'bank-0', text: 'Bank item 0', discrimination: 1.2, thresholds: [-1.5, -0.5, 0.5, 1.5] },
+        { id: 'bank-1', text: 'Bank item 1', discrimination: 3.0, thresholds: [-0.2, 0.4, 1.0, 1.6] },
+        { id: 'bank-2', text: 'Bank item 2', discrimination: 2.4, thresholds: [0.8, 1.4, 2.0, 2.6] },
+        { id: 'bank-3', text: 'Bank item 3', discrimination: 1.8, thresholds: [-1.0, 0.0, 1.0, 2.0], reverse: true },
+        { id: 'bank-4', text: 'Bank item 4', discrimination: 2.0, thresholds: [-0.6, 0.2, 0.9, 1.7] },
+    ],
+    stoppingRule: { maxStandardError: 0.01, minItems: 1, maxItems: 3 },
+};
+
+// Answers every item the bank asks with the same option, in the order it asks them.
+const answerAdaptively = (answer: number): { [itemId: string]: number } => {
+    const responses: { [itemId: string]: number } = {};
+    const categories: { [itemId: string]: number } = {};
+    let itemId = nextAdaptiveStep(bank, categories).nextItemId;
+    while (itemId) {
+        responses[itemId] = answer;
+        categories[itemId] = checkAdaptiveAnswers(currentInstrument, bank, responses).categories[itemId];
+        itemId = nextAdaptiveStep(bank, categories).nextItemId;
+    }
+    return responses;
+};
+
+describe('checkAdaptiveAnswers', () => {
+    it('uses a valid test bank', () => {
+        expect(validateItemBank(bank, currentInstrument)).toEqual([]);
+    });
+
+    it('accepts answers given in the order the bank asked them', () => {
+        const responses = answerAdaptively(3);
+        const { categories, error } = checkAdaptiveAnswers(currentInstrument, bank, responses);
+
+        expect(error).toBeNull();
+        expect(Object.keys(categories)).toEqual(Object.keys(responses));
+        expect(Object.keys(responses)).toHaveLength(3);
+    });
+
+    it('converts answers to calibrated categories, reversing reverse-scored items', () => {
+        const { categories } = checkAdaptiveAnswers(currentInstrument, { ...bank, items: [bank.items[3]] }, { 'bank-3': 2 });
+        expect(categories).toEqual({ 'bank-3': 3 });
+    });
+
+    it('rejects an answer to an item that was not asked at that point', () => {
+        const [first, second] = Object.keys(answerAdaptively(3));
+        const { error } = checkAdaptiveAnswers(currentInstrument, bank, { [second]: 3, [first]: 3 });
+
+        expect(error).toBe(`The answer to "${second}" was not given to the question asked at that point.`);
+    });
+
+    it('rejects an answer to an item the bank does not have', () => {
+        const { error } = checkAdaptiveAnswers(currentInstrument, bank, { unknown: 3 });
+        expect(error).toBe('The answer to "unknown" was not given to the question asked at that point.');
+    });
+
+    it('rejects an answer that is not one of the options', () => {
+        const first = nextAdaptiveStep(bank, {}).nextItemId!;
+        const { error } = checkAdaptiveAnswers(currentInstrument, bank, { [first]: 0 });
+
+        expect(error).toBe(`The answer to "${first}" is not one of the options for that question.`);
+    });
+});
+
+describe('validateSubmissionFields', () => {
+    const screenerAnswers = Object.fromEntries(currentInstrument.domains
+        .flatMap(domain => domain.items)
+        .filter(item => item.mandatory)
+        .map(item => [item.id, 0]));
+
+    const fields = { firstName: 'Alex', lastName: 'Doe', email: 'alex@example.com', answers: screenerAnswers };
+
+    it('accepts a submission with every mandatory item answered', () => {
+        expect(validateSubmissionFields(currentInstrument, fields)).toEqual([]);
+    });
+
+    it('reports missing details and mandatory answers against their fields', () => {
+        const { [depressionScreeners[0]]: _, ...answers } = screenerAnswers;
+        const errors = validateSubmissionFields(currentInstrument, { ...fields, firstName: ' ', email: 'alex@', answers });
+
+        expect(errors).toEqual([
+            { field: 'firstName', message: 'Your first name is required.' },
+            { field: 'email', message: 'Enter a valid email address.' },
+            { field: depressionScreeners[0], message: 'This question is required.' },
+        ]);
+    });
+
+    it('rejects answers that are not options, and answers to items that are not shown', () => {
+        const followUp = 'ltemgtinTheltemgtltstronggtItemgt6';
+        const errors = validateSubmissionFields(currentInstrument, {
+            ...fields,
+            answers: { ...screenerAnswers, [depressionScreeners[1]]: 9, [followUp]: 3 },
+        });
+
+        expect(errors).toEqual([
+            { field: depressionScreeners[1], message: 'This answer is not one of the options for this question.' },
+            { field: followUp, message: 'This question does not apply given your earlier answers.' },
+        ]);
+    });
+
+    describe('with adaptive answers', () => {
+        const shownAnswers = { ...screenerAnswers, [depressionScreeners[0]]: 2 };
+
+        it('accepts a domain tested to the end', () => {
+            const errors = validateSubmissionFields(
+                currentInstrument, { ...fields, answers: shownAnswers, adaptiveAnswers: { Depression: answerAdaptively(2) } }, [bank],
+            );
+            expect(errors).toEqual([]);
+        });
+
+        it('rejects a domain whose testing had not stopped', () => {
+            const [first] = Object.keys(answerAdaptively(2));
+            const errors = validateSubmissionFields(
+                currentInstrument, { ...fields, answers: shownAnswers, adaptiveAnswers: { Depression: { [first]: 2 } } }, [bank],
+            );
+            expect(errors).toEqual([{ field: 'Depression', message: 'This section has more questions to answer.' }]);
+        });
+
+        it('rejects answers to the fixed items an adaptive domain replaces', () => {
+            const fixedItem = 'ltemgtinTheltemgtltstronggtItemgt6';
+            const errors = validateSubmissionFields(currentInstrument, {
+                ...fields,
+                answers: { ...shownAnswers, [fixedItem]: 2 },
+                adaptiveAnswers: { Depression: answerAdaptively(2) },
+            }, [bank]);
+            expect(errors).toEqual([{ field: fixedItem, message: 'This question was replaced by adaptive questions.' }]);
+        });
+
+        it('rejects a domain that does not apply given the screener answers', () => {
+            const errors = validateSubmissionFields(
+                currentInstrument, { ...fields, adaptiveAnswers: { Depression: answerAdaptively(2) } }, [bank],
+            );
+            expect(errors).toEqual([{ field: 'Depression', message: 'This section does not apply given your earlier answers.' }]);
+        });
+
+        it('rejects a domain without an item bank', () => {
+            const errors = validateSubmissionFields(currentInstrument, { ...fields, adaptiveAnswers: { Anger: {} } }, [bank]);
+            expect(errors).toEqual([{ field: 'Anger', message: 'Adaptive questions are not available for this section.' }]);
+        });
+    });
+});
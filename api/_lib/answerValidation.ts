@@ -0,0 +1,147 @@
+import { getItemResponseScale, getShownAnswers, InstrumentDefinition, isItemVisible, isScoredItem } from './instrument.js';
+import { getBankItemScale, getResponseCategory, ItemBank, nextAdaptiveStep } from './irt.js';
+import type { FieldError } from './types.js';
+
+// ====================================================================================
+// Submission Validation
+// ------------------------------------------------------------------------------------
+// Scoring treats anything it does not recognise as a missing answer, so a bad client would
+// otherwise produce a report that is silently wrong. Submissions from our own form are
+// checked against the instrument before they are scored, and every problem is reported
+// against the field it belongs to.
+// ====================================================================================
+
+// Deliberately loose: one @, no spaces, and a dot in the domain.
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface SubmissionFields {
+    firstName?: unknown;
+    lastName?: unknown;
+    email?: unknown;
+    answers?: unknown;
+    adaptiveAnswers?: unknown;
+}
+
+const isRecord = (value: unknown): value is { [key: string]: unknown } =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Replays the answers to an adaptively tested domain: each item must be the one the bank
+ * would have chosen after the answers before it, and each answer one of its options.
+ * @param responses Coded answers keyed by item ID, in the order the items were given.
+ * @returns The calibrated category of each answer, or the first problem found.
+ */
+export function checkAdaptiveAnswers(
+    instrument: InstrumentDefinition,
+    bank: ItemBank,
+    responses: { [itemId: string]: unknown },
+): { categories: { [itemId: string]: number }; error: string | null } {
+    const categories: { [itemId: string]: number } = {};
+    for (const [itemId, answer] of Object.entries(responses)) {
+        if (nextAdaptiveStep(bank, categories).nextItemId !== itemId) {
+            return { categories, error: `The answer to "${itemId}" was not given to the question asked at that point.` };
+        }
+        const item = bank.items.find(i => i.id === itemId)!;
+        const category = getResponseCategory(getBankItemScale(instrument, bank, item), item, answer);
+        if (category === null) {
+            return { categories, error: `The answer to "${itemId}" is not one of the options for that question.` };
+        }
+        categories[itemId] = category;
+    }
+    return { categories, error: null };
+}
+
+/**
+ * Checks the person's details and answers of a submission against the instrument:
+ * answers must be to known items, use one of the item's options and only be given to
+ * items that are shown; every shown mandatory item must be answered. A domain answered
+ * adaptively must have been tested to the end, and its fixed items are not asked.
+ * @param instrument The instrument the answers belong to.
+ * @param fields The submitted fields.
+ * @param itemBanks The item banks adaptive answers may come from.
+ * @returns Every problem found; empty if the submission is valid.
+ */
+export function validateSubmissionFields(instrument: InstrumentDefinition, fields: SubmissionFields, itemBanks: ItemBank[] = []): FieldError[] {
+    const errors: FieldError[] = [];
+    const { firstName, lastName, email, answers, adaptiveAnswers } = fields;
+
+    if (typeof firstName !== 'string' || firstName.trim() === '') {
+        errors.push({ field: 'firstName', message: 'Your first name is required.' });
+    }
+    if (lastName !== undefined && typeof lastName !== 'string') {
+        errors.push({ field: 'lastName', message: 'Your last name must be text.' });
+    }
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+        errors.push({ field: 'email', message: 'Enter a valid email address.' });
+    }
+
+    if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+        errors.push({ field: 'answers', message: 'Answers must be an object keyed by question.' });
+        return errors;
+    }
+    const given = answers as { [itemId: string]: unknown };
+    // Visibility is decided as the form decides it, from the answers to items that are shown.
+    const shown = getShownAnswers(instrument, given);
+
+    // Adaptive answers are keyed by the section they replace the fixed items of; problems are
+    // reported against the section, as its questions were chosen one at a time.
+    const adaptiveDomains = new Set<string>();
+    if (adaptiveAnswers !== undefined) {
+        if (!isRecord(adaptiveAnswers)) {
+            errors.push({ field: 'adaptiveAnswers', message: 'Adaptive answers must be an object keyed by section.' });
+        } else {
+            for (const [domainName, responses] of Object.entries(adaptiveAnswers)) {
+                const domain = instrument.domains.find(d => d.name === domainName);
+                const bank = itemBanks.find(b => b.domain === domainName);
+                if (!domain || !bank) {
+                    errors.push({ field: domainName, message: 'Adaptive questions are not available for this section.' });
+                    continue;
+                }
+                adaptiveDomains.add(domainName);
+                if (!domain.items.some(item => isScoredItem(item) && isItemVisible(instrument, domain, item, shown))) {
+                    errors.push({ field: domainName, message: 'This section does not apply given your earlier answers.' });
+                    continue;
+                }
+                if (!isRecord(responses)) {
+                    errors.push({ field: domainName, message: 'Adaptive answers must be an object keyed by question.' });
+                    continue;
+                }
+                const { categories, error } = checkAdaptiveAnswers(instrument, bank, responses);
+                if (error) {
+                    errors.push({ field: domainName, message: error });
+                } else if (nextAdaptiveStep(bank, categories).nextItemId !== null) {
+                    errors.push({ field: domainName, message: 'This section has more questions to answer.' });
+                }
+            }
+        }
+    }
+
+    const knownItems = new Set<string>();
+    for (const domain of instrument.domains) {
+        const adaptive = adaptiveDomains.has(domain.name);
+        for (const item of domain.items) {
+            knownItems.add(item.id);
+            const visible = isItemVisible(instrument, domain, item, shown);
+            const replaced = adaptive && isScoredItem(item);
+            const answer = given[item.id];
+
+            if (answer === undefined || answer === null) {
+                if (item.mandatory && visible && !replaced) errors.push({ field: item.id, message: 'This question is required.' });
+                continue;
+            }
+            if (!getItemResponseScale(instrument, domain, item).options.some(option => option.value === answer)) {
+                errors.push({ field: item.id, message: 'This answer is not one of the options for this question.' });
+            } else if (replaced) {
+                errors.push({ field: item.id, message: 'This question was replaced by adaptive questions.' });
+            } else if (!visible) {
+                errors.push({ field: item.id, message: 'This question does not apply given your earlier answers.' });
+            }
+        }
+    }
+
+    for (const itemId of Object.keys(given)) {
+        if (!knownItems.has(itemId)) errors.push({ field: itemId, message: 'This is not a question in the assessment.' });
+    }
+
+    return errors;
+}
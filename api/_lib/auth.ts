@@ -0,0 +1,48 @@
+import { timingSafeEqual } from 'node:crypto';
+import type { VercelRequest } from '@vercel/node';
+
+// ====================================================================================
+// Clinician Authentication
+// ------------------------------------------------------------------------------------
+// Clinicians authenticate with a personal bearer token. Tokens are configured in the
+// CLINICIAN_TOKENS environment variable as comma-separated "name:token" pairs, e.g.
+//   CLINICIAN_TOKENS="dr.mehta:4f1c...,dr.rao:9ab2..."
+// The name is what appears in the triage audit trail.
+// ====================================================================================
+
+export interface Clinician {
+    name: string;
+}
+
+const parseClinicianTokens = (): { name: string; token: string }[] => {
+    return (process.env.CLINICIAN_TOKENS || '')
+        .split(',')
+        .map(pair => pair.trim())
+        .filter(Boolean)
+        .map(pair => {
+            const separator = pair.indexOf(':');
+            return { name: pair.slice(0, separator).trim(), token: pair.slice(separator + 1).trim() };
+        })
+        .filter(entry => entry.name && entry.token);
+};
+
+const tokensMatch = (a: string, b: string): boolean => {
+    const bufferA = new TextEncoder().encode(a);
+    const bufferB = new TextEncoder().encode(b);
+    return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+};
+
+/**
+ * Identifies the clinician making a request from its "Authorization: Bearer <token>" header.
+ * @param request The incoming request.
+ * @returns The clinician, or null if the token is missing or unknown.
+ */
+export function authenticateClinician(request: VercelRequest): Clinician | null {
+    const header = request.headers.authorization || '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    if (!match) return null;
+
+    const presented = match[1].trim();
+    const entry = parseClinicianTokens().find(candidate => tokensMatch(candidate.token, presented));
+    return entry ? { name: entry.name } : null;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { recommendCareTier } from './careTier.js';
+import { currentInstrument } from './instruments/index.js';
+import { buildDomain, buildReport, depressionAnswers } from '../_tests/reports.js';
+import type { Domain } from './types.js';
+
+const recommend = (domains: Domain[]) => recommendCareTier(currentInstrument.careTierRules!, domains);
+
+describe('recommendCareTier', () => {
+    it('recommends self-help when no row matches', () => {
+        const recommendation = recommend([buildDomain('Depression', 'None to slight')]);
+        expect(recommendation.tier).toBe('self_help');
+        expect(recommendation.reason).toBe('No result calls for more than self-help.');
+    });
+
+    it('takes the first matching row, so urgent rows win over severity', () => {
+        const recommendation = recommend([
+            buildDomain('Depression', 'Severe'),
+            buildDomain('Anxiety', 'Severe'),
+            buildDomain('Suicidal Ideation', 'Further inquiry indicated'),
+        ]);
+        expect(recommendation).toMatchObject({ tier: 'urgent', reason: 'Thoughts of self-harm were endorsed.' });
+    });
+
+    it('counts matching domains against a row\'s minimum', () => {
+        expect(recommend([buildDomain('Depression', 'Moderate')]).tier).toBe('counsellor');
+        expect(recommend([buildDomain('Depression', 'Moderate'), buildDomain('Anger', 'Moderate')]).tier).toBe('therapist');
+        expect(recommend([buildDomain('Depression', 'Severe'), buildDomain('Somatic Symptoms', 'High')]).tier).toBe('psychiatrist');
+    });
+
+    it('ignores unscored domains', () => {
+        expect(recommend([buildDomain('Suicidal Ideation', 'Further inquiry indicated', null)]).tier).toBe('self_help');
+    });
+});
+
+describe('scoring a submission', () => {
+    it('stores the recommended tier on the report', () => {
+        expect(buildReport('report-1', depressionAnswers(3)).careTier).toMatchObject({ tier: 'counsellor' });
+        expect(buildReport('report-2').careTier).toMatchObject({ tier: 'self_help' });
+    });
+});
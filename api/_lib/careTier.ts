@@ -0,0 +1,66 @@
+import type { CareTierRule } from './instrument.js';
+import type { CareTier, CareTierRecommendation, Domain } from './types.js';
+
+// ====================================================================================
+// Stepped-Care Tier
+// ------------------------------------------------------------------------------------
+// Every report is given the least involved level of care its results allow, read from
+// the decision table in the instrument definition: the first row whose domains have
+// enough matching results sets the tier. The row's reason is kept with the tier, so
+// anyone can see why a report was placed where it was.
+// ====================================================================================
+
+export const careTierLabels: Record<CareTier, string> = {
+    self_help: 'Self-help',
+    counsellor: 'Peer support or counsellor',
+    therapist: 'Therapist',
+    psychiatrist: 'Psychiatrist',
+    urgent: 'Urgent same-day contact',
+};
+
+const nextStepsByTier: Record<CareTier, string[]> = {
+    urgent: [
+        'Contact a mental health professional, your doctor or a crisis line today.',
+        'If you are in immediate danger, call your local emergency number.',
+        'Tell someone you trust how you are feeling.',
+    ],
+    psychiatrist: [
+        'Ask your doctor for a referral to a psychiatrist, or book an appointment with one directly.',
+        'Take this report with you so you can go through your results together.',
+    ],
+    therapist: [
+        'Book an appointment with a therapist or psychologist.',
+        'Take this report with you so you can go through your results together.',
+    ],
+    counsellor: [
+        'Talk things through with a counsellor, or join a peer support group.',
+        'Your doctor, workplace or college may be able to put you in touch with one.',
+    ],
+    self_help: [
+        'Keep up the self-care steps in your action plan.',
+        'Retake the assessment in four to six weeks, or sooner if things change.',
+    ],
+};
+
+/**
+ * Reads the care tier decision table against a report's scored domains.
+ * @param rules The instrument's decision table, in order.
+ * @param domains The scored domains of one report.
+ * @returns The tier of the first matching row, or self-help if none matches.
+ */
+export function recommendCareTier(rules: CareTierRule[], domains: Domain[]): CareTierRecommendation {
+    const rule = rules.find(rule => {
+        const matching = rule.domains.filter(name => {
+            const domain = domains.find(d => d.name === name);
+            return !!domain && domain.score !== null && rule.interpretations.includes(domain.userInterpretation);
+        });
+        return matching.length >= (rule.minCount ?? 1);
+    });
+
+    const tier = rule?.tier ?? 'self_help';
+    return {
+        tier,
+        reason: rule?.reason ?? 'No result calls for more than self-help.',
+        nextSteps: nextStepsByTier[tier],
+    };
+}
@@ -0,0 +1,78 @@
+import { createHash, randomInt } from 'node:crypto';
+import type { AssessmentDraft } from './types.js';
+
+// Drafts saved on the server are found by a short resume code, which the person writes
+// down or receives in a link by email. Only a hash of the code is stored.
+// DRAFT_TTL_DAYS sets how long a draft is kept after it was last saved (default 7).
+
+export interface StoredDraft {
+    codeHash: string;
+    draft: AssessmentDraft;
+    expiresAt: string;
+    updatedAt: string;
+}
+
+const DEFAULT_DRAFT_TTL_DAYS = 7;
+
+// No 0/O or 1/I, so a code read aloud or copied by hand comes out the same.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+// Far more than the instrument has items; anything larger is not a draft of it.
+const MAX_DRAFT_ANSWERS = 500;
+
+/**
+ * How long a draft is kept after it was last saved.
+ * @throws Error if DRAFT_TTL_DAYS is not a positive number.
+ */
+export const getDraftTtlMs = (): number => {
+    const days = process.env.DRAFT_TTL_DAYS ? Number(process.env.DRAFT_TTL_DAYS) : DEFAULT_DRAFT_TTL_DAYS;
+    if (!Number.isFinite(days) || days <= 0) {
+        throw new Error(`DRAFT_TTL_DAYS must be a positive number of days, not "${process.env.DRAFT_TTL_DAYS}".`);
+    }
+    return days * 24 * 60 * 60 * 1000;
+};
+
+/**
+ * Puts a code as typed by a person into its canonical form: upper case, without spaces or dashes.
+ */
+export const normalizeResumeCode = (code: string): string => code.toUpperCase().replace(/[\s-]/g, '');
+
+/**
+ * Hashes a resume code for storage and lookup.
+ */
+export const hashResumeCode = (code: string): string =>
+    createHash('sha256').update(normalizeResumeCode(code)).digest('hex');
+
+/**
+ * Creates a new random resume code.
+ */
+export const createResumeCode = (): string =>
+    Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(0, CODE_ALPHABET.length)]).join('');
+
+const isNumberRecord = (value: unknown): value is { [key: string]: number } =>
+    !!value && typeof value === 'object' && !Array.isArray(value)
+    && Object.values(value).every(entry => typeof entry === 'number' && Number.isFinite(entry));
+
+/**
+ * Checks that a value sent by the browser has the shape of a draft. The answers are only
+ * checked in full when the assessment is submitted.
+ */
+export const isAssessmentDraft = (value: unknown): value is AssessmentDraft => {
+    const draft = value as AssessmentDraft;
+    return !!draft && typeof draft === 'object'
+        && typeof draft.instrumentVersion === 'string'
+        && Number.isInteger(draft.step) && draft.step >= 0
+        && typeof draft.firstName === 'string'
+        && typeof draft.lastName === 'string'
+        && typeof draft.email === 'string'
+        && isNumberRecord(draft.answers) && Object.keys(draft.answers).length <= MAX_DRAFT_ANSWERS
+        && (draft.adaptiveAnswers === undefined || (!!draft.adaptiveAnswers && typeof draft.adaptiveAnswers === 'object'
+            && Object.values(draft.adaptiveAnswers).every(answers => isNumberRecord(answers) && Object.keys(answers).length <= MAX_DRAFT_ANSWERS)))
+        && isNumberRecord(draft.sectionTimings) && Object.keys(draft.sectionTimings).length <= MAX_DRAFT_ANSWERS;
+};
+
+/**
+ * Returns true once a stored draft has passed its expiry.
+ */
+export const isDraftExpired = (stored: StoredDraft): boolean => new Date(stored.expiresAt).getTime() <= Date.now();
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { buildExecutiveSummary, rankPriorityDomains } from './executiveSummary.js';
+import { buildReport, depressionAnswers, screeningAnswers } from '../_tests/reports.js';
+import type { IndividualData } from './types.js';
+
+// Gives domains of a report the interpretation and percentile listed for them.
+const withResults = (report: IndividualData, results: { [name: string]: [string, number | null] }): IndividualData => ({
+    ...report,
+    domains: report.domains.map(domain => results[domain.name]
+        ? { ...domain, userInterpretation: results[domain.name][0], percentile: results[domain.name][1], score: 1 }
+        : domain),
+});
+
+describe('rankPriorityDomains', () => {
+    it('puts crisis-response domains first, then orders by band, percentile and report order', () => {
+        const report = withResults(buildReport('report-1', screeningAnswers('Suicidal Ideation', 1)), {
+            'Anger': ['Mild', 70],
+            'Anxiety': ['Moderate', 84],
+            'Depression': ['Moderate', 91],
+            'Somatic Symptoms': ['Mild', 70],
+            'Mania': ['None', 50],
+        });
+
+        expect(rankPriorityDomains(report).map(domain => domain.name))
+            .toEqual(['Suicidal Ideation', 'Depression', 'Anxiety', 'Anger', 'Somatic Symptoms']);
+    });
+});
+
+describe('buildExecutiveSummary', () => {
+    it('says the person is steady when no area stands out', () => {
+        const summary = buildExecutiveSummary(buildReport('report-1'));
+
+        expect(summary.overview).toBe("Alex, your responses suggest you're feeling steady across the areas this assessment covers.");
+        expect(summary.priorityAreas).toEqual([]);
+        expect(summary.careTier).toBe('self_help');
+        expect(summary.actionPlan.map(step => step.title)).toEqual(['Keep doing what works']);
+    });
+
+    it('leads with the crisis response and leaves self-care out for the crisis domain', () => {
+        const summary = buildExecutiveSummary(buildReport('report-1', { ...depressionAnswers(5), ...screeningAnswers('Suicidal Ideation', 1) }));
+
+        expect(summary.overview).toBe('Alex, the areas that stand out most in your results are Suicidal Ideation and Depression.');
+        expect(summary.careTier).toBe('urgent');
+        expect(summary.careRecommendation).toMatch(/crisis line/);
+        expect(summary.actionPlan.map(step => step.title)).toEqual(['Reach out for support today', 'Depression', 'Check in again']);
+    });
+
+    it('names at most three areas and only the interactions between them', () => {
+        const summary = buildExecutiveSummary(withResults(buildReport('report-1'), {
+            'Depression': ['Moderate', 91],
+            'Anxiety': ['Moderate', 88],
+            'Sleep Problems': ['Mild', 75],
+            'Anger': ['Mild', 60],
+        }));
+
+        expect(summary.priorityAreas.map(area => area.domainName)).toEqual(['Depression', 'Anxiety', 'Sleep Problems']);
+        expect(summary.overview).toBe('Alex, the areas that stand out most in your results are Depression, Anxiety and Sleep Problems.');
+        expect(summary.interactions.map(interaction => interaction.domainNames)).toEqual([
+            ['Sleep Problems', 'Anxiety'], ['Sleep Problems', 'Depression'], ['Depression', 'Anxiety'],
+        ]);
+    });
+});
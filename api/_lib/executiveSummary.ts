@@ -0,0 +1,162 @@
+import { getDomainTemplate, getInsightBand, InsightBand } from './insightTemplates.js';
+import type { InstrumentDefinition } from './instrument.js';
+import { currentInstrument } from './instruments/index.js';
+import { recommendCareTier } from './careTier.js';
+import type { ActionStep, CareTier, Domain, DomainInteraction, ExecutiveSummary, IndividualData } from './types.js';
+
+// ====================================================================================
+// Executive Summary
+// ------------------------------------------------------------------------------------
+// Brings the domain results together: the two or three areas that stand out most, how
+// they may affect each other, the level of care to consider and an ordered action plan.
+// It is built by rules from curated text in the same register as the template insights,
+// so it follows the same safety constraints: no diagnosis, no medication advice, no
+// alarmist language, and a clear recommendation to seek help whenever a result is severe.
+// ====================================================================================
+
+// The most priority areas the summary names; more would blur the overall picture.
+const MAX_PRIORITY_AREAS = 3;
+
+const bandRank: Record<InsightBand, number> = { steady: 0, mild: 1, elevated: 2, severe: 3 };
+
+// Pairs of domains known to feed into each other, described for the person reading the report.
+const interactionTable: DomainInteraction[] = [
+    {
+        domainNames: ['Sleep Problems', 'Anxiety'],
+        description: 'Worry can make it hard to switch off at night, and poor sleep can in turn make worries feel bigger the next day.',
+    },
+    {
+        domainNames: ['Sleep Problems', 'Depression'],
+        description: 'Low mood and poor sleep often go together: tiredness can drain energy and enjoyment, and low mood can unsettle sleep.',
+    },
+    {
+        domainNames: ['Depression', 'Anxiety'],
+        description: 'Low mood and worry often appear together, and each can make the other harder to shift.',
+    },
+    {
+        domainNames: ['Anxiety', 'Somatic Symptoms'],
+        description: 'Stress and worry can show up in the body as tension, aches or tiredness, and physical discomfort can add to worry.',
+    },
+    {
+        domainNames: ['Depression', 'Somatic Symptoms'],
+        description: 'Feeling physically unwell can wear down your mood, and low mood can make aches and tiredness feel heavier.',
+    },
+    {
+        domainNames: ['Depression', 'Anger'],
+        description: 'Low mood can sometimes come out as irritability, and frequent frustration can leave you feeling worn down.',
+    },
+    {
+        domainNames: ['Sleep Problems', 'Anger'],
+        description: 'Being short of sleep can leave you with less patience, making frustration easier to trigger.',
+    },
+    {
+        domainNames: ['Sleep Problems', 'Memory'],
+        description: 'Sleep is when the brain consolidates memories, so poor sleep can make it harder to concentrate and remember things.',
+    },
+    {
+        domainNames: ['Sleep Problems', 'Mania'],
+        description: 'Changes in sleep and changes in energy or mood often move together, so a regular sleep routine supports both.',
+    },
+    {
+        domainNames: ['Anxiety', 'Repetitive Thoughts and Behaviours'],
+        description: 'Repetitive thoughts or urges can be a way of trying to manage worry, which can keep both going.',
+    },
+    {
+        domainNames: ['Anxiety', 'Dissociation'],
+        description: 'Feeling detached from yourself or your surroundings can happen at times of high stress or worry.',
+    },
+    {
+        domainNames: ['Depression', 'Personality Functioning'],
+        description: 'Strain in relationships or in your sense of self can weigh on your mood, and low mood can make relationships harder.',
+    },
+];
+
+const careRecommendations: Record<CareTier, string> = {
+    urgent: 'Please reach out today to a mental health professional, your doctor or a crisis line. If you are in immediate danger, call your local emergency number.',
+    psychiatrist: 'We strongly encourage you to see a psychiatrist, a doctor who specialises in mental health, to talk through these results.',
+    therapist: 'We encourage you to talk these results through with a therapist or psychologist, who can offer support tailored to you.',
+    counsellor: 'Alongside the self-care steps below, it may help to talk things through with a counsellor or a peer support group.',
+    self_help: 'Self-care steps like the ones below are a good place to start. If things get harder, a counsellor or your doctor can help.',
+};
+
+// The title of the first action in the plan for each tier; its detail is the tier's next steps.
+const careActionTitles: Record<CareTier, string | null> = {
+    urgent: 'Reach out for support today',
+    psychiatrist: 'Arrange to see a psychiatrist',
+    therapist: 'Book a session with a therapist',
+    counsellor: 'Talk it through with someone',
+    self_help: null,
+};
+
+const capitalise = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Joins names as "a", "a and b" or "a, b and c".
+const listNames = (names: string[]): string =>
+    names.length <= 1 ? names.join('') : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+
+/**
+ * Orders the scored, non-steady domains of a report from most to least pressing: any
+ * endorsed crisis-response domain first, then by how concerning the result is, then by
+ * population percentile, then in report order.
+ * @param report The scored report.
+ * @param instrument The instrument, for which domains call for a crisis response.
+ */
+export function rankPriorityDomains(report: IndividualData, instrument: InstrumentDefinition = currentInstrument): Domain[] {
+    const crisisDomains = instrument.domains.filter(domain => domain.crisisResponse).map(domain => domain.name);
+    return report.domains
+        .map((domain, index) => ({ domain, index, rank: bandRank[getInsightBand(domain.userInterpretation)] }))
+        .filter(({ domain, rank }) => domain.score !== null && rank > 0)
+        .sort((a, b) =>
+            Number(crisisDomains.includes(b.domain.name)) - Number(crisisDomains.includes(a.domain.name))
+            || b.rank - a.rank
+            || (b.domain.percentile ?? -1) - (a.domain.percentile ?? -1)
+            || a.index - b.index)
+        .map(({ domain }) => domain);
+}
+
+/**
+ * Builds the executive summary of a report.
+ * @param report The scored report.
+ * @param instrument The instrument, for which domains call for a crisis response.
+ */
+export function buildExecutiveSummary(report: IndividualData, instrument: InstrumentDefinition = currentInstrument): ExecutiveSummary {
+    const crisisDomains = instrument.domains.filter(domain => domain.crisisResponse).map(domain => domain.name);
+    const ranked = rankPriorityDomains(report, instrument);
+    const priorities = ranked.slice(0, MAX_PRIORITY_AREAS);
+    const priorityNames = priorities.map(domain => domain.name);
+    // Reports scored before care tiers existed are placed by the current decision table.
+    const careTier = report.careTier ?? recommendCareTier(instrument.careTierRules ?? [], report.domains);
+
+    const interactions = interactionTable.filter(interaction =>
+        interaction.domainNames.every(name => priorityNames.includes(name)));
+
+    const overview = priorities.length === 0
+        ? `${report.firstName}, your responses suggest you're feeling steady across the areas this assessment covers.`
+        : `${report.firstName}, the ${priorities.length === 1 ? 'area that stands' : 'areas that stand'} out most in your results ${priorities.length === 1 ? 'is' : 'are'} `
+            + `${listNames(priorityNames)}.`;
+
+    const actionPlan: ActionStep[] = [];
+    const careActionTitle = careActionTitles[careTier.tier];
+    if (careActionTitle) actionPlan.push({ title: careActionTitle, detail: careTier.nextSteps.join(' ') });
+    for (const domain of priorities) {
+        // Support for a crisis-response domain is the care action itself, not self-care.
+        if (crisisDomains.includes(domain.name)) continue;
+        actionPlan.push({ title: domain.name, detail: `${capitalise(getDomainTemplate(domain.name).selfCare)} can help.` });
+    }
+    actionPlan.push(priorities.length === 0
+        ? { title: 'Keep doing what works', detail: 'Keep up the routines, rest and relationships that are supporting you.' }
+        : { title: 'Check in again', detail: 'Retake the assessment in four to six weeks to see how things have changed.' });
+
+    return {
+        overview,
+        priorityAreas: priorities.map(domain => ({
+            domainName: domain.name,
+            interpretation: domain.userInterpretation,
+            percentile: domain.percentile,
+        })),
+        interactions,
+        careTier: careTier.tier,
+        careRecommendation: careRecommendations[careTier.tier],
+        actionPlan,
+    };
+}
@@ -0,0 +1,16 @@
+import type { HistoryEntry, IndividualData } from './types.js';
+
+/**
+ * Reduces a stored report to the fields needed to chart it alongside the person's other reports.
+ */
+export const toHistoryEntry = (report: IndividualData): HistoryEntry => ({
+    submissionId: report.individualId,
+    assessmentDate: report.assessmentDate,
+    domains: report.domains.map(domain => ({
+        name: domain.name,
+        score: domain.score,
+        tScore: domain.tScore ?? null,
+        userInterpretation: domain.userInterpretation,
+        referenceIntervals: domain.referenceIntervals,
+    })),
+});
@@ -0,0 +1,21 @@
+import { createHash } from 'node:crypto';
+
+// ====================================================================================
+// Person Identity
+// ------------------------------------------------------------------------------------
+// Every submission from the same person is linked through a stable person ID, so their
+// reports can be shown as a history. The ID is derived from the normalised email address
+// rather than stored alongside it, so the same person always maps to the same ID.
+// Anyone can type any address into the form, so a report only joins the person's
+// history once its email has been confirmed with a one-time code sent to it.
+// ====================================================================================
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * Derives the stable person ID for an email address, e.g. "PER-3f1a9c0b7d2e4f56".
+ */
+export const derivePersonId = (email: string): string => {
+    const digest = createHash('sha256').update(normalizeEmail(email)).digest('hex');
+    return `PER-${digest.substring(0, 16)}`;
+};
@@ -0,0 +1,128 @@
+import { buildTemplateInsight, getInsightBand } from './insightTemplates.js';
+import type { Domain, IndividualData, InsightGuardrailFinding, InsightViolation } from './types.js';
+
+// ====================================================================================
+// Insight Guardrails
+// ------------------------------------------------------------------------------------
+// Model-written insights are checked before anyone sees them. Problems that can be
+// fixed safely (a missing recommendation to seek help, excess length) are repaired.
+// Anything that reads as a diagnosis, medication advice or alarmist language is
+// replaced with the domain's template insight. Every change is recorded for review.
+// ====================================================================================
+
+// About four to five sentences; the prompt asks for three to four.
+export const MAX_INSIGHT_LENGTH = 900;
+
+const diagnosticPatterns: RegExp[] = [
+    /\byou(?: clearly| definitely| probably| likely)? (?:have|suffer from|are suffering from|have got|'ve got) (?:a |an )?(?:clinical |major |severe |mild |moderate )?(?:depression|depressive disorder|anxiety disorder|generali[sz]ed anxiety|panic disorder|bipolar|schizophrenia|psychosis|ptsd|ocd|obsessive[- ]compulsive disorder|adhd|dementia|insomnia disorder|personality disorder|dissociative (?:identity )?disorder|somatic symptom disorder|[a-z-]+ disorder)\b/i,
+    /\byou are (?:clinically )?(?:depressed|bipolar|psychotic|schizophrenic|manic|borderline)\b/i,
+    /\byou (?:are|have been|were) diagnosed\b/i,
+    /\byour diagnosis\b/i,
+    /\bthis (?:confirms|means) (?:that )?you have\b/i,
+];
+
+const medicationPatterns: RegExp[] = [
+    /\b(?:medications?|medicines?|antidepressants?|anti-anxiety|antipsychotics?|mood stabili[sz]ers?|sedatives?|sleeping pills?|pills?|tablets?)\b/i,
+    /\b(?:ssris?|snris?|benzodiazepines?|xanax|valium|prozac|zoloft|lexapro|sertraline|fluoxetine|escitalopram|citalopram|lithium|quetiapine|alprazolam|clonazepam|zolpidem|melatonin)\b/i,
+    /\b(?:dosage|doses?|\d+\s?mg)\b/i,
+    /\bprescri(?:be|bed|ption)s?\b/i,
+];
+
+const alarmistPatterns: RegExp[] = [
+    /\b(?:alarming|life-threatening|catastroph\w*|incurable|hopeless case|insane|crazy|psycho|mentally ill|severely ill)\b/i,
+    /\bdangerous(?:ly)?\b/i,
+    /\bsomething is (?:seriously|very|really) wrong\b/i,
+    /\bwill (?:only )?(?:get worse|never (?:get better|recover|improve))\b/i,
+    /\byou should be (?:very )?(?:worried|scared|afraid)\b/i,
+];
+
+const professionalHelpPattern =
+    /\b(?:mental health professional|professional|therapist|counsell?or|psychologist|psychiatrist|doctor|gp|clinician|helpline|crisis line)s?\b/i;
+
+const professionalHelpRecommendation =
+    'We strongly encourage you to connect with a mental health professional or a trusted doctor to discuss these results and find the best path forward for you.';
+
+/**
+ * Makes a person-provided value safe to place in a prompt: drops control characters and
+ * anything but letters, marks, spaces, apostrophes, hyphens and full stops, so it cannot
+ * carry instructions, quotes or markup, and caps its length.
+ * @param value The raw value, e.g. a first name.
+ * @param maxLength The longest the result may be.
+ * @param fallback Used when nothing is left after cleaning.
+ */
+export function sanitizePromptField(value: string, maxLength: number, fallback: string): string {
+    const cleaned = value
+        .normalize('NFKC')
+        .replace(/[^\p{L}\p{M}' .-]/gu, ' ')
+        .replace(/(^|\s)[' .-]+(?=\s|$)/g, ' ') // Punctuation standing on its own
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(0, maxLength)
+        .trim();
+    return cleaned || fallback;
+}
+
+/**
+ * Lists the safety checks an insight fails.
+ * @param insight The model's text for one domain.
+ * @param requiresProfessionalHelp Whether the domain's result is one where seeking
+ *        professional help must be recommended.
+ */
+export function checkInsight(insight: string, requiresProfessionalHelp: boolean): InsightViolation[] {
+    const violations: InsightViolation[] = [];
+    if (diagnosticPatterns.some(pattern => pattern.test(insight))) violations.push('diagnostic_language');
+    if (medicationPatterns.some(pattern => pattern.test(insight))) violations.push('medication_advice');
+    if (alarmistPatterns.some(pattern => pattern.test(insight))) violations.push('alarmist_language');
+    if (requiresProfessionalHelp && !professionalHelpPattern.test(insight)) violations.push('missing_professional_help');
+    if (insight.length > MAX_INSIGHT_LENGTH) violations.push('too_long');
+    return violations;
+}
+
+// Cuts text to whole sentences that fit within the limit; empty if the first sentence does not.
+const truncateToSentences = (text: string, limit: number): string => {
+    const sentences = text.match(/[^.!?]+[.!?]+["')\]]*\s*/g) ?? [];
+    let result = '';
+    for (const sentence of sentences) {
+        if ((result + sentence).trim().length > limit) break;
+        result += sentence;
+    }
+    return result.trim();
+};
+
+const repairableViolations: InsightViolation[] = ['missing_professional_help', 'too_long'];
+
+/**
+ * Checks one domain's insight, repairing or replacing it if it fails.
+ * @param insight The model's text for the domain.
+ * @param domain The scored domain it was written for.
+ * @param report The report, for the person's name and the review log.
+ * @returns The insight safe to show, and a finding if it was changed.
+ */
+export function guardInsight(
+    insight: string,
+    domain: Domain,
+    report: IndividualData,
+): { insight: string; finding: InsightGuardrailFinding | null } {
+    const requiresProfessionalHelp = domain.score !== null && getInsightBand(domain.userInterpretation) === 'severe';
+    const original = insight.trim();
+    const violations = checkInsight(original, requiresProfessionalHelp);
+    if (violations.length === 0) return { insight: original, finding: null };
+
+    let repaired: string | null = null;
+    if (violations.every(violation => repairableViolations.includes(violation))) {
+        const suffix = violations.includes('missing_professional_help') ? ` ${professionalHelpRecommendation}` : '';
+        const body = truncateToSentences(original, MAX_INSIGHT_LENGTH - suffix.length);
+        const candidate = body ? `${body}${suffix}` : '';
+        if (candidate && checkInsight(candidate, requiresProfessionalHelp).length === 0) repaired = candidate;
+    }
+
+    const finding: InsightGuardrailFinding = {
+        domainName: domain.name,
+        violations,
+        action: repaired ? 'repaired' : 'replaced',
+        original,
+    };
+    console.warn(`Insight guardrails ${finding.action} the "${domain.name}" insight for ${report.individualId}: ${violations.join(', ')}`);
+
+    return { insight: repaired ?? buildTemplateInsight(domain, report.firstName), finding };
+}
@@ -0,0 +1,199 @@
+import type { Domain, IndividualData } from './types.js';
+
+// ====================================================================================
+// Template Insights
+// ------------------------------------------------------------------------------------
+// Curated insight text that needs no language model: used when the model fails, and for
+// organisations that do not allow AI-written content (INSIGHTS_MODE=templates).
+// Each insight follows the same three parts as the model prompt: acknowledge the result
+// without naming its label, describe how it may show up day to day, then give guidance
+// tiered by how concerning the result is.
+// ====================================================================================
+
+// How concerning an interpretation is, in the tiers the insight prompt uses.
+export type InsightBand = 'steady' | 'mild' | 'elevated' | 'severe';
+
+const bandsByInterpretation: Record<string, InsightBand> = {
+    'Minimal': 'steady',
+    'None to slight': 'steady',
+    'None': 'steady',
+    'Low': 'steady',
+    'Healthy': 'steady',
+    'Low Probability': 'steady',
+    'Within normal limits': 'steady',
+    'Mild': 'mild',
+    'Some Difficulties': 'mild',
+    'Moderate': 'elevated',
+    'Medium': 'elevated',
+    'High': 'elevated',
+    'Severe': 'severe',
+    'Extreme': 'severe',
+    'High Probability': 'severe',
+    'High Risk': 'severe',
+    'Further inquiry indicated': 'severe',
+};
+
+export interface DomainTemplate {
+    area: string; // What the domain is about, as it reads after "with", e.g. "low mood"
+    benefit: string; // Why a steady result matters, as a full sentence
+    maintain: string; // What keeps it steady, after "Continuing to"
+    impact: string; // How difficulty may show up, after "This can sometimes"
+    selfCare: string; // Self-care suggestions, after "Gentle steps like"
+    severe?: string; // Replaces the whole message for a severe result when the general one is not enough
+}
+
+const domainTemplates: Record<string, DomainTemplate> = {
+    'Depression': {
+        area: 'low mood and loss of interest',
+        benefit: 'A steady mood makes it easier to enjoy the things and people that matter to you.',
+        maintain: 'make time for activities you enjoy and stay connected with people you trust',
+        impact: 'make it hard to find energy or enjoyment in everyday activities, and make small tasks feel heavier than usual',
+        selfCare: 'a short daily walk, keeping a regular routine and talking with someone you trust',
+    },
+    'Anger': {
+        area: 'irritability and anger',
+        benefit: 'Feeling even-tempered helps keep your relationships and your days running smoothly.',
+        maintain: 'notice what helps you stay calm under pressure',
+        impact: 'lead to tension in relationships or leave you feeling on edge and easily frustrated',
+        selfCare: 'pausing to breathe before responding, regular physical activity and noting what tends to trigger your frustration',
+    },
+    'Mania': {
+        area: 'periods of unusually high energy or mood',
+        benefit: 'A stable level of energy and mood supports good sleep, judgement and focus.',
+        maintain: 'keep regular sleep and daily routines',
+        impact: 'affect sleep, decision-making and how you relate to others, sometimes without it feeling like a problem at the time',
+        selfCare: 'protecting a regular sleep schedule and keeping track of changes in your energy and mood',
+    },
+    'Anxiety': {
+        area: 'worry and nervousness',
+        benefit: 'Feeling settled makes it easier to focus, rest and face new situations.',
+        maintain: 'use the ways you already have of unwinding and managing stress',
+        impact: 'make it hard to relax or concentrate, and can show up physically as tension or a racing heart',
+        selfCare: 'slow breathing exercises, mindfulness and setting aside a short time each day to write down your worries',
+    },
+    'Somatic Symptoms': {
+        area: 'physical symptoms such as aches, pains or tiredness',
+        benefit: 'Feeling physically well gives you a good foundation for everything else you do.',
+        maintain: 'look after your body with rest, movement and regular check-ups',
+        impact: 'make daily activities more tiring, and stress can make physical symptoms feel stronger',
+        selfCare: 'gentle exercise, regular meals and rest, and relaxation techniques that ease physical tension',
+    },
+    'Suicidal Ideation': {
+        area: 'thoughts of harming yourself',
+        benefit: 'It is good that you did not report thoughts of harming yourself.',
+        maintain: 'reach out to people you trust whenever things feel hard',
+        impact: 'feel overwhelming and isolating',
+        selfCare: 'talking with someone you trust',
+        severe: '{firstName}, thank you for answering these questions honestly. Thoughts of harming yourself can feel overwhelming and isolating, and you do not have to face them alone. '
+            + 'Please reach out today to a mental health professional, your doctor or a crisis line, and if you are in immediate danger, call your local emergency number. '
+            + 'Telling someone you trust how you are feeling can also be an important first step.',
+    },
+    'Psychosis': {
+        area: 'unusual experiences, such as hearing or seeing things others do not',
+        benefit: 'Your responses did not point to unusual perceptual experiences.',
+        maintain: 'look after your sleep and stress levels',
+        impact: 'be confusing or distressing, and make it harder to trust your own perceptions',
+        selfCare: 'keeping a regular sleep pattern and avoiding alcohol and recreational drugs',
+    },
+    'Sleep Problems': {
+        area: 'sleep',
+        benefit: 'Good sleep supports your mood, concentration and physical health.',
+        maintain: 'keep a consistent bedtime and wind-down routine',
+        impact: 'leave you tired during the day and affect your mood, concentration and patience',
+        selfCare: 'a consistent sleep schedule, limiting screens and caffeine in the evening and a calming bedtime routine',
+    },
+    'Memory': {
+        area: 'memory and remembering information',
+        benefit: 'Your memory appears to be serving you well.',
+        maintain: 'keep your mind active and get enough rest',
+        impact: 'make it harder to keep track of tasks and appointments, which can add to stress',
+        selfCare: 'using lists and reminders, getting enough sleep and reducing multitasking',
+    },
+    'Repetitive Thoughts and Behaviours': {
+        area: 'repetitive thoughts or urges to repeat certain actions',
+        benefit: 'Your responses suggest repetitive thoughts and habits are not getting in your way.',
+        maintain: 'use healthy ways of managing stress',
+        impact: 'take up time and energy, and feel hard to set aside even when you want to',
+        selfCare: 'noticing when these thoughts or urges come up, relaxation techniques and gently delaying the urge to act on them',
+    },
+    'Dissociation': {
+        area: 'feeling detached from yourself or your surroundings',
+        benefit: 'Feeling connected to yourself and your surroundings helps you engage fully with daily life.',
+        maintain: 'keep looking after your stress levels and rest',
+        impact: 'feel unsettling and make it harder to stay present in conversations or tasks',
+        selfCare: 'grounding techniques, such as focusing on what you can see, hear and touch around you',
+    },
+    'Personality Functioning': {
+        area: 'your sense of self and your relationships with others',
+        benefit: 'A steady sense of who you are supports healthy relationships.',
+        maintain: 'invest in the relationships that matter to you',
+        impact: 'make relationships feel strained or leave you unsure of what you want',
+        selfCare: 'reflecting on patterns in your relationships and talking things through with someone you trust',
+    },
+};
+
+// Used for any domain without its own template.
+const defaultTemplate: DomainTemplate = {
+    area: 'this area',
+    benefit: 'Feeling steady here supports your overall wellbeing.',
+    maintain: 'look after your routines, rest and relationships',
+    impact: 'affect your mood, energy and daily routines',
+    selfCare: 'mindfulness, journaling or talking with a trusted friend',
+};
+
+const acknowledgements: Record<InsightBand, (firstName: string, area: string) => string> = {
+    steady: (firstName, area) => `${firstName}, your responses suggest you're feeling steady when it comes to ${area}.`,
+    mild: (firstName, area) => `${firstName}, it looks like you've had some difficulty with ${area} lately.`,
+    elevated: (firstName, area) => `${firstName}, it appears you're dealing with a noticeable level of difficulty with ${area}.`,
+    severe: (firstName, area) => `${firstName}, your responses suggest you've been experiencing a significant level of difficulty with ${area}.`,
+};
+
+const guidance: Record<InsightBand, (template: DomainTemplate) => string> = {
+    steady: template => `Continuing to ${template.maintain} will help you maintain this balance.`,
+    mild: template => `Gentle steps like ${template.selfCare} can be a helpful place to start.`,
+    elevated: template => `Strategies like ${template.selfCare} may help, and it may be beneficial to explore this with a professional who can offer tools tailored specifically to you.`,
+    severe: () => 'These feelings can be very challenging to manage alone. We strongly encourage you to connect with a mental health professional or a trusted doctor to discuss these results and find the best path forward for you.',
+};
+
+/**
+ * Returns the guidance tier for an interpretation label. Unrecognised labels are treated
+ * as elevated, so an unfamiliar result is never described as nothing to worry about.
+ */
+export const getInsightBand = (interpretation: string): InsightBand =>
+    bandsByInterpretation[interpretation] ?? 'elevated';
+
+/**
+ * Returns the curated text for a domain, or the general text if it has none.
+ */
+export const getDomainTemplate = (domainName: string): DomainTemplate =>
+    domainTemplates[domainName] ?? defaultTemplate;
+
+/**
+ * Writes the template insight for one domain.
+ * @param domain The scored domain.
+ * @param firstName The person's first name, used to address them.
+ */
+export function buildTemplateInsight(domain: Domain, firstName: string): string {
+    const template = getDomainTemplate(domain.name);
+
+    // Too few answers to score the domain; there is no result to interpret.
+    if (domain.score === null) {
+        return `${firstName}, there weren't enough answers in this section to give a result about ${template.area}. `
+            + 'If this is an area you would like to understand better, you can retake the assessment or talk it through with a professional.';
+    }
+
+    const band = getInsightBand(domain.userInterpretation);
+
+    if (band === 'severe' && template.severe) {
+        return template.severe.replace('{firstName}', firstName);
+    }
+
+    const impact = band === 'steady' ? template.benefit : `This can sometimes ${template.impact}.`;
+    return [acknowledgements[band](firstName, template.area), impact, guidance[band](template)].join(' ');
+}
+
+/**
+ * Writes the template insights for every domain of a report, in domain order.
+ */
+export const buildTemplateInsights = (report: IndividualData): string[] =>
+    report.domains.map(domain => buildTemplateInsight(domain, report.firstName));
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getOrCreateInsights, InsightConflictError, regenerateInsights, streamInsights } from './insights.js';
+import { buildTemplateInsights } from './insightTemplates.js';
+import { LlmProvider, LlmProviderError, LlmRequest, setLlmProvider } from './llm/index.js';
+import { getReportRepository, setReportRepository } from './repository/index.js';
+import { InMemoryReportRepository } from './repository/memory.js';
+import { buildReport } from '../_tests/reports.js';
+import type { InsightUpdate } from './types.js';
+
+const NOW = new Date('2026-10-19T09:00:00Z').getTime();
+const HOUR_MS = 60 * 60 * 1000;
+
+// Writes a numbered insight for each call, and fails on the domains it is told to.
+class ScriptedProvider implements LlmProvider {
+    readonly name = 'scripted';
+    readonly model = 'test';
+    calls = 0;
+    failingDomains = new Set<string>();
+
+    async generateJson({ prompt }: LlmRequest): Promise<unknown> {
+        this.calls++;
+        const domainName = prompt.match(/"name": "([^"]+)"/)![1];
+        if (this.failingDomains.has(domainName)) throw new LlmProviderError('The model is unavailable.');
+        return { insight: `Insight ${this.calls} on ${domainName}. Keep doing what helps you feel steady.` };
+    }
+}
+
+const report = buildReport('report-1');
+const anger = report.domains.findIndex(domain => domain.name === 'Anger');
+let provider: ScriptedProvider;
+
+beforeEach(async () => {
+    vi.useFakeTimers({ now: NOW });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    provider = new ScriptedProvider();
+    setLlmProvider(provider);
+    setReportRepository(new InMemoryReportRepository());
+    await getReportRepository().save(report);
+});
+
+afterEach(() => {
+    setLlmProvider(null);
+    setReportRepository(null);
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+describe('getOrCreateInsights', () => {
+    it('writes the insights once and serves the stored set afterwards', async () => {
+        const first = await getOrCreateInsights(report);
+        expect(first).toMatchObject({ version: 1, source: 'model', model: 'scripted/test', requestedBy: null });
+        expect(first.insights).toHaveLength(report.domains.length);
+        expect(provider.calls).toBe(report.domains.length);
+
+        expect(await getOrCreateInsights(report)).toEqual(first);
+        expect(provider.calls).toBe(report.domains.length);
+        expect(await getReportRepository().findInsights('report-1')).toEqual([first]);
+    });
+
+    it('stores template insights for the domains the model failed on and retries them once an hour later', async () => {
+        provider.failingDomains.add('Anger');
+        const first = await getOrCreateInsights(report);
+        expect(first).toMatchObject({ version: 1, source: 'fallback', fallbackDomains: [anger] });
+        expect(first.insights[anger]).toBe(buildTemplateInsights(report)[anger]);
+
+        vi.setSystemTime(NOW + HOUR_MS - 1);
+        expect(await getOrCreateInsights(report)).toEqual(first);
+
+        provider.failingDomains.clear();
+        const callsBefore = provider.calls;
+        vi.setSystemTime(NOW + HOUR_MS);
+        const retried = await getOrCreateInsights(report);
+
+        expect(provider.calls).toBe(callsBefore + 1);
+        expect(retried).toMatchObject({ version: 2, source: 'model' });
+        expect(retried.insights[anger]).toMatch(/on Anger/);
+        expect(retried.insights.filter((_, index) => index !== anger)).toEqual(first.insights.filter((_, index) => index !== anger));
+    });
+
+    it('uses only the templates when INSIGHTS_MODE is templates', async () => {
+        vi.stubEnv('INSIGHTS_MODE', 'templates');
+        const set = await getOrCreateInsights(report);
+
+        expect(set).toMatchObject({ source: 'templates', model: 'templates', insights: buildTemplateInsights(report) });
+        expect(provider.calls).toBe(0);
+    });
+});
+
+describe('streamInsights', () => {
+    it('passes each domain on as it is written, then the same set again from storage', async () => {
+        const updates: InsightUpdate[] = [];
+        const set = await streamInsights(report, update => updates.push(update));
+        expect(updates.map(update => update.index).sort((a, b) => a - b)).toEqual(report.domains.map((_, index) => index));
+        expect(updates.every(update => update.insight === set.insights[update.index] && update.source === 'model')).toBe(true);
+
+        const replayed: InsightUpdate[] = [];
+        await streamInsights(report, update => replayed.push(update));
+        expect(replayed.map(update => update.insight)).toEqual(set.insights);
+    });
+});
+
+describe('regenerateInsights', () => {
+    it('stores a new generation for the clinician and keeps the earlier ones', async () => {
+        const first = await getOrCreateInsights(report);
+        const second = await regenerateInsights(report, 'dr.mehta');
+
+        expect(second).toMatchObject({ version: 2, source: 'model', requestedBy: 'dr.mehta' });
+        expect(second.insights).not.toEqual(first.insights);
+        expect(await getReportRepository().findInsights('report-1')).toEqual([first, second]);
+    });
+
+    it('reports a failure instead of falling back, and stores nothing', async () => {
+        provider.failingDomains.add('Anger');
+        await expect(regenerateInsights(report, 'dr.mehta')).rejects.toThrow(LlmProviderError);
+        expect(await getReportRepository().findInsights('report-1')).toEqual([]);
+    });
+
+    it('refuses to store a generation when another was stored first', async () => {
+        vi.spyOn(getReportRepository(), 'saveInsights').mockResolvedValueOnce(false);
+        await expect(regenerateInsights(report, 'dr.mehta')).rejects.toThrow(InsightConflictError);
+    });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateCondition, getShownAnswers, InstrumentDefinition, InstrumentDomain, validateInstrument } from './instrument.js';
+import { currentInstrument } from './instruments/index.js';
+
+const section = (name: string, items: InstrumentDomain['items'], condition?: InstrumentDomain['condition']): InstrumentDomain => ({
+    name,
+    description: `${name} questions`,
+    about: `About ${name}`,
+    aboutLink: 'https://example.com',
+    scoring: { method: 'SUM' },
+    responseScale: 'LEVEL',
+    referenceIntervals: [{ label: 'Any', min: 0, max: 8, color: 'bg-green-500' }],
+    individualsExperienced: [],
+    items,
+    condition,
+});
+
+const instrument: InstrumentDefinition = {
+    id: 'test',
+    version: '1',
+    title: 'Test instrument',
+    responseScales: {
+        LEVEL: { options: [0, 1, 2, 3, 4].map(value => ({ value, label: `Level ${value}` })) },
+    },
+    domains: [
+        section('Screening', [
+            { id: 'a', text: 'A', mandatory: true },
+            { id: 'b', text: 'B', mandatory: true },
+        ]),
+        section('Follow-up', [
+            { id: 'c', text: 'C', mandatory: false, condition: { triggerIds: ['a'], requiredValues: [2, 3, 4] } },
+            { id: 'd', text: 'D', mandatory: false, condition: { item: 'c', op: '>=', value: 3 } },
+        ]),
+        section('Gated', [
+            { id: 'e', text: 'E', mandatory: false },
+        ], { countOf: { section: 'Screening' }, op: '>', value: 0, atLeast: 2 }),
+    ],
+};
+
+describe('evaluateCondition', () => {
+    it('matches any trigger answered with a required value', () => {
+        const condition = { triggerIds: ['a', 'b'], requiredValues: [2, 3] };
+        expect(evaluateCondition(instrument, condition, { a: 0, b: 3 })).toBe(true);
+        expect(evaluateCondition(instrument, condition, { a: 1, b: 4 })).toBe(false);
+    });
+
+    it('compares an answer with a value', () => {
+        expect(evaluateCondition(instrument, { item: 'a', op: '<', value: 2 }, { a: 1 })).toBe(true);
+        expect(evaluateCondition(instrument, { item: 'a', op: '!=', value: 1 }, { a: 1 })).toBe(false);
+    });
+
+    it('fails every comparison for an unanswered item', () => {
+        expect(evaluateCondition(instrument, { item: 'a', op: '!=', value: 1 }, {})).toBe(false);
+        expect(evaluateCondition(instrument, { item: 'a', op: '<', value: 2 }, { a: '1' })).toBe(false);
+    });
+
+    it('counts matching answers in a list of items or a whole section', () => {
+        const ofItems = { countOf: ['a', 'b'], op: '>=' as const, value: 2, atLeast: 2 };
+        expect(evaluateCondition(instrument, ofItems, { a: 2, b: 3 })).toBe(true);
+        expect(evaluateCondition(instrument, ofItems, { a: 2, b: 1 })).toBe(false);
+
+        const ofSection = { countOf: { section: 'Screening' }, op: '=' as const, value: 0, atLeast: 2 };
+        expect(evaluateCondition(instrument, ofSection, { a: 0, b: 0 })).toBe(true);
+        expect(evaluateCondition(instrument, ofSection, { a: 0 })).toBe(false);
+    });
+
+    it('combines conditions with all, any and not', () => {
+        const high = { item: 'a', op: '>=' as const, value: 3 };
+        const low = { item: 'b', op: '<=' as const, value: 1 };
+        const answers = { a: 4, b: 2 };
+
+        expect(evaluateCondition(instrument, { all: [high, low] }, answers)).toBe(false);
+        expect(evaluateCondition(instrument, { any: [high, low] }, answers)).toBe(true);
+        expect(evaluateCondition(instrument, { not: low }, answers)).toBe(true);
+        expect(evaluateCondition(instrument, { all: [] }, answers)).toBe(true);
+        expect(evaluateCondition(instrument, { any: [] }, answers)).toBe(false);
+    });
+});
+
+describe('getShownAnswers', () => {
+    it('keeps answers to items that are shown', () => {
+        const answers = { a: 2, b: 1, c: 3, d: 0, e: 4 };
+        expect(getShownAnswers(instrument, answers)).toEqual(answers);
+    });
+
+    it('drops answers to follow-ups hidden by a changed screener answer, and what they showed', () => {
+        expect(getShownAnswers(instrument, { a: 0, b: 1, c: 3, d: 0 })).toEqual({ a: 0, b: 1 });
+    });
+
+    it('drops answers to a section whose own condition does not hold', () => {
+        expect(getShownAnswers(instrument, { a: 2, b: 0, e: 4 })).toEqual({ a: 2, b: 0 });
+    });
+});
+
+describe('validateInstrument', () => {
+    it('accepts the current instrument', () => {
+        expect(validateInstrument(currentInstrument)).toEqual([]);
+    });
+
+    it('accepts a well-formed test instrument', () => {
+        expect(validateInstrument(instrument)).toEqual([]);
+    });
+
+    it('reports unknown response scales, duplicate items and conditions on later items', () => {
+        const broken: InstrumentDefinition = {
+            ...instrument,
+            domains: [
+                section('Screening', [
+                    { id: 'a', text: 'A', mandatory: true, responseScale: 'MISSING' },
+                    { id: 'a', text: 'A again', mandatory: true },
+                    { id: 'b', text: 'B', mandatory: true, condition: { item: 'z', op: '=', value: 1 } },
+                    { id: 'z', text: 'Z', mandatory: false },
+                ]),
+            ],
+        };
+        const errors = validateInstrument(broken);
+
+        expect(errors).toContain('Item "a" uses unknown response scale "MISSING".');
+        expect(errors).toContain('Item "a" is defined more than once.');
+        expect(errors.some(error => error.includes('"z"'))).toBe(true);
+    });
+
+    it('reports a label or alias that names more than one option', () => {
+        const broken: InstrumentDefinition = {
+            ...instrument,
+            responseScales: {
+                LEVEL: { options: [{ value: 0, label: 'None' }, { value: 1, label: 'Some', aliases: ['none'] }] },
+            },
+        };
+        expect(validateInstrument(broken)).toContain('Response scale "LEVEL" uses the label "none" more than once.');
+    });
+});
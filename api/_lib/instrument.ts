@@ -0,0 +1,659 @@
+import type { CareTier, IndividualExperienced, ReferenceInterval } from './types.js';
+import type { PromisShortForm } from './promis.js';
+
+// ====================================================================================
+// Instrument Definition Format
+// ------------------------------------------------------------------------------------
+// A single, versioned, declarative description of the assessment. The same definition
+// drives the sections rendered by the AssessmentForm and the scoring performed by
+// generateReportFromJotform, so the two can no longer drift apart.
+// Definitions are typed TypeScript modules rather than JSON files: the types below take
+// the place of a JSON Schema, and validateInstrument checks what types cannot when the
+// definition is loaded.
+// ====================================================================================
+
+export type ScoringMethod = 'SUM' | 'MAX_THRESHOLD' | 'AVERAGE';
+
+export interface ResponseOption {
+    value: number; // The coded value submitted as the answer and used directly in scoring
+    label: string;
+    aliases?: string[]; // Other labels the option is submitted under, e.g. by the live Jotform form
+}
+
+export interface ResponseScale {
+    options: ResponseOption[];
+}
+
+// Display logic. A condition may only refer to items that come before the item or section
+// it shows, so the form can always decide what to show from the answers already given.
+// An unanswered item, or one that is not shown, fails every comparison.
+
+// Any of the triggers has been answered with one of the required values.
+export interface ItemCondition {
+    triggerIds: string[];
+    requiredValues: number[];
+}
+
+export type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+// One item's coded answer compared with a value, e.g. { item: 'X', op: '>=', value: 2 }.
+export interface AnswerComparison {
+    item: string;
+    op: ComparisonOperator;
+    value: number;
+}
+
+// At least `atLeast` of the items, or of every item in a section, compare true.
+export interface AnswerCount {
+    countOf: string[] | { section: string };
+    op: ComparisonOperator;
+    value: number;
+    atLeast: number;
+}
+
+export type DisplayCondition =
+    | ItemCondition
+    | AnswerComparison
+    | AnswerCount
+    | { all: DisplayCondition[] }
+    | { any: DisplayCondition[] }
+    | { not: DisplayCondition };
+
+export interface InstrumentItem {
+    id: string;
+    text: string;
+    mandatory: boolean;
+    responseScale?: string; // Overrides the domain's response scale for this item
+    scored?: boolean; // Defaults to true. Screeners that only gate follow-up items set this to false.
+    reverse?: boolean;
+    condition?: DisplayCondition;
+}
+
+// Used to judge whether a change between two assessments is larger than measurement error.
+export interface ScoreReliability {
+    coefficient: number; // Reliability of the score, between 0 and 1
+    standardDeviation: number; // Population SD of the score, on the metric the intervals use
+    source: string; // Where the coefficient and SD come from
+}
+
+export interface DomainScoring {
+    method: ScoringMethod;
+    tScoreConversion?: PromisShortForm; // Raw sums are reported on the PROMIS T-score metric
+    reliability?: ScoreReliability; // Without it, change between assessments is not assessed
+}
+
+// Each domain is both a section of the form and a domain of the report.
+export interface InstrumentDomain {
+    name: string;
+    description: string;
+    about: string;
+    aboutLink: string;
+    scoring: DomainScoring;
+    responseScale: string; // Key into the instrument's responseScales
+    referenceIntervals: ReferenceInterval[];
+    individualsExperienced: IndividualExperienced[];
+    items: InstrumentItem[];
+    crisisResponse?: boolean; // Any non-zero answer to one of its items calls for an immediate crisis response
+    condition?: DisplayCondition; // Without it the section is shown whenever one of its items is
+}
+
+// Two items that ask about the same thing in opposite directions, such as "my sleep was
+// restless" and "my sleep was refreshing". Answering both at the same end of the scale
+// is contradictory.
+export interface ConsistencyPair {
+    forward: string; // Item ID
+    reverse: string; // Item ID of the reverse-scored counterpart
+}
+
+// A domain result a pattern rule looks for.
+export interface PatternCondition {
+    domain: string;
+    interpretations: string[]; // Reference interval labels, any of which matches
+}
+
+// A combination of domain results that carries clinical meaning no single domain shows.
+export interface PatternRule {
+    id: string;
+    name: string;
+    rationale: string; // Why the combination matters, for the clinician
+    when: PatternCondition[]; // Every condition must hold
+    clientMessage?: string; // Shown in the person's own report; without it the flag is for clinicians only
+}
+
+// One row of the stepped-care decision table. Rows are read in order and the first that
+// matches sets the tier.
+export interface CareTierRule {
+    tier: CareTier;
+    reason: string; // Why the row applies, shown to clinicians and intake coordinators
+    domains: string[];
+    interpretations: string[]; // Reference interval labels that count towards the row
+    minCount?: number; // How many of the domains must have one of them; defaults to 1
+}
+
+export interface InstrumentDefinition {
+    id: string;
+    version: string;
+    title: string;
+    responseScales: { [scaleId: string]: ResponseScale };
+    domains: InstrumentDomain[];
+    patternRules?: PatternRule[];
+    careTierRules?: CareTierRule[]; // Without them every report is recommended self-help
+    consistencyPairs?: ConsistencyPair[]; // Used to flag contradictory answers
+}
+
+const scoringMethods: ScoringMethod[] = ['SUM', 'MAX_THRESHOLD', 'AVERAGE'];
+const careTiers: CareTier[] = ['self_help', 'counsellor', 'therapist', 'psychiatrist', 'urgent'];
+const promisShortForms: PromisShortForm[] = ['DEPRESSION_8A', 'ANGER_5A', 'ANXIETY_7A', 'SLEEP_DISTURBANCE_8A'];
+
+// Floating point tolerance used when comparing interval boundaries.
+const EPSILON = 1e-9;
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+/**
+ * Returns true if the item contributes to its domain's score.
+ */
+export const isScoredItem = (item: InstrumentItem): boolean => item.scored !== false;
+
+/**
+ * Resolves the response scale an item is answered on: its own override, or its domain's scale.
+ */
+export const getItemResponseScale = (instrument: InstrumentDefinition, domain: InstrumentDomain, item: InstrumentItem): ResponseScale => {
+    return instrument.responseScales[item.responseScale ?? domain.responseScale];
+};
+
+const compareAnswer = (answer: unknown, op: ComparisonOperator, value: number): boolean => {
+    if (typeof answer !== 'number') return false;
+    switch (op) {
+        case '=': return answer === value;
+        case '!=': return answer !== value;
+        case '<': return answer < value;
+        case '<=': return answer <= value;
+        case '>': return answer > value;
+        case '>=': return answer >= value;
+    }
+};
+
+/**
+ * Evaluates a display condition against a set of answers. The form and the server both
+ * call this, so they always agree on what was shown.
+ * @param instrument The instrument the condition belongs to; used to resolve sections.
+ * @param condition The condition to evaluate.
+ * @param answers Coded answers keyed by item ID, as returned by getShownAnswers.
+ */
+export function evaluateCondition(instrument: InstrumentDefinition, condition: DisplayCondition, answers: { [itemId: string]: unknown }): boolean {
+    if ('all' in condition) return condition.all.every(part => evaluateCondition(instrument, part, answers));
+    if ('any' in condition) return condition.any.some(part => evaluateCondition(instrument, part, answers));
+    if ('not' in condition) return !evaluateCondition(instrument, condition.not, answers);
+    if ('triggerIds' in condition) {
+        return condition.triggerIds.some(id => typeof answers[id] === 'number' && condition.requiredValues.includes(answers[id] as number));
+    }
+    if ('countOf' in condition) {
+        const itemIds = Array.isArray(condition.countOf)
+            ? condition.countOf
+            : (instrument.domains.find(domain => domain.name === (condition.countOf as { section: string }).section)?.items ?? []).map(item => item.id);
+        const matching = itemIds.filter(id => compareAnswer(answers[id], condition.op, condition.value)).length;
+        return matching >= condition.atLeast;
+    }
+    return compareAnswer(answers[condition.item], condition.op, condition.value);
+}
+
+/**
+ * Returns true if a section's own condition holds for the given answers.
+ */
+export const isSectionVisible = (
+    instrument: InstrumentDefinition,
+    domain: Pick<InstrumentDomain, 'condition'>,
+    answers: { [itemId: string]: unknown },
+): boolean => !domain.condition || evaluateCondition(instrument, domain.condition, answers);
+
+/**
+ * Returns true if an item is shown for the given answers: its section is shown, and it has
+ * no condition or its condition holds.
+ */
+export const isItemVisible = (
+    instrument: InstrumentDefinition,
+    domain: Pick<InstrumentDomain, 'condition'>,
+    item: Pick<InstrumentItem, 'condition'>,
+    answers: { [itemId: string]: unknown },
+): boolean => isSectionVisible(instrument, domain, answers)
+    && (!item.condition || evaluateCondition(instrument, item.condition, answers));
+
+/**
+ * Drops the answers to items that are not shown, such as follow-ups hidden again by a
+ * changed screener answer. Items are visited in form order, so an answer that is dropped
+ * can no longer show a later item.
+ * @returns The answers to shown items only.
+ */
+export function getShownAnswers<T>(instrument: InstrumentDefinition, answers: { [itemId: string]: T }): { [itemId: string]: T } {
+    const shown: { [itemId: string]: T } = {};
+    for (const domain of instrument.domains) {
+        for (const item of domain.items) {
+            if (answers[item.id] !== undefined && isItemVisible(instrument, domain, item, shown)) shown[item.id] = answers[item.id];
+        }
+    }
+    return shown;
+}
+
+/**
+ * Finds the items of crisis-response domains that were answered with a non-zero value.
+ * Used by the form to interrupt with crisis support and by the server to record a risk event.
+ * @param instrument The instrument the answers belong to.
+ * @param answers Coded answers keyed by item ID.
+ * @returns The IDs of the endorsed items; empty if no crisis response is needed.
+ */
+export const getEndorsedCrisisItems = (instrument: InstrumentDefinition, answers: { [itemId: string]: unknown }): string[] => {
+    return instrument.domains
+        .filter(domain => domain.crisisResponse)
+        .flatMap(domain => domain.items)
+        .filter(item => typeof answers[item.id] === 'number' && answers[item.id] !== 0)
+        .map(item => item.id);
+};
+
+/**
+ * The smallest difference between two distinct scores of a domain. Averages and T-scores
+ * are reported to one decimal place; sums and single-item thresholds are whole numbers.
+ * Adjacent reference intervals must be exactly this far apart.
+ */
+export const getScoreResolution = (scoring: DomainScoring): number => {
+    return scoring.method === 'AVERAGE' || scoring.tScoreConversion ? 0.1 : 1;
+};
+
+const validateResponseScales = (definition: InstrumentDefinition, errors: string[]) => {
+    if (!definition.responseScales || typeof definition.responseScales !== 'object') {
+        errors.push('Instrument must define its response scales.');
+        return;
+    }
+    for (const [scaleId, scale] of Object.entries(definition.responseScales)) {
+        if (!Array.isArray(scale?.options) || scale.options.length < 2) {
+            errors.push(`Response scale "${scaleId}" must have at least two options.`);
+            continue;
+        }
+        const values = new Set<number>();
+        const labels = new Set<string>();
+        for (const option of scale.options) {
+            if (!Number.isInteger(option.value) || !isNonEmptyString(option.label)
+                || (option.aliases !== undefined && (!Array.isArray(option.aliases) || !option.aliases.every(isNonEmptyString)))) {
+                errors.push(`Response scale "${scaleId}" has a malformed option: ${JSON.stringify(option)}.`);
+                continue;
+            }
+            if (values.has(option.value)) errors.push(`Response scale "${scaleId}" uses the value ${option.value} more than once.`);
+            values.add(option.value);
+            // Submitted labels are matched ignoring case, so each must name one option only.
+            for (const label of [option.label, ...(option.aliases ?? [])]) {
+                const key = label.trim().toLowerCase();
+                if (labels.has(key)) errors.push(`Response scale "${scaleId}" uses the label "${label}" more than once.`);
+                labels.add(key);
+            }
+        }
+    }
+};
+
+const comparisonOperators: ComparisonOperator[] = ['=', '!=', '<', '<=', '>', '>='];
+
+// What a condition may refer to: the items and sections before the one it belongs to.
+interface ConditionScope {
+    where: string;
+    earlierItems: Set<string>;
+    earlierSections: Map<string, string[]>; // Section name to its item IDs
+    itemScales: Map<string, ResponseScale>;
+    allItems: Set<string>;
+}
+
+const validateItemReference = (itemId: unknown, scope: ConditionScope, errors: string[]): boolean => {
+    if (typeof itemId !== 'string' || !scope.allItems.has(itemId)) {
+        errors.push(`${scope.where} has a condition on unknown item "${itemId}".`);
+        return false;
+    }
+    if (!scope.earlierItems.has(itemId)) {
+        errors.push(`${scope.where} has a condition on "${itemId}", which is not asked before it.`);
+        return false;
+    }
+    return true;
+};
+
+// Equality is only meaningful against a value the item can take; thresholds may fall between options.
+const validateComparedValue = (itemId: string, op: ComparisonOperator, value: number, scope: ConditionScope, errors: string[]) => {
+    const scale = scope.itemScales.get(itemId);
+    if ((op === '=' || op === '!=') && scale && !scale.options.some(option => option.value === value)) {
+        errors.push(`${scope.where} has a condition on the value ${value}, which "${itemId}" cannot take.`);
+    }
+};
+
+const validateCondition = (condition: DisplayCondition, scope: ConditionScope, errors: string[]) => {
+    if (!condition || typeof condition !== 'object') {
+        errors.push(`${scope.where} has a malformed condition.`);
+        return;
+    }
+    if ('all' in condition || 'any' in condition) {
+        const parts = 'all' in condition ? condition.all : condition.any;
+        if (!Array.isArray(parts) || parts.length === 0) {
+            errors.push(`${scope.where} has an empty condition group.`);
+            return;
+        }
+        parts.forEach(part => validateCondition(part, scope, errors));
+        return;
+    }
+    if ('not' in condition) {
+        validateCondition(condition.not, scope, errors);
+        return;
+    }
+    if ('triggerIds' in condition) {
+        const { triggerIds, requiredValues } = condition;
+        if (!Array.isArray(triggerIds) || triggerIds.length === 0 || !Array.isArray(requiredValues) || requiredValues.length === 0) {
+            errors.push(`${scope.where} has a malformed condition.`);
+            return;
+        }
+        for (const triggerId of triggerIds) {
+            if (!validateItemReference(triggerId, scope, errors)) continue;
+            const triggerScale = scope.itemScales.get(triggerId);
+            const unknownValues = requiredValues.filter(value => triggerScale && !triggerScale.options.some(o => o.value === value));
+            if (unknownValues.length > 0) {
+                errors.push(`${scope.where} has a condition on values ${unknownValues.join(', ')} that "${triggerId}" cannot take.`);
+            }
+        }
+        return;
+    }
+
+    const { op, value } = condition as AnswerComparison | AnswerCount;
+    if (!comparisonOperators.includes(op) || typeof value !== 'number') {
+        errors.push(`${scope.where} has a comparison without a known operator and a numeric value.`);
+        return;
+    }
+    if ('countOf' in condition) {
+        let itemIds: string[] = [];
+        if (Array.isArray(condition.countOf)) {
+            itemIds = condition.countOf.filter(itemId => validateItemReference(itemId, scope, errors));
+        } else {
+            const section = condition.countOf?.section;
+            const sectionItems = scope.earlierSections.get(section);
+            if (!sectionItems) {
+                errors.push(`${scope.where} has a condition on section "${section}", which is unknown or not asked before it.`);
+                return;
+            }
+            itemIds = sectionItems;
+        }
+        if (!Number.isInteger(condition.atLeast) || condition.atLeast < 1 || condition.atLeast > itemIds.length) {
+            errors.push(`${scope.where} has a count condition whose "atLeast" is not between 1 and the number of items counted.`);
+        }
+        itemIds.forEach(itemId => validateComparedValue(itemId, op, value, scope, errors));
+        return;
+    }
+    if (validateItemReference((condition as AnswerComparison).item, scope, errors)) {
+        validateComparedValue((condition as AnswerComparison).item, op, value, scope, errors);
+    }
+};
+
+const validateConditions = (definition: InstrumentDefinition, itemScales: Map<string, ResponseScale>, errors: string[]) => {
+    const allItems = new Set(definition.domains.flatMap(domain => (domain.items ?? []).map(item => item.id)));
+    const earlierItems = new Set<string>();
+    const earlierSections = new Map<string, string[]>();
+
+    for (const domain of definition.domains) {
+        const items = domain.items ?? [];
+        if (domain.condition) {
+            validateCondition(domain.condition, {
+                where: `Domain "${domain.name}"`, earlierItems: new Set(earlierItems), earlierSections, itemScales, allItems,
+            }, errors);
+        }
+        for (const item of items) {
+            if (item.condition) {
+                validateCondition(item.condition, {
+                    where: `Item "${item.id}"`, earlierItems, earlierSections, itemScales, allItems,
+                }, errors);
+            }
+            earlierItems.add(item.id);
+        }
+        earlierSections.set(domain.name, items.map(item => item.id));
+    }
+};
+
+const validateReferenceIntervals = (domain: InstrumentDomain, errors: string[]) => {
+    const where = `Domain "${domain.name}"`;
+    const intervals = domain.referenceIntervals;
+    if (!Array.isArray(intervals) || intervals.length === 0) {
+        errors.push(`${where} must define at least one reference interval.`);
+        return;
+    }
+
+    for (const interval of intervals) {
+        if (!isNonEmptyString(interval.label) || !isNonEmptyString(interval.color) || typeof interval.min !== 'number') {
+            errors.push(`${where} has a malformed reference interval: ${JSON.stringify(interval)}.`);
+            return;
+        }
+        if (interval.max !== null && interval.max < interval.min) {
+            errors.push(`${where} interval "${interval.label}" has a max below its min.`);
+        }
+        if (interval.flag !== undefined && interval.flag !== 'elevated' && interval.flag !== 'severe') {
+            errors.push(`${where} interval "${interval.label}" has unknown flag "${interval.flag}"; use "elevated" or "severe".`);
+        }
+    }
+
+    const resolution = getScoreResolution(domain.scoring);
+    const sorted = [...intervals].sort((a, b) => a.min - b.min);
+    sorted.forEach((interval, index) => {
+        const next = sorted[index + 1];
+        if (!next) return;
+        if (interval.max === null) {
+            errors.push(`${where} interval "${interval.label}" is open-ended but is followed by "${next.label}".`);
+            return;
+        }
+        if (next.min <= interval.max + EPSILON) {
+            errors.push(`${where} intervals "${interval.label}" and "${next.label}" overlap.`);
+        } else if (next.min - interval.max > resolution + EPSILON) {
+            errors.push(`${where} has a gap between intervals "${interval.label}" and "${next.label}".`);
+        }
+    });
+};
+
+const validatePatternRules = (definition: InstrumentDefinition, errors: string[]) => {
+    if (definition.patternRules === undefined) return;
+    if (!Array.isArray(definition.patternRules)) {
+        errors.push('Instrument pattern rules must be a list.');
+        return;
+    }
+
+    const ruleIds = new Set<string>();
+    for (const rule of definition.patternRules) {
+        if (!isNonEmptyString(rule.id) || !isNonEmptyString(rule.name) || !isNonEmptyString(rule.rationale)) {
+            errors.push(`Pattern rule is malformed: ${JSON.stringify(rule)}.`);
+            continue;
+        }
+        const where = `Pattern rule "${rule.id}"`;
+        if (ruleIds.has(rule.id)) errors.push(`${where} is defined more than once.`);
+        ruleIds.add(rule.id);
+        if (rule.clientMessage !== undefined && !isNonEmptyString(rule.clientMessage)) {
+            errors.push(`${where} has an empty client message.`);
+        }
+
+        if (!Array.isArray(rule.when) || rule.when.length === 0) {
+            errors.push(`${where} must have at least one condition.`);
+            continue;
+        }
+        for (const condition of rule.when) {
+            const domain = definition.domains.find(d => d.name === condition.domain);
+            if (!domain) {
+                errors.push(`${where} has a condition on unknown domain "${condition.domain}".`);
+                continue;
+            }
+            if (!Array.isArray(condition.interpretations) || condition.interpretations.length === 0) {
+                errors.push(`${where} must list at least one interpretation of "${condition.domain}".`);
+                continue;
+            }
+            const labels = (domain.referenceIntervals ?? []).map(interval => interval.label);
+            const unknownLabels = condition.interpretations.filter(label => !labels.includes(label));
+            if (unknownLabels.length > 0) {
+                errors.push(`${where} uses interpretations ${unknownLabels.map(label => `"${label}"`).join(', ')} that "${condition.domain}" does not have.`);
+            }
+        }
+    }
+};
+
+const validateCareTierRules = (definition: InstrumentDefinition, errors: string[]) => {
+    if (definition.careTierRules === undefined) return;
+    if (!Array.isArray(definition.careTierRules)) {
+        errors.push('Instrument care tier rules must be a list.');
+        return;
+    }
+
+    definition.careTierRules.forEach((rule, index) => {
+        const where = `Care tier rule ${index + 1}`;
+        if (!careTiers.includes(rule.tier)) errors.push(`${where} has an unknown tier "${rule.tier}".`);
+        if (!isNonEmptyString(rule.reason)) errors.push(`${where} must give a reason.`);
+        if (!Array.isArray(rule.domains) || rule.domains.length === 0 || !Array.isArray(rule.interpretations) || rule.interpretations.length === 0) {
+            errors.push(`${where} must list at least one domain and one interpretation.`);
+            return;
+        }
+
+        const domains = rule.domains.map(name => definition.domains.find(d => d.name === name));
+        rule.domains.forEach((name, i) => {
+            if (!domains[i]) errors.push(`${where} refers to unknown domain "${name}".`);
+        });
+        const labels = domains.flatMap(domain => (domain?.referenceIntervals ?? []).map(interval => interval.label));
+        const unknownLabels = rule.interpretations.filter(label => !labels.includes(label));
+        if (unknownLabels.length > 0) {
+            errors.push(`${where} uses interpretations ${unknownLabels.map(label => `"${label}"`).join(', ')} that none of its domains have.`);
+        }
+        if (rule.minCount !== undefined && (!Number.isInteger(rule.minCount) || rule.minCount < 1 || rule.minCount > rule.domains.length)) {
+            errors.push(`${where} has a minimum count outside 1 to ${rule.domains.length}.`);
+        }
+    });
+};
+
+const validateConsistencyPairs = (definition: InstrumentDefinition, errors: string[]) => {
+    if (definition.consistencyPairs === undefined) return;
+    if (!Array.isArray(definition.consistencyPairs)) {
+        errors.push('Instrument consistency pairs must be a list.');
+        return;
+    }
+
+    const findItem = (itemId: string) => {
+        for (const domain of definition.domains) {
+            const item = (domain.items ?? []).find(i => i.id === itemId);
+            if (item) return { item, scale: item.responseScale ?? domain.responseScale };
+        }
+        return null;
+    };
+
+    for (const pair of definition.consistencyPairs) {
+        const where = `Consistency pair "${pair.forward}" / "${pair.reverse}"`;
+        const forward = findItem(pair.forward);
+        const reverse = findItem(pair.reverse);
+        if (!forward || !reverse) {
+            errors.push(`${where} refers to an unknown item.`);
+            continue;
+        }
+        if (forward.item.reverse || !reverse.item.reverse) {
+            errors.push(`${where} must pair a forward item with a reverse-scored one.`);
+        }
+        if (forward.scale !== reverse.scale) errors.push(`${where} must use the same response scale.`);
+    }
+};
+
+/**
+ * Validates an instrument definition against the schema and its internal consistency rules.
+ * Rejects malformed fields, unknown or malformed response scales, duplicate domains or items,
+ * conditions that are malformed or reference unknown or later items, sections or option
+ * values, overlapping or gapped reference intervals, out-of-range reliability figures,
+ * pattern or care tier rules that refer to unknown domains or interpretations, and
+ * malformed consistency pairs.
+ * @param definition The instrument definition to check.
+ * @returns A list of human-readable problems; empty if the definition is valid.
+ */
+export function validateInstrument(definition: InstrumentDefinition): string[] {
+    const errors: string[] = [];
+
+    if (!isNonEmptyString(definition.id)) errors.push('Instrument must have an id.');
+    if (!isNonEmptyString(definition.version)) errors.push('Instrument must have a version.');
+    if (!isNonEmptyString(definition.title)) errors.push('Instrument must have a title.');
+    if (!Array.isArray(definition.domains) || definition.domains.length === 0) {
+        errors.push('Instrument must define at least one domain.');
+        return errors;
+    }
+
+    validateResponseScales(definition, errors);
+    const scales = definition.responseScales ?? {};
+
+    const domainNames = new Set<string>();
+    const itemIds = new Set<string>();
+    const itemScales = new Map<string, ResponseScale>();
+
+    for (const domain of definition.domains) {
+        if (!isNonEmptyString(domain.name)) {
+            errors.push('Every domain must have a name.');
+            continue;
+        }
+        const where = `Domain "${domain.name}"`;
+        if (domainNames.has(domain.name)) errors.push(`${where} is defined more than once.`);
+        domainNames.add(domain.name);
+
+        for (const field of ['description', 'about', 'aboutLink'] as const) {
+            if (!isNonEmptyString(domain[field])) errors.push(`${where} is missing "${field}".`);
+        }
+        if (!Array.isArray(domain.individualsExperienced)) errors.push(`${where} is missing "individualsExperienced".`);
+
+        const scoring = domain.scoring;
+        if (!scoring || !scoringMethods.includes(scoring.method)) {
+            errors.push(`${where} has an unknown scoring method.`);
+            continue;
+        }
+        if (!scales[domain.responseScale]) errors.push(`${where} uses unknown response scale "${domain.responseScale}".`);
+        if (scoring.tScoreConversion !== undefined && !promisShortForms.includes(scoring.tScoreConversion)) {
+            errors.push(`${where} has an unknown T-score conversion "${scoring.tScoreConversion}".`);
+        }
+        if (scoring.reliability !== undefined) {
+            const { coefficient, standardDeviation, source } = scoring.reliability;
+            if (typeof coefficient !== 'number' || coefficient <= 0 || coefficient >= 1) {
+                errors.push(`${where} has a reliability coefficient outside (0, 1).`);
+            }
+            if (typeof standardDeviation !== 'number' || standardDeviation <= 0) {
+                errors.push(`${where} has a non-positive reliability standard deviation.`);
+            }
+            if (!isNonEmptyString(source)) errors.push(`${where} must cite the source of its reliability.`);
+        }
+
+        if (!Array.isArray(domain.items) || domain.items.length === 0) {
+            errors.push(`${where} must contain at least one item.`);
+            continue;
+        }
+        for (const item of domain.items) {
+            if (!isNonEmptyString(item.id) || !isNonEmptyString(item.text) || typeof item.mandatory !== 'boolean') {
+                errors.push(`${where} has a malformed item: ${JSON.stringify(item)}.`);
+                continue;
+            }
+            if (itemIds.has(item.id)) errors.push(`Item "${item.id}" is defined more than once.`);
+            itemIds.add(item.id);
+
+            const scaleId = item.responseScale ?? domain.responseScale;
+            if (!scales[scaleId]) {
+                errors.push(`Item "${item.id}" uses unknown response scale "${scaleId}".`);
+            } else {
+                itemScales.set(item.id, scales[scaleId]);
+            }
+        }
+        if (!domain.items.some(isScoredItem)) errors.push(`${where} has no scored items.`);
+
+        validateReferenceIntervals(domain, errors);
+    }
+
+    // Conditions are checked once every item ID is known, so they may refer to any earlier domain.
+    validateConditions(definition, itemScales, errors);
+
+    validatePatternRules(definition, errors);
+    validateCareTierRules(definition, errors);
+    validateConsistencyPairs(definition, errors);
+
+    return errors;
+}
+
+/**
+ * Validates an instrument definition and returns it, throwing if it is invalid.
+ * Used when an instrument is loaded so a broken definition never reaches the form or scoring.
+ */
+export function loadInstrument(definition: InstrumentDefinition): InstrumentDefinition {
+    const errors = validateInstrument(definition);
+    if (errors.length > 0) {
+        throw new Error(`Invalid instrument definition "${definition.id}@${definition.version}":\n- ${errors.join('\n- ')}`);
+    }
+    return definition;
+}
@@ -0,0 +1,10 @@
+import { loadInstrument } from '../instrument.js';
+import { wellnessInstrumentV1 } from './wellness-v1.js';
+
+// The instrument new assessments are administered and scored with.
+export const currentInstrument = loadInstrument(wellnessInstrumentV1);
+
+/**
+ * Formats the identifier stored on each report, e.g. "mental-wellness@1.0.0".
+ */
+export const getInstrumentVersionTag = (instrument = currentInstrument): string => `${instrument.id}@${instrument.version}`;
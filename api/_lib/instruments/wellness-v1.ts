@@ -0,0 +1,500 @@
+import type { InstrumentDefinition } from '../instrument.js';
+import { promisTScoreIntervals } from '../promis.js';
+
+// ====================================================================================
+// Mental Wellness Assessment, version 1
+// ------------------------------------------------------------------------------------
+// DSM-5 Level 1 screeners followed by their Level 2 measures (PROMIS short forms, ASRM,
+// PHQ-15 and FOCI). Item IDs match the field names of the original Jotform form.
+// Any change to items, scoring or intervals must ship as a new version.
+// ====================================================================================
+
+// Answers are stored as the coded value of the chosen option on the item's response scale.
+// Level 1 screeners are rated on the DSM-5 Level 1 scale and only gate the Level 2 items;
+// they are not part of the Level 2 measure's score. A rating of Mild (2) or greater opens them.
+const positiveAnswers = [2, 3, 4];
+
+// Level 2 measures whose results are graded by severity, for the care tier decision table.
+const gradedDomains = ['Depression', 'Anger', 'Anxiety', 'Somatic Symptoms', 'Sleep Problems', 'Repetitive Thoughts and Behaviours'];
+
+const asrmScale = (statements: string[]) => ({ options: statements.map((label, value) => ({ value, label })) });
+
+export const wellnessInstrumentV1: InstrumentDefinition = {
+    id: 'mental-wellness',
+    version: '1.0.1',
+    title: 'Mental Wellness Assessment',
+    responseScales: {
+        DSM_LEVEL1: {
+            options: [
+                // The aliases are the labels the live Jotform form submits.
+                { value: 0, label: 'None – Not at all', aliases: ['Not at all'] },
+                { value: 1, label: 'Slight – Rare, less than a day or two' },
+                { value: 2, label: 'Mild – Several days', aliases: ['Several days'] },
+                { value: 3, label: 'Moderate – More than half the days', aliases: ['More than half the days'] },
+                { value: 4, label: 'Severe – Nearly every day', aliases: ['Nearly every day'] },
+            ],
+        },
+        PROMIS_FREQUENCY: {
+            options: [
+                { value: 1, label: 'Never' },
+                { value: 2, label: 'Rarely' },
+                { value: 3, label: 'Sometimes' },
+                { value: 4, label: 'Often' },
+                { value: 5, label: 'Always' },
+            ],
+        },
+        PROMIS_INTENSITY: {
+            options: [
+                { value: 1, label: 'Not at all' },
+                { value: 2, label: 'A little bit' },
+                { value: 3, label: 'Somewhat' },
+                { value: 4, label: 'Quite a bit' },
+                { value: 5, label: 'Very much' },
+            ],
+        },
+        PROMIS_SLEEP_QUALITY: {
+            options: [
+                { value: 1, label: 'Very poor' },
+                { value: 2, label: 'Poor' },
+                { value: 3, label: 'Fair' },
+                { value: 4, label: 'Good' },
+                { value: 5, label: 'Very good' },
+            ],
+        },
+        PHQ15_BOTHERED: {
+            options: [
+                { value: 0, label: 'Not bothered at all' },
+                { value: 1, label: 'Bothered a little' },
+                { value: 2, label: 'Bothered a lot' },
+            ],
+        },
+        ASRM_HAPPINESS: asrmScale([
+            'I do not feel happier or more cheerful than usual.',
+            'I occasionally feel happier or more cheerful than usual.',
+            'I often feel happier or more cheerful than usual.',
+            'I feel happier or more cheerful than usual most of the time.',
+            'I feel happier or more cheerful than usual all of the time.',
+        ]),
+        ASRM_CONFIDENCE: asrmScale([
+            'I do not feel more self-confident than usual.',
+            'I occasionally feel more self-confident than usual.',
+            'I often feel more self-confident than usual.',
+            'I frequently feel more self-confident than usual.',
+            'I feel extremely self-confident all of the time.',
+        ]),
+        ASRM_SLEEP: asrmScale([
+            'I do not need less sleep than usual.',
+            'I occasionally need less sleep than usual.',
+            'I often need less sleep than usual.',
+            'I frequently need less sleep than usual.',
+            'I can go all day and all night without any sleep and still not feel tired.',
+        ]),
+        ASRM_TALKING: asrmScale([
+            'I do not talk more than usual.',
+            'I occasionally talk more than usual.',
+            'I often talk more than usual.',
+            'I frequently talk more than usual.',
+            'I talk constantly and cannot be interrupted.',
+        ]),
+        ASRM_ACTIVITY: asrmScale([
+            'I have not been more active (either socially, sexually, at work, home, or school) than usual.',
+            'I have occasionally been more active than usual.',
+            'I have often been more active than usual.',
+            'I have frequently been more active than usual.',
+            'I am constantly active or on the go all the time.',
+        ]),
+        FOCI_SEVERITY: {
+            options: [
+                { value: 0, label: 'None' },
+                { value: 1, label: 'Mild' },
+                { value: 2, label: 'Moderate' },
+                { value: 3, label: 'Severe' },
+                { value: 4, label: 'Extreme' },
+            ],
+        },
+        FOCI_TIME: {
+            options: [
+                { value: 0, label: 'None' },
+                { value: 1, label: 'Mild (less than an hour a day)' },
+                { value: 2, label: 'Moderate (1 to 3 hours a day)' },
+                { value: 3, label: 'Severe (3 to 8 hours a day)' },
+                { value: 4, label: 'Extreme (more than 8 hours a day)' },
+            ],
+        },
+    },
+    domains: [
+        {
+            name: 'Depression',
+            description: 'These questions ask about feelings related to mood and interest in activities.',
+            about: 'Assesses core symptoms of depression. Score is reported as a T-score on the 8-item PROMIS Emotional Distress–Depression–Short Form.',
+            aboutLink: 'https://www.who.int/news-room/fact-sheets/detail/depression',
+            scoring: {
+                method: 'SUM',
+                tScoreConversion: 'DEPRESSION_8A',
+                reliability: { coefficient: 0.95, standardDeviation: 10, source: 'Internal consistency of the PROMIS Depression 8a short form; T-score SD' },
+            },
+            responseScale: 'PROMIS_FREQUENCY',
+            referenceIntervals: promisTScoreIntervals,
+            individualsExperienced: [
+                { name: 'Deepika Padukone', link: 'https://www.onlymyhealth.com/deepika-padukone-on-depression-and-tips-to-overcome-suicidal-thoughts-12977825587' },
+                { name: 'Abraham Lincoln', link: 'https://en.wikipedia.org/wiki/Health_of_Abraham_Lincoln#Depression' },
+            ],
+            items: [
+                { id: 'ltemgtinTheltemgtltstronggtItemgt', text: 'In the LAST TWO WEEKS, have you experienced little interest or pleasure in doing things?', mandatory: true, responseScale: 'DSM_LEVEL1', scored: false },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt5', text: 'In the LAST TWO WEEKS, have you felt down, depressed or hopeless?', mandatory: true, responseScale: 'DSM_LEVEL1', scored: false },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt6', text: 'In the LAST 7 DAYS, did you feel, "I am worthless"?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt', 'ltemgtinTheltemgtltstronggtItemgt5'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt7', text: 'In the LAST 7 DAYS, did you feel that you had nothing to look forward to?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt', 'ltemgtinTheltemgtltstronggtItemgt5'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt8', text: 'In the LAST 7 DAYS, did you feel helpless?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt', 'ltemgtinTheltemgtltstronggtItemgt5'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt9', text: 'In the LAST 7 DAYS, did you feel sad?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt', 'ltemgtinTheltemgtltstronggtItemgt5'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtitemgt10', text: 'In the LAST 7 DAYS, did you feel like a failure?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt', 'ltemgtinTheltemgtltstronggtItemgt5'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtitemgt11', text: 'In the LAST 7 DAYS, did you feel like depressed?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt', 'ltemgtinTheltemgtltstronggtItemgt5'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtitemgt13', text: 'In the LAST 7 DAYS, did you feel unhappy?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt', 'ltemgtinTheltemgtltstronggtItemgt5'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt14', text: 'In the LAST 7 DAYS, did you feel hopeless?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt', 'ltemgtinTheltemgtltstronggtItemgt5'], requiredValues: positiveAnswers } },
+            ],
+        },
+        {
+            name: 'Anger',
+            description: 'These questions relate to feelings of irritability and anger.',
+            about: 'Measures feelings of anger and irritability. Score is reported as a T-score on the 5-item PROMIS Emotional Distress–Anger–Short Form.',
+            aboutLink: 'https://www.apa.org/topics/anger/control',
+            scoring: {
+                method: 'SUM',
+                tScoreConversion: 'ANGER_5A',
+                reliability: { coefficient: 0.90, standardDeviation: 10, source: 'Internal consistency of the PROMIS Anger 5a short form; T-score SD' },
+            },
+            responseScale: 'PROMIS_FREQUENCY',
+            referenceIntervals: promisTScoreIntervals,
+            individualsExperienced: [
+                { name: 'Russell Brand', link: 'https://www.healthline.com/health/celebrities-with-bipolar-disorder' },
+                { name: 'Kanye West', link: 'https://www.biography.com/musicians/kanye-west-mental-health' }
+            ],
+            items: [
+                { id: 'ltemgtinTheltemgtltstronggtItemgt15', text: 'In the LAST TWO WEEKS, did you feel more irritated, grouchy or angry than usual?', mandatory: true, responseScale: 'DSM_LEVEL1', scored: false },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt16', text: 'In the LAST 7 DAYS, "I was irritated more than people knew"', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt15'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt17', text: 'In the LAST 7 DAYS, "I felt angry"', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt15'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtitemgt18', text: 'In the LAST 7 DAYS, "I felt like I was ready to explode"', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt15'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt19', text: 'In the LAST 7 DAYS, "I was grouchy"', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt15'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt20', text: 'In the LAST 7 DAYS, "I felt annoyed"', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt15'], requiredValues: positiveAnswers } },
+            ],
+        },
+        {
+            name: 'Mania',
+            description: 'These questions ask about periods of high energy, elevated mood, and increased activity.',
+            about: 'Assesses symptoms of mania or hypomania using the Altman Self-Rating Mania Scale. A score of 6 or higher suggests a high probability of a manic or hypomanic condition.',
+            aboutLink: 'https://www.nimh.nih.gov/health/topics/bipolar-disorder',
+            scoring: { method: 'SUM' },
+            responseScale: 'DSM_LEVEL1',
+            referenceIntervals: [ // 5 ASRM questions, 0-4 scale. Range 0-20.
+                { label: 'Low Probability', min: 0, max: 5, color: 'bg-green-500' },
+                { label: 'High Probability', min: 6, max: 20, color: 'bg-red-500', flag: 'elevated' }
+            ],
+            individualsExperienced: [
+                { name: 'Mariah Carey', link: 'https://www.webmd.com/bipolar-disorder/ss/slideshow-celebrities-bipolar-disorder' },
+                { name: 'Demi Lovato', link: 'https://people.com/health/demi-lovato-relieved-to-be-diagnosed-bipolar/' }
+            ],
+            items: [
+                { id: 'ltemgtinTheltemgtltstronggtltemgt21', text: 'In the LAST TWO WEEKS, have you been sleeping less than usual, but still had a lot of energy?', mandatory: true, scored: false },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt27', text: 'In the LAST TWO WEEKS, did you start more projects or did more risky things than usual?', mandatory: true, scored: false },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt22', text: 'In the LAST 7 DAYS, did you feel happier or more cheerful than usual?', mandatory: false, responseScale: 'ASRM_HAPPINESS', condition: { triggerIds: ['ltemgtinTheltemgtltstronggtltemgt21', 'ltemgtinTheltemgtltstronggtltemgt27'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtitemgt23', text: 'In the LAST 7 DAYS, did you feel more self-confident than usual?', mandatory: false, responseScale: 'ASRM_CONFIDENCE', condition: { triggerIds: ['ltemgtinTheltemgtltstronggtltemgt21', 'ltemgtinTheltemgtltstronggtltemgt27'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtitemgt24', text: 'In the LAST 7 DAYS, did you need less sleep than usual?', mandatory: false, responseScale: 'ASRM_SLEEP', condition: { triggerIds: ['ltemgtinTheltemgtltstronggtltemgt21', 'ltemgtinTheltemgtltstronggtltemgt27'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt25', text: 'In the LAST 7 DAYS, did you talk more than usual?', mandatory: false, responseScale: 'ASRM_TALKING', condition: { triggerIds: ['ltemgtinTheltemgtltstronggtltemgt21', 'ltemgtinTheltemgtltstronggtltemgt27'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt26', text: 'In the LAST 7 DAYS, have you been more active (either socially, sexually, at work, home, or school) than usual ?', mandatory: false, responseScale: 'ASRM_ACTIVITY', condition: { triggerIds: ['ltemgtinTheltemgtltstronggtltemgt21', 'ltemgtinTheltemgtltstronggtltemgt27'], requiredValues: positiveAnswers } },
+            ],
+        },
+        {
+            name: 'Anxiety',
+            description: 'These questions ask about feelings of nervousness, worry, and fear.',
+            about: 'Evaluates common symptoms of anxiety. Score is reported as a T-score on the 7-item PROMIS Emotional Distress–Anxiety–Short Form.',
+            aboutLink: 'https://www.nimh.nih.gov/health/topics/anxiety-disorders',
+            scoring: {
+                method: 'SUM',
+                tScoreConversion: 'ANXIETY_7A',
+                reliability: { coefficient: 0.93, standardDeviation: 10, source: 'Internal consistency of the PROMIS Anxiety 7a short form; T-score SD' },
+            },
+            responseScale: 'PROMIS_FREQUENCY',
+            referenceIntervals: promisTScoreIntervals,
+            individualsExperienced: [
+                { name: 'Adele', link: 'https://www.gmanetwork.com/news/lifestyle/healthandwellness/806235/adele-says-working-out-helped-with-her-anxiety-it-was-never-about-losing-weight/story/' },
+                { name: 'Karan Johar', link: 'https://yourdost.com/blog/2016/09/celebrity-depression-karan-johar.html' },
+            ],
+            items: [
+                { id: 'ltemgtinTheltemgtltstronggtItemgt28', text: 'In the LAST TWO WEEKS, did you feel nervous, anxious, frightened, worried, or on edge ?', mandatory: true, responseScale: 'DSM_LEVEL1', scored: false },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt29', text: 'In the LAST TWO WEEKS, did you get a feeling of panic or being frightened?', mandatory: true, responseScale: 'DSM_LEVEL1', scored: false },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt30', text: 'In the LAST TWO WEEKS, did you consciously avoid situations that make you anxious?', mandatory: true, responseScale: 'DSM_LEVEL1', scored: false },
+                { id: 'ltemgtinTheltemgtltstronggtitemgt31', text: 'In the LAST 7 DAYS, "I felt fearful"', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt28', 'ltemgtinTheltemgtltstronggtltemgt29', 'ltemgtinTheltemgtltstronggtItemgt30'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt32', text: 'In the LAST 7 DAYS, "I felt anxious"', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt28', 'ltemgtinTheltemgtltstronggtltemgt29', 'ltemgtinTheltemgtltstronggtItemgt30'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt33', text: 'In the LAST 7 DAYS, "I felt worried"', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt28', 'ltemgtinTheltemgtltstronggtltemgt29', 'ltemgtinTheltemgtltstronggtItemgt30'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt34', text: 'In the LAST 7 DAYS, "I found it hard to focus on anything other than my anxiety"', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt28', 'ltemgtinTheltemgtltstronggtltemgt29', 'ltemgtinTheltemgtltstronggtItemgt30'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtitemgt35', text: 'In the LAST 7 DAYS, "I felt nervous"', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt28', 'ltemgtinTheltemgtltstronggtltemgt29', 'ltemgtinTheltemgtltstronggtItemgt30'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtitemgt36', text: 'In the LAST 7 DAYS, "I felt uneasy"', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt28', 'ltemgtinTheltemgtltstronggtltemgt29', 'ltemgtinTheltemgtltstronggtItemgt30'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt37', text: 'In the LAST 7 DAYS, "I felt tense"', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt28', 'ltemgtinTheltemgtltstronggtltemgt29', 'ltemgtinTheltemgtltstronggtItemgt30'], requiredValues: positiveAnswers } },
+            ],
+        },
+        {
+            name: 'Somatic Symptoms',
+            description: 'These questions are about physical feelings and symptoms.',
+            about: 'Focuses on physical symptoms that may be related to psychological distress, based on the Patient Health Questionnaire 15 (PHQ-15).',
+            aboutLink: 'https://www.psychiatry.org/patients-families/somatic-symptom-disorder/what-is-somatic-symptom-disorder',
+            scoring: { method: 'SUM' },
+            responseScale: 'PHQ15_BOTHERED',
+            referenceIntervals: [ // 15 PHQ-15 questions, 0-2 scale. Range 0-30.
+                { label: 'Minimal', min: 0, max: 4, color: 'bg-green-500' },
+                { label: 'Low', min: 5, max: 9, color: 'bg-yellow-500' },
+                { label: 'Medium', min: 10, max: 14, color: 'bg-orange-500' },
+                { label: 'High', min: 15, max: 30, color: 'bg-red-500', flag: 'severe' }
+            ],
+            individualsExperienced: [
+                { name: 'Lady Gaga', link: 'https://ukfibromyalgia.com/blog/celebrities-with-fibromyalgia-lady-gaga' },
+                { name: 'Oprah Winfrey', link: 'https://www.cbsnews.com/news/oprah-reports-on-childhood-traumas-long-term-effects/' }
+            ],
+            items: [
+                { id: 'ltemgtinTheltemgtltstronggtitemgt38', text: 'In the LAST TWO WEEKS, did you get unexplained aches and pains (e.g. head, back, joints, abdomen, legs)?', mandatory: true, responseScale: 'DSM_LEVEL1', scored: false },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt39', text: 'In the LAST TWO WEEKS, did you feel that your illness was not being taken seriously enough?', mandatory: true, responseScale: 'DSM_LEVEL1', scored: false },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt40', text: 'In the LAST 7 DAYS, were you bothered by \'stomach pain\'?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtitemgt38', 'ltemgtinTheltemgtltstronggtItemgt39'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtitemgt41', text: 'In the LAST 7 DAYS, were you bothered by \'back pain\'?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtitemgt38', 'ltemgtinTheltemgtltstronggtItemgt39'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt42', text: 'In the LAST 7 DAYS, were you bothered by \'pain in your arms, legs, or joints (knees, hips, etc.)\'?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtitemgt38', 'ltemgtinTheltemgtltstronggtItemgt39'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt43', text: 'In the LAST 7 DAYS, were you bothered by \'menstrual cramps or problems with your periods\'?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtitemgt38', 'ltemgtinTheltemgtltstronggtItemgt39'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt44', text: 'In the LAST 7 DAYS, were you bothered by \'headaches\'?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtitemgt38', 'ltemgtinTheltemgtltstronggtItemgt39'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt45', text: 'In the LAST 7 DAYS, were you bothered by \'chest pain\'?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtitemgt38', 'ltemgtinTheltemgtltstronggtItemgt39'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt46', text: 'In the LAST 7 DAYS, were you bothered by \'dizziness\'?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtitemgt38', 'ltemgtinTheltemgtltstronggtItemgt39'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtitemgt47', text: 'In the LAST 7 DAYS, were you bothered by \'fainting spells\'?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtitemgt38', 'ltemgtinTheltemgtltstronggtItemgt39'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt48', text: 'In the LAST 7 DAYS, were you bothered by \'feeling that your heart was pounding or racing\'?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtitemgt38', 'ltemgtinTheltemgtltstronggtItemgt39'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt49', text: 'In the LAST 7 DAYS, were you bothered by \'shortness of breath\'?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtitemgt38', 'ltemgtinTheltemgtltstronggtItemgt39'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt50', text: 'In the LAST 7 DAYS, were you bothered by \'pain or problems during sexual intercourse\'?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtitemgt38', 'ltemgtinTheltemgtltstronggtItemgt39'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt51', text: 'In the LAST 7 DAYS, were you bothered by \'constipation, loose bowels, or diarrhea\'?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtitemgt38', 'ltemgtinTheltemgtltstronggtItemgt39'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt52', text: 'In the LAST 7 DAYS, were you bothered by \'nausea, gas, or indigestion\'?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtitemgt38', 'ltemgtinTheltemgtltstronggtItemgt39'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt53', text: 'In the LAST 7 DAYS, were you bothered by \'feeling tired or having low energy\'?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtitemgt38', 'ltemgtinTheltemgtltstronggtItemgt39'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt54', text: 'In the LAST 7 DAYS, were you bothered by \'trouble in sleeping\'?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtitemgt38', 'ltemgtinTheltemgtltstronggtItemgt39'], requiredValues: positiveAnswers } },
+            ],
+        },
+        {
+            name: 'Suicidal Ideation',
+            description: 'This section asks about thoughts of self-harm.',
+            about: 'Screens for thoughts of self-harm. A score of "Slight" or greater indicates need for further inquiry.',
+            aboutLink: 'https://988lifeline.org/',
+            scoring: { method: 'MAX_THRESHOLD' },
+            responseScale: 'DSM_LEVEL1',
+            crisisResponse: true,
+            referenceIntervals: [
+                { label: 'Within normal limits', min: 0, max: 0, color: 'bg-green-500' },
+                { label: 'Further inquiry indicated', min: 1, max: 4, color: 'bg-red-500', flag: 'elevated' }
+            ],
+            individualsExperienced: [
+                { name: 'J.K. Rowling', link: 'https://www.cbsnews.com/news/potter-creator-once-contemplated-suicide/' },
+                { name: 'Jon Hamm', link: 'https://sunlightrecovery.com/jon-hamm-chronic-depression/' }
+            ],
+            items: [
+                { id: 'ltemgtinTheltemgtltstronggtItemgt55', text: 'In the LAST TWO WEEKS, did you get thoughts of actually hurting yourself?', mandatory: true },
+            ],
+        },
+        {
+            name: 'Psychosis',
+            description: 'This section asks about unusual experiences or thoughts.',
+            about: 'Identifies unusual thoughts or perceptions. A score of "Slight" or greater indicates need for further inquiry.',
+            aboutLink: 'https://www.nimh.nih.gov/health/topics/schizophrenia/raise/what-is-psychosis',
+            scoring: { method: 'MAX_THRESHOLD' },
+            responseScale: 'DSM_LEVEL1',
+            referenceIntervals: [
+                { label: 'Within normal limits', min: 0, max: 0, color: 'bg-green-500' },
+                { label: 'Further inquiry indicated', min: 1, max: 4, color: 'bg-red-500', flag: 'elevated' }
+            ],
+            individualsExperienced: [
+                { name: 'John Nash', link: 'https://livingwithschizophreniauk.org/john-nash/' },
+                { name: 'Brian Wilson', link: 'https://www.biography.com/musicians/brian-wilson-mental-health-illness' }
+            ],
+            items: [
+                { id: 'ltemgtinTheltemgtltstronggtltemgt56', text: 'In the LAST TWO WEEKS, did you experience hearing things other people couldn\'t hear, such as voices even when no one was around?', mandatory: true },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt57', text: 'In the LAST TWO WEEKS, did you experience feelings that someone could hear your thoughts, or that you could hear what they were thinking?', mandatory: true },
+            ],
+        },
+        {
+            name: 'Sleep Problems',
+            description: 'These questions are about your sleep quality.',
+            about: 'Evaluates sleep quality based on the 8-item PROMIS Sleep Disturbance scale, reported as a T-score. Some questions are reverse-scored.',
+            aboutLink: 'https://www.sleepfoundation.org/insomnia',
+            scoring: {
+                method: 'SUM',
+                tScoreConversion: 'SLEEP_DISTURBANCE_8A',
+                reliability: { coefficient: 0.93, standardDeviation: 10, source: 'Internal consistency of the PROMIS Sleep Disturbance 8a short form; T-score SD' },
+            },
+            responseScale: 'PROMIS_INTENSITY',
+            referenceIntervals: promisTScoreIntervals,
+            individualsExperienced: [
+                { name: 'Jimmy Kimmel', link: 'https://www.rxwiki.com/slideshow/celebrities-who-have-trouble-sleeping/jimmy-kimmel' },
+            ],
+            items: [
+                { id: 'ltemgtinTheltemgtltstronggtltemgt58', text: 'In the LAST TWO WEEKS, did you have problems with sleep that affected your sleep quality over all?', mandatory: true, responseScale: 'DSM_LEVEL1', scored: false },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt60', text: 'In the LAST 7 DAYS, "my sleep was restless"', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtltemgt58'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt61', text: 'In the LAST 7 DAYS, "I was satisfied with my sleep"', mandatory: false, reverse: true, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtltemgt58'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt62', text: 'In the LAST 7 DAYS, "my sleep was refreshing"', mandatory: false, reverse: true, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtltemgt58'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt63', text: 'In the LAST 7 DAYS, "I had difficulty falling asleep"', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtltemgt58'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt64', text: 'In the LAST 7 DAYS, "I had trouble staying asleep"', mandatory: false, responseScale: 'PROMIS_FREQUENCY', condition: { triggerIds: ['ltemgtinTheltemgtltstronggtltemgt58'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtitemgt65', text: 'In the LAST 7 DAYS, "I had trouble falling asleep"', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtltemgt58'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt66', text: 'In the LAST 7 DAYS, "I got enough sleep"', mandatory: false, responseScale: 'PROMIS_FREQUENCY', reverse: true, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtltemgt58'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt67', text: 'In the LAST 7 DAYS, how was your sleep quality?', mandatory: false, responseScale: 'PROMIS_SLEEP_QUALITY', reverse: true, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtltemgt58'], requiredValues: positiveAnswers } },
+            ],
+        },
+        {
+            name: 'Memory',
+            description: 'This question asks about problems with memory.',
+            about: 'Assesses memory problems. A score of "Mild" or greater indicates need for further inquiry.',
+            aboutLink: 'https://www.nia.nih.gov/health/memory-forgetfulness-and-aging-whats-normal-and-whats-not',
+            scoring: { method: 'MAX_THRESHOLD' },
+            responseScale: 'DSM_LEVEL1',
+            referenceIntervals: [
+                { label: 'Within normal limits', min: 0, max: 1, color: 'bg-green-500' },
+                { label: 'Further inquiry indicated', min: 2, max: 4, color: 'bg-red-500', flag: 'elevated' }
+            ],
+            individualsExperienced: [
+                { name: 'Ronald Reagan', link: 'https://optoceutics.com/famous-people-celebrities-singers-with-alzheimers/' },
+            ],
+            items: [
+                { id: 'ltemgtinTheltemgtltstronggtItemgt68', text: 'In the LAST TWO WEEKS, did you have problems with memory (e.g., learning new information) or with location (e.g., finding your way home)?', mandatory: true },
+            ],
+        },
+        {
+            name: 'Repetitive Thoughts and Behaviours',
+            description: 'This section asks about repetitive thoughts or actions.',
+            about: 'Measures severity of repetitive thoughts and behaviors based on the Florida Obsessive-Compulsive Inventory (FOCI) Severity Scale.',
+            aboutLink: 'https://iocdf.org/about-ocd/',
+            scoring: { method: 'AVERAGE' },
+            responseScale: 'FOCI_SEVERITY',
+            referenceIntervals: [ // 5 FOCI questions, 0-4 scale. Average range 0-4.
+                { label: 'None', min: 0, max: 0.9, color: 'bg-green-500' },
+                { label: 'Mild', min: 1, max: 1.9, color: 'bg-yellow-500' },
+                { label: 'Moderate', min: 2, max: 2.9, color: 'bg-orange-500' },
+                { label: 'Severe', min: 3, max: 3.9, color: 'bg-red-500', flag: 'severe' },
+                { label: 'Extreme', min: 4, max: 4, color: 'bg-red-500', flag: 'severe' }
+            ],
+            individualsExperienced: [
+                { name: 'Howie Mandel', link: 'https://en.wikipedia.org/wiki/Here%27s_the_Deal:_Don%27t_Touch_Me' },
+            ],
+            items: [
+                { id: 'ltemgtinTheltemgtltstronggtItemgt69', text: 'In the LAST TWO WEEKS, did you get unpleasant thoughts, urges, or images that repeatedly enter your mind?', mandatory: true, responseScale: 'DSM_LEVEL1', scored: false },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt70', text: 'In the LAST TWO WEEKS, did you feel driven to perform certain behaviors or mental acts over and over again?', mandatory: true, responseScale: 'DSM_LEVEL1', scored: false },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt71', text: 'In the LAST 7 DAYS, to what extent did unwanted, repetitive thoughts, images, or urges take up your time?', mandatory: false, responseScale: 'FOCI_TIME', condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt69', 'ltemgtinTheltemgtltstronggtltemgt70'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt72', text: 'In the LAST 7 DAYS, how much distress did you experience from unwanted, repetitive thoughts, images, urges ?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt69', 'ltemgtinTheltemgtltstronggtltemgt70'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtItemgt73', text: 'In the LAST 7 DAYS, to what extent did you experience difficulty controlling these unwanted, repetitive thoughts?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt69', 'ltemgtinTheltemgtltstronggtltemgt70'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt74', text: 'In the LAST 7 DAYS, how much did these unwanted, repetitive thoughts or behaviors cause you to avoid doing anything, going anywhere, or being with anyone?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt69', 'ltemgtinTheltemgtltstronggtltemgt70'], requiredValues: positiveAnswers } },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt75', text: 'In the LAST 7 DAYS, how much did these repetitive and unwanted thoughts or behaviors interfere with school, work, or your social or family life?', mandatory: false, condition: { triggerIds: ['ltemgtinTheltemgtltstronggtItemgt69', 'ltemgtinTheltemgtltstronggtltemgt70'], requiredValues: positiveAnswers } },
+            ],
+        },
+        {
+            name: 'Dissociation',
+            description: 'This question asks about feelings of detachment.',
+            about: 'Measures experiences of detachment from reality. A score of "Mild" or greater indicates need for further inquiry.',
+            aboutLink: 'https://www.nami.org/About-Mental-Illness/Mental-Health-Conditions/Dissociative-Disorders',
+            scoring: { method: 'MAX_THRESHOLD' },
+            responseScale: 'DSM_LEVEL1',
+            referenceIntervals: [
+                { label: 'Within normal limits', min: 0, max: 1, color: 'bg-green-500' },
+                { label: 'Further inquiry indicated', min: 2, max: 4, color: 'bg-red-500', flag: 'elevated' }
+            ],
+            individualsExperienced: [
+                { name: 'Jim Carrey', link: 'https://psychprofessionals.com.au/jim-carrey-on-overcoming-depression/' },
+            ],
+            items: [
+                { id: 'ltemgtinTheltemgtltstronggtltemgt76', text: 'In the LAST TWO WEEKS, did you feel detached or distant from yourself, your body, your physical surroundings, or your memories?', mandatory: true },
+            ],
+        },
+        {
+            name: 'Personality Functioning',
+            description: 'This section asks about your sense of self and relationships.',
+            about: 'Examines long-term patterns in self-perception and relationships. A score of "Mild" or greater indicates need for further inquiry.',
+            aboutLink: 'https://www.nimh.nih.gov/health/topics/borderline-personality-disorder',
+            scoring: { method: 'MAX_THRESHOLD' },
+            responseScale: 'DSM_LEVEL1',
+            referenceIntervals: [
+                { label: 'Within normal limits', min: 0, max: 1, color: 'bg-green-500' },
+                { label: 'Further inquiry indicated', min: 2, max: 4, color: 'bg-red-500', flag: 'elevated' }
+            ],
+            individualsExperienced: [
+                { name: 'Pete Davidson', link: 'https://en.wikipedia.org/wiki/Pete_Davidson#Health' },
+            ],
+            items: [
+                { id: 'ltemgtinTheltemgtltstronggtItemgt77', text: 'In the LAST TWO WEEKS, did you get a feeling of not knowing who you really are or what you want out of life ?', mandatory: true },
+                { id: 'ltemgtinTheltemgtltstronggtltemgt78', text: 'In the LAST TWO WEEKS, did you get a sense of not feeling close to other people or enjoying your relationships with them?', mandatory: true },
+            ],
+        },
+    ],
+    // Combinations of results that carry clinical meaning no single domain shows.
+    patternRules: [
+        {
+            id: 'bipolar-spectrum',
+            name: 'Depression with a positive mania screen',
+            rationale: 'Elevated depressive symptoms alongside a positive ASRM screen. Screening for the bipolar spectrum is indicated before treatment for depression is planned.',
+            when: [
+                { domain: 'Depression', interpretations: ['Moderate', 'Severe'] },
+                { domain: 'Mania', interpretations: ['High Probability'] },
+            ],
+        },
+        {
+            id: 'somatic-anxiety',
+            name: 'Somatic symptoms with anxiety',
+            rationale: 'Medium or high PHQ-15 somatic burden alongside elevated anxiety. Consider somatic expression of anxiety, after physical causes have been ruled out.',
+            when: [
+                { domain: 'Somatic Symptoms', interpretations: ['Medium', 'High'] },
+                { domain: 'Anxiety', interpretations: ['Moderate', 'Severe'] },
+            ],
+            clientMessage: 'Your results show physical symptoms alongside worry. Stress and worry can show up in the body, so it may help to mention both when you talk to a doctor.',
+        },
+        {
+            id: 'depression-sleep',
+            name: 'Sleep disturbance with depression',
+            rationale: 'Elevated sleep disturbance alongside elevated depressive symptoms, a combination associated with greater severity and slower recovery. Consider addressing sleep directly alongside mood.',
+            when: [
+                { domain: 'Depression', interpretations: ['Moderate', 'Severe'] },
+                { domain: 'Sleep Problems', interpretations: ['Moderate', 'Severe'] },
+            ],
+            clientMessage: 'Your results show difficulty with both sleep and mood. Each can affect the other, so looking after your sleep may also help your mood.',
+        },
+        {
+            id: 'suicidal-ideation-depression',
+            name: 'Suicidal ideation with depression',
+            rationale: 'Endorsed thoughts of self-harm alongside elevated depressive symptoms. A structured suicide risk assessment is indicated.',
+            when: [
+                { domain: 'Suicidal Ideation', interpretations: ['Further inquiry indicated'] },
+                { domain: 'Depression', interpretations: ['Moderate', 'Severe'] },
+            ],
+        },
+        {
+            id: 'psychosis-mania',
+            name: 'Psychotic symptoms with a positive mania screen',
+            rationale: 'Unusual perceptual experiences alongside a positive ASRM screen. Assess for a mood episode with psychotic features.',
+            when: [
+                { domain: 'Psychosis', interpretations: ['Further inquiry indicated'] },
+                { domain: 'Mania', interpretations: ['High Probability'] },
+            ],
+        },
+        {
+            id: 'dissociation-anxiety',
+            name: 'Dissociation with anxiety',
+            rationale: 'Dissociative experiences alongside elevated anxiety. Consider trauma-related presentations and ask about past traumatic experiences with care.',
+            when: [
+                { domain: 'Dissociation', interpretations: ['Further inquiry indicated'] },
+                { domain: 'Anxiety', interpretations: ['Moderate', 'Severe'] },
+            ],
+        },
+    ],
+    // Sleep items asked in both directions; the same extreme answer to both is contradictory.
+    consistencyPairs: [
+        { forward: 'ltemgtinTheltemgtltstronggtItemgt60', reverse: 'ltemgtinTheltemgtltstronggtItemgt62' }, // Restless / refreshing
+        { forward: 'ltemgtinTheltemgtltstronggtltemgt63', reverse: 'ltemgtinTheltemgtltstronggtltemgt61' }, // Difficulty falling asleep / satisfied
+        { forward: 'ltemgtinTheltemgtltstronggtItemgt64', reverse: 'ltemgtinTheltemgtltstronggtItemgt66' }, // Trouble staying asleep / got enough sleep
+    ],
+    // The stepped-care decision table. Rows are read in order and the first that matches
+    // sets the tier; a report no row matches is recommended self-help.
+    careTierRules: [
+        { tier: 'urgent', reason: 'Thoughts of self-harm were endorsed.', domains: ['Suicidal Ideation'], interpretations: ['Further inquiry indicated'] },
+        { tier: 'urgent', reason: 'Psychotic symptoms were endorsed.', domains: ['Psychosis'], interpretations: ['Further inquiry indicated'] },
+        { tier: 'psychiatrist', reason: 'The mania screen (ASRM) is positive.', domains: ['Mania'], interpretations: ['High Probability'] },
+        { tier: 'psychiatrist', reason: 'Two or more domains are severe.', domains: gradedDomains, interpretations: ['Severe', 'Extreme', 'High'], minCount: 2 },
+        { tier: 'therapist', reason: 'One domain is severe.', domains: gradedDomains, interpretations: ['Severe', 'Extreme', 'High'] },
+        { tier: 'therapist', reason: 'The dissociation or personality functioning screen indicates further inquiry.', domains: ['Dissociation', 'Personality Functioning'], interpretations: ['Further inquiry indicated'] },
+        { tier: 'therapist', reason: 'Two or more domains are moderate.', domains: gradedDomains, interpretations: ['Moderate', 'Medium'], minCount: 2 },
+        { tier: 'counsellor', reason: 'One domain is moderate.', domains: gradedDomains, interpretations: ['Moderate', 'Medium'] },
+        { tier: 'counsellor', reason: 'The memory screen indicates further inquiry.', domains: ['Memory'], interpretations: ['Further inquiry indicated'] },
+        { tier: 'counsellor', reason: 'Three or more domains are mild.', domains: gradedDomains, interpretations: ['Mild', 'Low'], minCount: 3 },
+    ],
+};
@@ -0,0 +1,213 @@
+import type { InstrumentDefinition, ResponseScale } from './instrument.js';
+import type { AdaptiveScoringTrace } from './types.js';
+
+// ====================================================================================
+// Computerized Adaptive Testing
+// ------------------------------------------------------------------------------------
+// PROMIS item banks are calibrated with Samejima's graded response model: each item has a
+// discrimination (slope) and one threshold per boundary between adjacent answer options,
+// on the theta metric where the US general population has mean 0 and SD 1. Given those
+// parameters, the answers so far give an estimate of theta and its standard error; the
+// next item is the one most informative at that estimate, and testing stops once the
+// estimate is precise enough.
+//
+// Estimates are expected a posteriori (EAP) with a standard normal prior, as in the
+// PROMIS CAT software. Theta is reported on the T-score metric as T = 50 + 10 * theta.
+// ====================================================================================
+
+export interface CalibratedItem {
+    id: string;
+    text: string;
+    responseScale?: string; // Overrides the bank's response scale for this item
+    reverse?: boolean; // The calibration is for the reversed answer, as with positively worded items
+    discrimination: number; // GRM slope (a)
+    thresholds: number[]; // GRM category boundaries (b), increasing; one fewer than the scale's options
+}
+
+// When adaptive testing of one domain stops. Whichever limit is reached first applies,
+// except that at least minItems are always given.
+export interface AdaptiveStoppingRule {
+    maxStandardError: number; // On the theta metric; 0.3 is 3 T-score points
+    minItems: number;
+    maxItems: number;
+}
+
+export interface ItemBank {
+    domain: string; // Name of the instrument domain the bank scores
+    name: string; // e.g. "PROMIS Item Bank v1.0 - Emotional Distress - Depression"
+    source: string; // Where the item parameters come from
+    responseScale: string; // Key into the instrument's responseScales
+    items: CalibratedItem[];
+    stoppingRule?: AdaptiveStoppingRule; // Defaults to defaultStoppingRule
+}
+
+export interface AbilityEstimate {
+    theta: number;
+    standardError: number; // Posterior SD of theta
+    tScore: number;
+    tScoreStandardError: number;
+}
+
+export type AdaptiveStopReason = NonNullable<AdaptiveScoringTrace['stopReason']>;
+
+export interface AdaptiveStep {
+    estimate: AbilityEstimate;
+    nextItemId: string | null; // Null once testing has stopped
+    stopReason: AdaptiveStopReason | null;
+}
+
+// The PROMIS standard stopping rule: at least 4 items, at most 12, and stop once the
+// standard error is below 3 T-score points.
+export const defaultStoppingRule: AdaptiveStoppingRule = { maxStandardError: 0.3, minItems: 4, maxItems: 12 };
+
+// Quadrature points for the EAP estimate, spanning theta -4 to 4 (T-scores 10 to 90).
+const QUADRATURE_STEP = 0.05;
+const quadraturePoints = Array.from({ length: 161 }, (_, index) => -4 + index * QUADRATURE_STEP);
+const priorWeights = quadraturePoints.map(theta => Math.exp(-theta * theta / 2));
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+/**
+ * Resolves the response scale a bank item is answered on: its own override, or the bank's scale.
+ */
+export const getBankItemScale = (instrument: InstrumentDefinition, bank: ItemBank, item: CalibratedItem): ResponseScale =>
+    instrument.responseScales[item.responseScale ?? bank.responseScale];
+
+/**
+ * Converts a coded answer to the 0-based category the item is calibrated on.
+ * @returns The category, or null if the answer is not one of the scale's options.
+ */
+export const getResponseCategory = (scale: ResponseScale, item: CalibratedItem, answer: unknown): number | null => {
+    const index = scale.options.findIndex(option => option.value === answer);
+    if (index < 0) return null;
+    return item.reverse ? scale.options.length - 1 - index : index;
+};
+
+// Probability of answering in each category at theta. The boundary curves give the chance
+// of answering at or above a category; adjacent ones are subtracted.
+const categoryProbabilities = (item: CalibratedItem, theta: number): { atOrAbove: number[]; probabilities: number[] } => {
+    const atOrAbove = [1, ...item.thresholds.map(b => 1 / (1 + Math.exp(-item.discrimination * (theta - b)))), 0];
+    const probabilities = item.thresholds.map((_, k) => atOrAbove[k] - atOrAbove[k + 1]);
+    probabilities.push(atOrAbove[item.thresholds.length]);
+    return { atOrAbove, probabilities };
+};
+
+/**
+ * Fisher information an item gives about theta, at theta.
+ */
+export const itemInformation = (item: CalibratedItem, theta: number): number => {
+    const { atOrAbove, probabilities } = categoryProbabilities(item, theta);
+    return probabilities.reduce((sum, probability, k) => {
+        if (probability <= 0) return sum;
+        const slope = atOrAbove[k] * (1 - atOrAbove[k]) - atOrAbove[k + 1] * (1 - atOrAbove[k + 1]);
+        return sum + item.discrimination * item.discrimination * slope * slope / probability;
+    }, 0);
+};
+
+/**
+ * Estimates theta from the answers given so far. With no answers, this is the prior:
+ * theta 0 with a standard error of 1.
+ * @param responses Calibrated categories keyed by item ID.
+ */
+export function estimateTheta(bank: ItemBank, responses: { [itemId: string]: number }): AbilityEstimate {
+    const answered = bank.items.filter(item => responses[item.id] !== undefined);
+    const posterior = quadraturePoints.map((theta, index) => answered.reduce(
+        (likelihood, item) => likelihood * categoryProbabilities(item, theta).probabilities[responses[item.id]],
+        priorWeights[index],
+    ));
+    const total = posterior.reduce((sum, weight) => sum + weight, 0);
+    const theta = posterior.reduce((sum, weight, index) => sum + weight * quadraturePoints[index], 0) / total;
+    const variance = posterior.reduce((sum, weight, index) => sum + weight * (quadraturePoints[index] - theta) ** 2, 0) / total;
+    const standardError = Math.sqrt(variance);
+
+    return {
+        theta,
+        standardError,
+        tScore: Math.round((50 + 10 * theta) * 10) / 10,
+        tScoreStandardError: Math.round(10 * standardError * 10) / 10,
+    };
+}
+
+/**
+ * Runs one step of adaptive testing: estimates theta from the answers so far, then either
+ * picks the unanswered item with the most information at that estimate or stops.
+ * @param responses Calibrated categories keyed by item ID.
+ */
+export function nextAdaptiveStep(bank: ItemBank, responses: { [itemId: string]: number }): AdaptiveStep {
+    const rule = bank.stoppingRule ?? defaultStoppingRule;
+    const estimate = estimateTheta(bank, responses);
+    const answeredCount = bank.items.filter(item => responses[item.id] !== undefined).length;
+    const remaining = bank.items.filter(item => responses[item.id] === undefined);
+
+    let stopReason: AdaptiveStopReason | null = null;
+    if (remaining.length === 0) stopReason = 'bank_exhausted';
+    else if (answeredCount >= rule.maxItems) stopReason = 'max_items';
+    else if (answeredCount >= rule.minItems && estimate.standardError < rule.maxStandardError) stopReason = 'precision';
+    if (stopReason) return { estimate, nextItemId: null, stopReason };
+
+    const next = remaining.reduce((best, item) =>
+        itemInformation(item, estimate.theta) > itemInformation(best, estimate.theta) ? item : best);
+    return { estimate, nextItemId: next.id, stopReason: null };
+}
+
+/**
+ * Validates an item bank against the instrument it scores: the domain must be a PROMIS
+ * domain of the instrument, every item needs a positive discrimination and increasing
+ * thresholds matching its response scale, and the stopping rule must be usable.
+ * @returns A list of human-readable problems; empty if the bank is valid.
+ */
+export function validateItemBank(bank: ItemBank, instrument: InstrumentDefinition): string[] {
+    const errors: string[] = [];
+    const where = `Item bank "${bank?.name}"`;
+
+    if (!isNonEmptyString(bank?.name)) errors.push('Every item bank must have a name.');
+    if (!isNonEmptyString(bank?.source)) errors.push(`${where} must cite the source of its item parameters.`);
+    const domain = instrument.domains.find(d => d.name === bank?.domain);
+    if (!domain) {
+        errors.push(`${where} scores unknown domain "${bank?.domain}".`);
+    } else if (!domain.scoring.tScoreConversion) {
+        errors.push(`${where} scores "${domain.name}", which is not reported on the PROMIS T-score metric.`);
+    }
+    if (!Array.isArray(bank?.items) || bank.items.length === 0) {
+        errors.push(`${where} must contain at least one item.`);
+        return errors;
+    }
+
+    const itemIds = new Set<string>();
+    for (const item of bank.items) {
+        if (!isNonEmptyString(item?.id) || !isNonEmptyString(item.text)) {
+            errors.push(`${where} has a malformed item: ${JSON.stringify(item)}.`);
+            continue;
+        }
+        if (itemIds.has(item.id)) errors.push(`${where} defines item "${item.id}" more than once.`);
+        itemIds.add(item.id);
+
+        const scale = getBankItemScale(instrument, bank, item);
+        if (!scale) {
+            errors.push(`${where} item "${item.id}" uses unknown response scale "${item.responseScale ?? bank.responseScale}".`);
+            continue;
+        }
+        if (typeof item.discrimination !== 'number' || !(item.discrimination > 0)) {
+            errors.push(`${where} item "${item.id}" must have a positive discrimination.`);
+        }
+        const { thresholds } = item;
+        if (!Array.isArray(thresholds) || thresholds.length !== scale.options.length - 1
+            || thresholds.some(b => typeof b !== 'number' || !Number.isFinite(b))) {
+            errors.push(`${where} item "${item.id}" must have one threshold per boundary between its ${scale.options.length} options.`);
+        } else if (thresholds.some((b, k) => k > 0 && b <= thresholds[k - 1])) {
+            errors.push(`${where} item "${item.id}" must have increasing thresholds.`);
+        }
+    }
+
+    if (bank.stoppingRule !== undefined) {
+        const { maxStandardError, minItems, maxItems } = bank.stoppingRule;
+        if (typeof maxStandardError !== 'number' || maxStandardError <= 0 || maxStandardError >= 1) {
+            errors.push(`${where} has a stopping standard error outside (0, 1).`);
+        }
+        if (!Number.isInteger(minItems) || !Number.isInteger(maxItems) || minItems < 1 || maxItems < minItems) {
+            errors.push(`${where} must stop after at least one item, and its maximum must not be below its minimum.`);
+        }
+    }
+
+    return errors;
+}
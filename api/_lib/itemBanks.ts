@@ -0,0 +1,51 @@
+import { readFileSync } from 'node:fs';
+import type { InstrumentDefinition } from './instrument.js';
+import { currentInstrument } from './instruments/index.js';
+import { ItemBank, validateItemBank } from './irt.js';
+
+// The calibrated PROMIS item banks are not part of this repository. Their item parameters
+// are distributed by HealthMeasures under the PROMIS terms of use, and no substitute
+// parameters are shipped: an adaptive score is only as sound as its calibrations.
+// CAT_ITEM_BANKS_FILE names a JSON file with a list of ItemBank objects, one per PROMIS
+// domain, filled in from the official calibrations. Without it, or for domains it does
+// not cover, the form uses the fixed short forms.
+
+// Raised when the configured item bank file cannot be read or is invalid.
+export class ItemBankError extends Error {}
+
+let loadedBanks: ItemBank[] | null = null;
+
+/**
+ * Returns the item banks configured for adaptive testing, loading and validating them
+ * on first use.
+ * @throws ItemBankError if CAT_ITEM_BANKS_FILE cannot be read or describes an invalid bank.
+ */
+export function getItemBanks(instrument: InstrumentDefinition = currentInstrument): ItemBank[] {
+    if (loadedBanks) return loadedBanks;
+
+    const path = process.env.CAT_ITEM_BANKS_FILE;
+    if (!path) return (loadedBanks = []);
+
+    let banks: ItemBank[];
+    try {
+        banks = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (e: any) {
+        throw new ItemBankError(`Could not read the item banks in ${path}: ${e.message}`);
+    }
+    if (!Array.isArray(banks)) throw new ItemBankError(`${path} must contain a list of item banks.`);
+
+    const errors = banks.flatMap(bank => validateItemBank(bank, instrument));
+    const domains = banks.map(bank => bank.domain);
+    domains.filter((domain, index) => domains.indexOf(domain) !== index)
+        .forEach(domain => errors.push(`More than one item bank scores "${domain}".`));
+    if (errors.length > 0) {
+        throw new ItemBankError(`Invalid item banks in ${path}:\n- ${errors.join('\n- ')}`);
+    }
+    return (loadedBanks = banks);
+}
+
+/**
+ * Finds the item bank for a domain, if adaptive testing is available for it.
+ */
+export const getItemBank = (domainName: string, instrument: InstrumentDefinition = currentInstrument): ItemBank | null =>
+    getItemBanks(instrument).find(bank => bank.domain === domainName) ?? null;
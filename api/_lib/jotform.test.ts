@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { mapJotformSubmission, parseMultipartFields } from './jotform.js';
+import { generateReportFromJotform } from './logic.js';
+import { BOUNDARY, buildJotformDelivery, liveFormRawRequest as rawRequest } from '../_tests/jotform.js';
+
+describe('parseMultipartFields', () => {
+    it('extracts the text fields and skips file parts', () => {
+        const { body, contentType } = buildJotformDelivery('5900000000000000001');
+        const fields = parseMultipartFields(body, contentType);
+
+        expect(fields.submissionID).toBe('5900000000000000001');
+        expect(fields.formID).toBe('241234567890123');
+        expect(fields.action).toBe('');
+        expect(JSON.parse(fields.rawRequest)).toEqual(rawRequest);
+        expect(fields).not.toHaveProperty('upload');
+    });
+
+    it('reads a quoted boundary', () => {
+        const { body } = buildJotformDelivery('5900000000000000001');
+        expect(parseMultipartFields(body, `multipart/form-data; boundary="${BOUNDARY}"`).submissionID).toBe('5900000000000000001');
+    });
+
+    it('requires a boundary', () => {
+        expect(() => parseMultipartFields('', 'multipart/form-data')).toThrow('Multipart request is missing its boundary.');
+    });
+});
+
+describe('mapJotformSubmission', () => {
+    it('maps the live form\'s labels to codes and reads the name and email', () => {
+        const { submission, unmappedFields, unrecognisedAnswers } = mapJotformSubmission({
+            submissionID: '5900000000000000001',
+            rawRequest: JSON.stringify(rawRequest),
+        });
+
+        expect(submission).toMatchObject({ submissionId: 'JF-5900000000000000001', firstName: 'Alex', lastName: 'Doe', email: 'alex@example.com' });
+        expect(submission.answers).toMatchObject({
+            ltemgtinTheltemgtltstronggtItemgt: 2,
+            ltemgtinTheltemgtltstronggtItemgt5: 4,
+            ltemgtinTheltemgtltstronggtItemgt6: 4,
+            ltemgtinTheltemgtltstronggtItemgt15: 0,
+        });
+        expect(unmappedFields).toEqual(['howDid']);
+        expect(unrecognisedAnswers).toEqual([]);
+    });
+
+    it('accepts the instrument\'s own labels in any case and dash style, and bare codes', () => {
+        const { submission } = mapJotformSubmission({
+            submissionID: '1',
+            rawRequest: JSON.stringify({
+                q5_ltemgtinTheltemgtltstronggtItemgt: 'mild - several  days',
+                q6_ltemgtinTheltemgtltstronggtItemgt5: '3',
+                q15_ltemgtinTheltemgtltstronggtItemgt15: 1,
+            }),
+        });
+
+        expect(submission.answers).toEqual({
+            ltemgtinTheltemgtltstronggtItemgt: 2,
+            ltemgtinTheltemgtltstronggtItemgt5: 3,
+            ltemgtinTheltemgtltstronggtItemgt15: 1,
+        });
+    });
+
+    it('reports answers that match no option', () => {
+        const { submission, unrecognisedAnswers } = mapJotformSubmission({
+            submissionID: '1',
+            rawRequest: JSON.stringify({ q5_ltemgtinTheltemgtltstronggtItemgt: 'Sometimes', q6_ltemgtinTheltemgtltstronggtItemgt5: 7 }),
+        });
+
+        expect(submission.answers).toEqual({});
+        expect(unrecognisedAnswers).toEqual(['ltemgtinTheltemgtltstronggtItemgt', 'ltemgtinTheltemgtltstronggtItemgt5']);
+    });
+
+    it('scores a delivery from the live form', () => {
+        const { submission } = mapJotformSubmission({ submissionID: '5900000000000000001', rawRequest: JSON.stringify(rawRequest) });
+        const depression = generateReportFromJotform(submission).domains.find(domain => domain.name === 'Depression')!;
+
+        // Often, Sometimes, Often, Always, Sometimes, Often, Often, Rarely
+        expect(depression.score).toBe(29);
+        expect(depression.userInterpretation).toBe('Moderate');
+    });
+
+    it('rejects a rawRequest that is not JSON', () => {
+        expect(() => mapJotformSubmission({ submissionID: '1', rawRequest: '{' })).toThrow(SyntaxError);
+    });
+});
@@ -0,0 +1,137 @@
+import type { JotformSubmission } from './logic.js';
+import { getItemResponseScale, InstrumentDefinition, ResponseScale } from './instrument.js';
+import { currentInstrument } from './instruments/index.js';
+
+// ====================================================================================
+// Jotform Webhook Payload
+// ------------------------------------------------------------------------------------
+// Jotform posts each submission as multipart/form-data. The answers arrive in the
+// `rawRequest` field as JSON keyed by "q<question number>_<field name>", and radio
+// answers are sent as the chosen option's label rather than a code.
+// ====================================================================================
+
+export interface JotformWebhookPayload {
+    submissionID: string;
+    formID?: string;
+    rawRequest: string;
+}
+
+export interface MappedJotformSubmission {
+    submission: JotformSubmission;
+    unmappedFields: string[]; // Answered fields that are not items of the instrument
+    unrecognisedAnswers: string[]; // Items whose answer matched no option of their scale
+}
+
+// Matches "q12_fieldName", capturing the field name.
+const FIELD_NAME_PATTERN = /^q\d+_(.+)$/;
+
+/**
+ * Extracts the text fields of a multipart/form-data body. File parts are ignored.
+ * @param body The raw request body, decoded as UTF-8.
+ * @param contentType The request's Content-Type header, which carries the boundary.
+ * @returns The fields by name.
+ * @throws Error if the content type has no boundary.
+ */
+export function parseMultipartFields(body: string, contentType: string): { [name: string]: string } {
+    const boundaryMatch = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+    if (!boundaryMatch) throw new Error('Multipart request is missing its boundary.');
+    const boundary = `--${boundaryMatch[1] ?? boundaryMatch[2]}`;
+
+    const fields: { [name: string]: string } = {};
+    for (const part of body.split(boundary)) {
+        const headerEnd = part.indexOf('\r\n\r\n');
+        if (headerEnd === -1) continue;
+
+        const headers = part.slice(0, headerEnd);
+        const nameMatch = headers.match(/name="([^"]*)"/i);
+        if (!nameMatch || /filename="/i.test(headers)) continue;
+
+        // Each part's content ends with the CRLF that precedes the next boundary.
+        fields[nameMatch[1]] = part.slice(headerEnd + 4).replace(/\r\n$/, '');
+    }
+    return fields;
+}
+
+const normaliseLabel = (label: string): string =>
+    label.toLowerCase().replace(/[\u2010-\u2015]/g, '-').replace(/\s+/g, ' ').trim();
+
+/**
+ * Converts a Jotform answer to the coded value of the matching option on the item's scale.
+ * Options are matched by label or one of their aliases, ignoring case, spacing and dash
+ * style; a bare code is also accepted.
+ * @returns The code, or null if the answer matches no option.
+ */
+const toCodedAnswer = (answer: unknown, scale: ResponseScale): number | null => {
+    if (typeof answer === 'number') {
+        return scale.options.some(o => o.value === answer) ? answer : null;
+    }
+    if (typeof answer !== 'string' || answer.trim() === '') return null;
+
+    const label = normaliseLabel(answer);
+    const byLabel = scale.options.find(o => [o.label, ...(o.aliases ?? [])].some(known => normaliseLabel(known) === label));
+    if (byLabel) return byLabel.value;
+
+    const code = Number(answer);
+    return Number.isInteger(code) && scale.options.some(o => o.value === code) ? code : null;
+};
+
+/**
+ * Maps a Jotform `rawRequest` to a JotformSubmission, translating field names to item IDs
+ * and option labels to codes. Name and email are read from Jotform's name and email fields.
+ * @param payload The webhook payload.
+ * @param instrument The instrument the form collects.
+ * @returns The submission, plus any fields or answers that could not be mapped.
+ * @throws Error if `rawRequest` is not valid JSON.
+ */
+export function mapJotformSubmission(
+    payload: JotformWebhookPayload,
+    instrument: InstrumentDefinition = currentInstrument,
+): MappedJotformSubmission {
+    const rawRequest: { [key: string]: unknown } = JSON.parse(payload.rawRequest);
+
+    const itemScales = new Map<string, ResponseScale>();
+    for (const domain of instrument.domains) {
+        for (const item of domain.items) itemScales.set(item.id, getItemResponseScale(instrument, domain, item));
+    }
+
+    const answers: { [itemId: string]: number } = {};
+    const unmappedFields: string[] = [];
+    const unrecognisedAnswers: string[] = [];
+    let firstName = '';
+    let lastName = '';
+    let email = '';
+
+    for (const [key, value] of Object.entries(rawRequest)) {
+        const fieldName = key.match(FIELD_NAME_PATTERN)?.[1];
+        if (!fieldName) continue; // Jotform metadata such as "slug" or "event_id"
+
+        const scale = itemScales.get(fieldName);
+        if (scale) {
+            const code = toCodedAnswer(value, scale);
+            if (code !== null) answers[fieldName] = code;
+            else if (value !== '' && value !== undefined) unrecognisedAnswers.push(fieldName);
+        } else if (value && typeof value === 'object' && 'first' in value) {
+            const name = value as { first?: string; last?: string };
+            firstName = (name.first || '').trim();
+            lastName = (name.last || '').trim();
+        } else if (/email/i.test(fieldName) && typeof value === 'string') {
+            email = value.trim();
+        } else if (value !== '' && value !== undefined) {
+            unmappedFields.push(fieldName);
+        }
+    }
+
+    return {
+        submission: {
+            // Prefixed so Jotform IDs can never collide with IDs issued by our own form.
+            submissionId: `JF-${payload.submissionID}`,
+            firstName,
+            lastName,
+            email,
+            assessmentDate: new Date().toISOString(),
+            answers,
+        },
+        unmappedFields,
+        unrecognisedAnswers,
+    };
+}
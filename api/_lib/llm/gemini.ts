@@ -0,0 +1,38 @@
+import { GoogleGenAI } from "@google/genai";
+import { LlmProvider, LlmProviderError, LlmRequest } from './provider.js';
+
+/**
+ * Google Gemini, through the Gen AI SDK.
+ */
+export class GeminiProvider implements LlmProvider {
+    readonly name = 'gemini';
+    private readonly ai: GoogleGenAI;
+
+    constructor(apiKey: string, readonly model: string, private readonly temperature: number) {
+        this.ai = new GoogleGenAI({ apiKey });
+    }
+
+    async generateJson(request: LlmRequest): Promise<unknown> {
+        let text: string | undefined;
+        try {
+            const response = await this.ai.models.generateContent({
+                model: this.model,
+                contents: request.prompt,
+                config: {
+                    responseMimeType: "application/json",
+                    responseJsonSchema: request.responseSchema,
+                    temperature: this.temperature,
+                },
+            });
+            text = response.text;
+        } catch (e: any) {
+            throw new LlmProviderError(`Gemini request failed: ${e.message}`);
+        }
+
+        try {
+            return JSON.parse((text ?? '').trim());
+        } catch {
+            throw new LlmProviderError('Gemini did not return valid JSON.');
+        }
+    }
+}
@@ -0,0 +1,73 @@
+import type { LlmProvider } from './provider.js';
+import { GeminiProvider } from './gemini.js';
+import { OpenAiCompatibleProvider } from './openaiCompatible.js';
+import { MockLlmProvider } from './mock.js';
+
+// ====================================================================================
+// Language Model Providers
+// ------------------------------------------------------------------------------------
+// Insight generation goes through an LlmProvider. The provider is chosen by the
+// LLM_PROVIDER environment variable:
+//   gemini (default)  Google Gemini with API_KEY
+//   openai            an OpenAI-compatible server at LLM_BASE_URL, with LLM_API_KEY if it
+//                     needs one; LLM_MODEL is required
+//   mock              placeholder responses with no network access; for development and CI
+// LLM_MODEL overrides the model and LLM_TEMPERATURE the sampling temperature (default 0.7).
+// ====================================================================================
+
+export { LlmProviderError } from './provider.js';
+export type { JsonSchema, LlmProvider, LlmRequest } from './provider.js';
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+const DEFAULT_TEMPERATURE = 0.7;
+
+let provider: LlmProvider | null = null;
+
+const getTemperature = (): number => {
+    const configured = process.env.LLM_TEMPERATURE;
+    if (configured === undefined || configured === '') return DEFAULT_TEMPERATURE;
+
+    const temperature = Number(configured);
+    if (!Number.isFinite(temperature) || temperature < 0 || temperature > 2) {
+        throw new Error(`LLM_TEMPERATURE must be a number from 0 to 2, not "${configured}".`);
+    }
+    return temperature;
+};
+
+/**
+ * Returns the provider for the configured LLM_PROVIDER, creating it on first use.
+ * @throws Error if the provider is unknown or missing its configuration.
+ */
+export const getLlmProvider = (): LlmProvider => {
+    if (provider) return provider;
+
+    const name = process.env.LLM_PROVIDER || 'gemini';
+    switch (name) {
+        case 'gemini': {
+            const apiKey = process.env.API_KEY;
+            if (!apiKey) throw new Error("API_KEY environment variable is not set.");
+            provider = new GeminiProvider(apiKey, process.env.LLM_MODEL || DEFAULT_GEMINI_MODEL, getTemperature());
+            break;
+        }
+        case 'openai': {
+            const baseUrl = process.env.LLM_BASE_URL;
+            const model = process.env.LLM_MODEL;
+            if (!baseUrl || !model) throw new Error('LLM_BASE_URL and LLM_MODEL must be set for the "openai" provider.');
+            provider = new OpenAiCompatibleProvider(baseUrl, process.env.LLM_API_KEY, model, getTemperature());
+            break;
+        }
+        case 'mock':
+            provider = new MockLlmProvider();
+            break;
+        default:
+            throw new Error(`Unknown LLM_PROVIDER "${name}". Use "gemini", "openai" or "mock".`);
+    }
+    return provider;
+};
+
+/**
+ * Replaces the provider used by the API routes, e.g. with a mock in tests.
+ */
+export const setLlmProvider = (replacement: LlmProvider | null): void => {
+    provider = replacement;
+};
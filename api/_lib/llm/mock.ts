@@ -0,0 +1,32 @@
+import { JsonSchema, LlmProvider, LlmRequest } from './provider.js';
+
+// Fills a schema with fixed placeholder values. Arrays get minItems entries (or one), so a
+// schema pinning the length, like one insight per domain, is always satisfied.
+const fill = (schema: JsonSchema, path: string): unknown => {
+    switch (schema.type) {
+        case 'object':
+            return Object.fromEntries(Object.entries(schema.properties ?? {})
+                .map(([key, property]) => [key, fill(property, path ? `${path}.${key}` : key)]));
+        case 'array':
+            return Array.from({ length: schema.minItems ?? 1 }, (_, index) => fill(schema.items ?? { type: 'string' }, `${path}[${index + 1}]`));
+        case 'string':
+            return `Placeholder text from the mock model for ${path}. ${schema.description ?? ''}`.trim();
+        case 'number':
+            return 0;
+        case 'boolean':
+            return false;
+    }
+};
+
+/**
+ * Answers every request with placeholder content shaped by the response schema, without
+ * any network access. The same request always gets the same response.
+ */
+export class MockLlmProvider implements LlmProvider {
+    readonly name = 'mock';
+    readonly model = 'mock';
+
+    async generateJson(request: LlmRequest): Promise<unknown> {
+        return fill(request.responseSchema, '');
+    }
+}
@@ -0,0 +1,49 @@
+import { LlmProvider, LlmProviderError, LlmRequest } from './provider.js';
+
+/**
+ * Any server implementing the OpenAI chat completions API, such as a self-hosted model
+ * behind vLLM or Ollama. The base URL includes the version path, e.g. "http://localhost:11434/v1".
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+    readonly name = 'openai';
+
+    constructor(
+        private readonly baseUrl: string,
+        private readonly apiKey: string | undefined,
+        readonly model: string,
+        private readonly temperature: number,
+    ) {}
+
+    async generateJson(request: LlmRequest): Promise<unknown> {
+        const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model: this.model,
+                temperature: this.temperature,
+                messages: [{ role: 'user', content: request.prompt }],
+                response_format: {
+                    type: 'json_schema',
+                    json_schema: { name: 'response', schema: request.responseSchema },
+                },
+            }),
+        }).catch((e: Error) => {
+            throw new LlmProviderError(`Could not reach the model server at ${this.baseUrl}: ${e.message}`);
+        });
+
+        if (!response.ok) {
+            throw new LlmProviderError(`The model server returned ${response.status}: ${await response.text()}`);
+        }
+
+        const body = await response.json();
+        const content = body?.choices?.[0]?.message?.content;
+        try {
+            return JSON.parse(String(content ?? '').trim());
+        } catch {
+            throw new LlmProviderError('The model server did not return valid JSON.');
+        }
+    }
+}
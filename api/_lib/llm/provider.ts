@@ -0,0 +1,33 @@
+// A JSON Schema object describing the response; only the subset every provider supports
+// (object, array, string, number, boolean, with properties, items, required,
+// description, minItems and maxItems) should be used.
+export type JsonSchema = {
+    type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+};
+
+export interface LlmRequest {
+    prompt: string;
+    responseSchema: JsonSchema;
+}
+
+// Raised when a provider cannot be reached or does not return JSON.
+export class LlmProviderError extends Error {}
+
+export interface LlmProvider {
+    /** The provider's name, e.g. "gemini". */
+    readonly name: string;
+    /** The model requests are sent to; recorded alongside whatever it generates. */
+    readonly model: string;
+    /**
+     * Sends a prompt and returns the model's response parsed as JSON. The response is
+     * asked to match the schema, but callers must still check its shape.
+     * @throws LlmProviderError if the request fails or the response is not JSON.
+     */
+    generateJson(request: LlmRequest): Promise<unknown>;
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { generateReportFromJotform, JotformSubmission } from './logic.js';
+import { currentInstrument } from './instruments/index.js';
+import type { ItemBank } from './irt.js';
+import { buildTriageQueue } from './triage.js';
+
+const depressionScreeners = ['ltemgtinTheltemgtltstronggtItemgt', 'ltemgtinTheltemgtltstronggtItemgt5'];
+
+const depression = currentInstrument.domains.find(domain => domain.name === 'Depression')!;
+const depressionItems = depression.items.filter(item => item.scored !== false).map(item => item.id);
+
+const submit = (answers: JotformSubmission['answers'], extra: Partial<JotformSubmission> = {}): JotformSubmission => ({
+    submissionId: 'submission-1',
+    firstName: 'Alex',
+    lastName: 'Doe',
+    email: 'alex@example.com',
+    assessmentDate: '2026-10-19',
+    answers,
+    ...extra,
+});
+
+const findDomain = (answers: JotformSubmission['answers'], name: string) =>
+    generateReportFromJotform(submit(answers)).domains.find(domain => domain.name === name)!;
+
+describe('generateReportFromJotform', () => {
+    it('converts a complete PROMIS short form to its T-score', () => {
+        const answers = Object.fromEntries([
+            ...depressionScreeners.map(id => [id, 2]),
+            ...depressionItems.map(id => [id, 1]),
+        ]);
+        const domain = findDomain(answers, 'Depression');
+
+        expect(domain.score).toBe(8);
+        expect(domain.tScore).toBe(37.1);
+        expect(domain.userInterpretation).toBe('None to slight');
+        expect(domain.scoringTrace?.tScoreConversion).toBe('DEPRESSION_8A');
+    });
+
+    it('prorates a summed score with at least 75% of its items answered', () => {
+        const answers = Object.fromEntries([
+            ...depressionScreeners.map(id => [id, 2]),
+            ...depressionItems.slice(0, 6).map(id => [id, 3]),
+        ]);
+        const domain = findDomain(answers, 'Depression');
+
+        expect(domain.score).toBe(24);
+        expect(domain.scoringTrace?.prorated).toBe(true);
+        expect(domain.scoringTrace?.completenessRule).toBe('met');
+    });
+
+    it('leaves a summed score unscored below 75% of its items answered', () => {
+        const answers = Object.fromEntries([
+            ...depressionScreeners.map(id => [id, 2]),
+            ...depressionItems.slice(0, 5).map(id => [id, 3]),
+        ]);
+        const domain = findDomain(answers, 'Depression');
+
+        expect(domain.score).toBeNull();
+        expect(domain.userInterpretation).toBe('Incomplete Assessment');
+        expect(domain.scoringTrace?.completenessRule).toBe('not_met');
+    });
+
+    it('treats answers that are not one of the scale codes as missing', () => {
+        const answers = Object.fromEntries([
+            ...depressionScreeners.map(id => [id, 2]),
+            ...depressionItems.map(id => [id, 'Often']),
+        ]);
+        const domain = findDomain(answers, 'Depression');
+
+        expect(domain.score).toBeNull();
+        expect(domain.scoringTrace?.items.every(item => item.missing)).toBe(true);
+    });
+
+    it('flags a threshold domain from a single non-zero answer', () => {
+        const suicidalIdeation = currentInstrument.domains.find(domain => domain.name === 'Suicidal Ideation')!;
+        const domain = findDomain({ [suicidalIdeation.items[0].id]: 1 }, 'Suicidal Ideation');
+
+        expect(domain.score).toBe(1);
+        expect(domain.userInterpretation).toBe('Further inquiry indicated');
+    });
+
+    describe('with adaptive answers', () => {
+        const bank: ItemBank = {
+            domain: 'Depression',
+            name: 'Test bank',
+            source: 'Synthetic parameters for tests',
+            responseScale: 'PROMIS_FREQUENCY',
+            items: Array.from({ length: 6 }, (_, index) => ({
+                id: `bank-${index}`,
+                text: `Bank item ${index}`,
+                discrimination: 2 + index * 0.2,
+                thresholds: [-0.5, 0.3, 1.1, 1.9],
+            })),
+            stoppingRule: { maxStandardError: 0.01, minItems: 1, maxItems: 3 },
+        };
+
+        const scoreAdaptive = (responses: { [itemId: string]: number }) => generateReportFromJotform(
+            submit(Object.fromEntries(depressionScreeners.map(id => [id, 2])), { adaptiveAnswers: { Depression: responses } }),
+            currentInstrument,
+            [bank],
+        ).domains.find(domain => domain.name === 'Depression')!;
+
+        it('scores a domain on the T-score metric once testing has stopped', () => {
+            const domain = scoreAdaptive({ 'bank-5': 1, 'bank-4': 1, 'bank-3': 1 });
+
+            expect(domain.score).not.toBeNull();
+            expect(domain.score).toBe(domain.tScore);
+            expect(domain.scoringTrace?.adaptive?.stopReason).toBe('max_items');
+        });
+
+        it('leaves a domain whose testing had not stopped unscored', () => {
+            const domain = scoreAdaptive({ 'bank-5': 1 });
+
+            expect(domain.score).toBeNull();
+            expect(domain.tScore).toBeNull();
+            expect(domain.scoringTrace?.adaptive?.stopReason).toBeNull();
+        });
+
+        it('skips answers to items the bank does not have', () => {
+            const domain = scoreAdaptive({ 'bank-5': 1, unknown: 5 });
+
+            expect(domain.scoringTrace?.items.map(item => item.itemId)).toEqual(['bank-5']);
+            expect(domain.scoringTrace?.answeredCount).toBe(1);
+        });
+        it('classifies a T-score above 85 as Severe and raises a triage case', () => {
+            // A short bank calibrated for the top of the range, so answering "Always" throughout
+            // estimates close to the T-score ceiling of 90.
+            const steepBank: ItemBank = {
+                ...bank,
+                items: Array.from({ length: 3 }, (_, index) => ({
+                    id: `steep-${index}`,
+                    text: `Steep item ${index}`,
+                    discrimination: 4,
+                    thresholds: [2.5, 3, 3.5, 4],
+                })),
+            };
+            const report = generateReportFromJotform(
+                submit(Object.fromEntries(depressionScreeners.map(id => [id, 2])), {
+                    adaptiveAnswers: { Depression: { 'steep-0': 5, 'steep-1': 5, 'steep-2': 5 } },
+                }),
+                currentInstrument,
+                [steepBank],
+            );
+            const domain = report.domains.find(d => d.name === 'Depression')!;
+
+            expect(domain.tScore).toBeCloseTo(88.3, 1);
+            expect(domain.userInterpretation).toBe('Severe');
+            expect(buildTriageQueue([report], [], [], id => id)).toEqual([
+                expect.objectContaining({ submissionId: 'submission-1', priority: 'high', flaggedDomains: [{ name: 'Depression', interpretation: 'Severe' }] }),
+            ]);
+        });
+    });
+});
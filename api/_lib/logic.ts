@@ -1,12 +1,21 @@
 
 
-import { IndividualData, Domain, ReferenceInterval } from './types.js';
+import { AdaptiveAnswers, IndividualData, Domain, ItemScoreTrace, ReferenceInterval, ScoringTrace } from './types.js';
+import { convertRawToTScore, tScoreToPercentile, TScoreConversion } from './promis.js';
+import { getItemResponseScale, InstrumentDefinition, InstrumentDomain, isScoredItem, ResponseScale } from './instrument.js';
+import { currentInstrument, getInstrumentVersionTag } from './instruments/index.js';
+import { derivePersonId } from './identity.js';
+import { evaluatePatternRules } from './patterns.js';
+import { recommendCareTier } from './careTier.js';
+import { assessResponseValidity, SectionTimings } from './validity.js';
+import { getBankItemScale, getResponseCategory, ItemBank, nextAdaptiveStep } from './irt.js';
 
 // ====================================================================================
-// Configuration Complete
+// Scoring Engine
 // ------------------------------------------------------------------------------------
-// This file has been updated with the specific Jotform question IDs from the
-// provided document. The scoring logic is now aligned with your live form.
+// Items, scoring rules and reference intervals all come from the instrument definition
+// in ./instruments, which also drives the AssessmentForm. Item IDs match the Jotform
+// question IDs of the live form.
 // ====================================================================================
 
 
@@ -17,7 +26,9 @@ export interface JotformSubmission {
   lastName: string;
   email: string;
   assessmentDate: string;
-  answers: { [questionId: string]: any };
+  answers: { [questionId: string]: any }; // Coded option values keyed by item ID
+  sectionTimings?: SectionTimings; // Recorded by our own form only
+  adaptiveAnswers?: AdaptiveAnswers; // Our own form only, for domains tested adaptively
 }
 
 // Re-exporting IndividualData for use in API routes
@@ -25,406 +36,227 @@ export type { IndividualData };
 
 
 // --- SCORING AND INTERPRETATION LOGIC ---
-
 // --- Answer to Value Conversion ---
-// Different measures use different scales. These functions standardize them.
-
-const answerToValueMap: { [key: string]: number } = {
-    'not at all': 0, 'never': 0,
-    'less than a day or two': 1, 'rarely': 1, 'a little bit': 1, 'mild': 1, 'slight': 1,
-    'several days': 2, 'sometimes': 2, 'fair': 2,
-    'more than half the days': 3, 'often': 3, 'quite a bit': 3, 'moderate': 3,
-    'nearly every day': 4, 'always': 4, 'very much': 4, 'extreme': 4
-};
-
-const getBaseValue = (answer: any): number | null => {
-    if (answer === null || answer === undefined || answer === '') return null;
-    const directNumber = parseInt(answer, 10);
-    if (!isNaN(directNumber) && directNumber >= 0 && directNumber <= 5) return directNumber;
-
-    const lowerAnswer = String(answer).toLowerCase();
-    for (const key in answerToValueMap) {
-        if (lowerAnswer.includes(key)) {
-            return answerToValueMap[key];
-        }
-    }
-    return null;
-};
-
-// For PROMIS scales (1-5)
-const answerToPROMISValue = (answer: any, isReversed: boolean = false): number | null => {
-    const baseValue = getBaseValue(answer);
-    if (baseValue === null) return null;
-    const score = baseValue + 1; // Convert from 0-4 range to 1-5 range
-    return isReversed ? 6 - score : score;
-};
+// Answers are the coded value of the chosen option on the item's response scale, so they
+// map directly to scores. Anything that is not one of the scale's codes is treated as missing.
+const getAnswerValue = (answer: unknown, scale: ResponseScale, isReversed?: boolean): number | null => {
+    const option = scale.options.find(o => o.value === answer);
+    if (!option) return null;
+    if (!isReversed) return option.value;
 
-// For Somatic Symptoms (PHQ-15) scale (0-2)
-const answerToPHQ15Value = (answer: any): number | null => {
-    const baseValue = getBaseValue(answer);
-    if (baseValue === null) return null;
-    if (baseValue === 0) return 0; // Not at all
-    if (baseValue === 1) return 1; // Bothered a little
-    return 2; // Bothered a lot (maps from base values 2, 3, 4)
+    const values = scale.options.map(o => o.value);
+    return Math.min(...values) + Math.max(...values) - option.value;
 };
 
-// For default DSM scales (0-4) like ASRM, FOCI, and Level 1 screeners
-const answerToDefaultValue = (answer: any): number | null => {
-    return getBaseValue(answer);
-};
-
-// --- Scoring Methodologies ---
-type ScoringMethod = 'SUM' | 'MAX_THRESHOLD' | 'AVERAGE';
-type AnswerMapping = 'PROMIS' | 'PHQ15' | 'DEFAULT';
-
-interface DomainConfig {
-  name: string;
-  about: string;
-  aboutLink: string;
-  questionIds: { id: string, reverse?: boolean }[];
-  scoringMethod: ScoringMethod;
-  answerMapping: AnswerMapping;
-  referenceIntervals: ReferenceInterval[];
-  individualsExperienced: { name: string; link: string; }[];
-  intendedQuestionCount?: number; // For prorating scores correctly
+interface ScoreResult {
+    score: number | null;
+    trace: ScoringTrace;
 }
 
+// The 75% completeness rule applies to summed scores; below it the domain is left unscored.
+const MIN_COMPLETENESS = 0.75;
 
-// --- DOMAIN CONFIGURATION ---
-// This new structure holds all the configuration for each domain, including the correct
-// scoring method and interpretation intervals derived from the provided DSM-5 PDFs.
-const domainConfigs: DomainConfig[] = [
-    { 
-        name: 'Depression',
-        scoringMethod: 'SUM',
-        answerMapping: 'PROMIS',
-        intendedQuestionCount: 10,
-        questionIds: [
-            { id: 'ltemgtinTheltemgtltstronggtItemgt' }, { id: 'ltemgtinTheltemgtltstronggtItemgt5' }, { id: 'ltemgtinTheltemgtltstronggtItemgt6' }, { id: 'ltemgtinTheltemgtltstronggtItemgt7' },
-            { id: 'ltemgtinTheltemgtltstronggtltemgt8' }, { id: 'ltemgtinTheltemgtltstronggtItemgt9' }, { id: 'ltemgtinTheltemgtltstronggtitemgt10' }, { id: 'ltemgtinTheltemgtltstronggtitemgt11' },
-            { id: 'ltemgtinTheltemgtltstronggtitemgt13' }, { id: 'ltemgtinTheltemgtltstronggtltemgt14' }
-        ],
-        referenceIntervals: [ // 8 questions, 1-5 scale. Range 8-40. (Prorated for 10)
-            { label: 'None to slight', min: 10, max: 27, color: 'bg-green-500' }, // T < 60
-            { label: 'Moderate', min: 28, max: 41, color: 'bg-orange-500' }, // T 60-69.9
-            { label: 'Severe', min: 42, max: 50, color: 'bg-red-500' } // T >= 70
-        ],
-        about: 'Assesses core symptoms of depression. Score is based on the 8-item PROMIS Emotional Distress–Depression–Short Form, expanded with additional questions.',
-        aboutLink: 'https://www.who.int/news-room/fact-sheets/detail/depression',
-        individualsExperienced: [
-            { name: 'Deepika Padukone', link: 'https://www.onlymyhealth.com/deepika-padukone-on-depression-and-tips-to-overcome-suicidal-thoughts-12977825587' },
-            { name: 'Abraham Lincoln', link: 'https://en.wikipedia.org/wiki/Health_of_Abraham_Lincoln#Depression' },
-        ],
-    },
-    { 
-        name: 'Anger',
-        scoringMethod: 'SUM',
-        answerMapping: 'PROMIS',
-        intendedQuestionCount: 6,
-        questionIds: [
-            { id: 'ltemgtinTheltemgtltstronggtItemgt15' }, { id: 'ltemgtinTheltemgtltstronggtltemgt16' }, { id: 'ltemgtinTheltemgtltstronggtItemgt17' }, 
-            { id: 'ltemgtinTheltemgtltstronggtitemgt18' }, { id: 'ltemgtinTheltemgtltstronggtItemgt19' }, { id: 'ltemgtinTheltemgtltstronggtItemgt20' }
-        ],
-        referenceIntervals: [ // 5 questions, 1-5 scale. Range 5-25. (Prorated for 6)
-            { label: 'None to slight', min: 6, max: 15, color: 'bg-green-500' }, // T < 55
-            { label: 'Mild', min: 16, max: 18, color: 'bg-yellow-500' }, // T 55-59.9
-            { label: 'Moderate', min: 19, max: 24, color: 'bg-orange-500' }, // T 60-69.9
-            { label: 'Severe', min: 25, max: 30, color: 'bg-red-500' } // T >= 70
-        ],
-        about: 'Measures feelings of anger and irritability. Score is based on the 5-item PROMIS Emotional Distress–Anger–Short Form, expanded with an additional question.',
-        aboutLink: 'https://www.apa.org/topics/anger/control',
-        individualsExperienced: [
-            { name: 'Russell Brand', link: 'https://www.healthline.com/health/celebrities-with-bipolar-disorder' },
-            { name: 'Kanye West', link: 'https://www.biography.com/musicians/kanye-west-mental-health' }
-        ],
-    },
-    { 
-        name: 'Mania',
-        scoringMethod: 'SUM',
-        answerMapping: 'DEFAULT',
-        intendedQuestionCount: 7,
-        questionIds: [
-            { id: 'ltemgtinTheltemgtltstronggtltemgt21' }, { id: 'ltemgtinTheltemgtltstronggtltemgt27' }, { id: 'ltemgtinTheltemgtltstronggtItemgt22' }, { id: 'ltemgtinTheltemgtltstronggtitemgt23' }, 
-            { id: 'ltemgtinTheltemgtltstronggtitemgt24' }, { id: 'ltemgtinTheltemgtltstronggtltemgt25' }, { id: 'ltemgtinTheltemgtltstronggtltemgt26' }
-        ],
-        referenceIntervals: [ // 5 questions, 0-4 scale. Range 0-20. (Prorated for 7)
-            { label: 'Low Probability', min: 0, max: 8, color: 'bg-green-500' },
-            { label: 'High Probability', min: 9, max: 28, color: 'bg-red-500' }
-        ],
-        about: 'Assesses symptoms of mania or hypomania using the Altman Self-Rating Mania Scale. A score of 6 or higher suggests a high probability of a manic or hypomanic condition.',
-        aboutLink: 'https://www.nimh.nih.gov/health/topics/bipolar-disorder',
-        individualsExperienced: [
-            { name: 'Mariah Carey', link: 'https://www.webmd.com/bipolar-disorder/ss/slideshow-celebrities-bipolar-disorder' },
-            { name: 'Demi Lovato', link: 'https://people.com/health/demi-lovato-relieved-to-be-diagnosed-bipolar/' }
-        ],
-    },
-    { 
-        name: 'Anxiety',
-        scoringMethod: 'SUM',
-        answerMapping: 'PROMIS',
-        intendedQuestionCount: 10,
-        questionIds: [
-            { id: 'ltemgtinTheltemgtltstronggtItemgt28' }, { id: 'ltemgtinTheltemgtltstronggtltemgt29' }, { id: 'ltemgtinTheltemgtltstronggtItemgt30' }, { id: 'ltemgtinTheltemgtltstronggtitemgt31' },
-            { id: 'ltemgtinTheltemgtltstronggtItemgt32' }, { id: 'ltemgtinTheltemgtltstronggtltemgt33' }, { id: 'ltemgtinTheltemgtltstronggtltemgt34' }, { id: 'ltemgtinTheltemgtltstronggtitemgt35' },
-            { id: 'ltemgtinTheltemgtltstronggtitemgt36' }, { id: 'ltemgtinTheltemgtltstronggtItemgt37' }
-        ],
-        referenceIntervals: [ // 7 questions, 1-5 scale. Range 7-35. (Prorated for 10)
-            { label: 'None to slight', min: 10, max: 21, color: 'bg-green-500' }, // T < 55
-            { label: 'Mild', min: 22, max: 27, color: 'bg-yellow-500' }, // T 55-59.9
-            { label: 'Moderate', min: 28, max: 38, color: 'bg-orange-500' }, // T 60-69.9
-            { label: 'Severe', min: 39, max: 50, color: 'bg-red-500' } // T >= 70
-        ],
-        about: 'Evaluates common symptoms of anxiety. Score is based on the 7-item PROMIS Emotional Distress–Anxiety–Short Form, expanded with additional questions.',
-        aboutLink: 'https://www.nimh.nih.gov/health/topics/anxiety-disorders',
-        individualsExperienced: [
-            { name: 'Adele', link: 'https://www.gmanetwork.com/news/lifestyle/healthandwellness/806235/adele-says-working-out-helped-with-her-anxiety-it-was-never-about-losing-weight/story/' },
-            { name: 'Karan Johar', link: 'https://yourdost.com/blog/2016/09/celebrity-depression-karan-johar.html' },
-        ],
-    },
-    { 
-        name: 'Somatic Symptoms',
-        scoringMethod: 'SUM',
-        answerMapping: 'PHQ15',
-        intendedQuestionCount: 17,
-        questionIds: [
-            { id: 'ltemgtinTheltemgtltstronggtitemgt38' }, { id: 'ltemgtinTheltemgtltstronggtItemgt39' }, { id: 'ltemgtinTheltemgtltstronggtItemgt40' }, { id: 'ltemgtinTheltemgtltstronggtitemgt41' }, 
-            { id: 'ltemgtinTheltemgtltstronggtItemgt42' }, { id: 'ltemgtinTheltemgtltstronggtItemgt43' }, { id: 'ltemgtinTheltemgtltstronggtltemgt44' }, { id: 'ltemgtinTheltemgtltstronggtltemgt45' }, 
-            { id: 'ltemgtinTheltemgtltstronggtltemgt46' }, { id: 'ltemgtinTheltemgtltstronggtitemgt47' }, { id: 'ltemgtinTheltemgtltstronggtItemgt48' }, { id: 'ltemgtinTheltemgtltstronggtItemgt49' },
-            { id: 'ltemgtinTheltemgtltstronggtltemgt50' }, { id: 'ltemgtinTheltemgtltstronggtltemgt51' }, { id: 'ltemgtinTheltemgtltstronggtltemgt52' }, { id: 'ltemgtinTheltemgtltstronggtItemgt53' }, 
-            { id: 'ltemgtinTheltemgtltstronggtItemgt54' }
-        ],
-        referenceIntervals: [ // 15 questions, 0-2 scale. Range 0-30. (Prorated for 17)
-            { label: 'Minimal', min: 0, max: 5, color: 'bg-green-500' },
-            { label: 'Low', min: 6, max: 11, color: 'bg-yellow-500' },
-            { label: 'Medium', min: 12, max: 16, color: 'bg-orange-500' },
-            { label: 'High', min: 17, max: 34, color: 'bg-red-500' }
-        ],
-        about: 'Focuses on physical symptoms that may be related to psychological distress, based on the Patient Health Questionnaire 15 (PHQ-15).',
-        aboutLink: 'https://www.psychiatry.org/patients-families/somatic-symptom-disorder/what-is-somatic-symptom-disorder',
-        individualsExperienced: [
-            { name: 'Lady Gaga', link: 'https://ukfibromyalgia.com/blog/celebrities-with-fibromyalgia-lady-gaga' },
-            { name: 'Oprah Winfrey', link: 'https://www.cbsnews.com/news/oprah-reports-on-childhood-traumas-long-term-effects/' }
-        ],
-    },
-    { 
-        name: 'Suicidal Ideation',
-        scoringMethod: 'MAX_THRESHOLD',
-        answerMapping: 'DEFAULT',
-        questionIds: [{ id: 'ltemgtinTheltemgtltstronggtItemgt55' }],
-        referenceIntervals: [
-            { label: 'Within normal limits', min: 0, max: 0, color: 'bg-green-500' },
-            { label: 'Further inquiry indicated', min: 1, max: 4, color: 'bg-red-500' }
-        ],
-        about: 'Screens for thoughts of self-harm. A score of "Slight" or greater indicates need for further inquiry.',
-        aboutLink: 'https://988lifeline.org/',
-        individualsExperienced: [
-            { name: 'J.K. Rowling', link: 'https://www.cbsnews.com/news/potter-creator-once-contemplated-suicide/' },
-            { name: 'Jon Hamm', link: 'https://sunlightrecovery.com/jon-hamm-chronic-depression/' }
-        ],
-    },
-    { 
-        name: 'Psychosis',
-        scoringMethod: 'MAX_THRESHOLD',
-        answerMapping: 'DEFAULT',
-        questionIds: [{ id: 'ltemgtinTheltemgtltstronggtltemgt56' }, { id: 'ltemgtinTheltemgtltstronggtltemgt57' }],
-        referenceIntervals: [
-            { label: 'Within normal limits', min: 0, max: 0, color: 'bg-green-500' },
-            { label: 'Further inquiry indicated', min: 1, max: 4, color: 'bg-red-500' }
-        ],
-        about: 'Identifies unusual thoughts or perceptions. A score of "Slight" or greater indicates need for further inquiry.',
-        aboutLink: 'https://www.nimh.nih.gov/health/topics/schizophrenia/raise/what-is-psychosis',
-        individualsExperienced: [
-            { name: 'John Nash', link: 'https://livingwithschizophreniauk.org/john-nash/' },
-            { name: 'Brian Wilson', link: 'https://www.biography.com/musicians/brian-wilson-mental-health-illness' }
-        ],
-    },
-    { 
-        name: 'Sleep Problems',
-        scoringMethod: 'SUM',
-        answerMapping: 'PROMIS',
-        intendedQuestionCount: 8,
-        questionIds: [
-            { id: 'ltemgtinTheltemgtltstronggtltemgt58' },
-            { id: 'ltemgtinTheltemgtltstronggtItemgt60', reverse: false }, // restless
-            { id: 'ltemgtinTheltemgtltstronggtltemgt61', reverse: true }, // satisfied
-            { id: 'ltemgtinTheltemgtltstronggtItemgt62', reverse: true }, // refreshing
-            { id: 'ltemgtinTheltemgtltstronggtltemgt63', reverse: false }, // difficulty falling
-            { id: 'ltemgtinTheltemgtltstronggtItemgt64', reverse: false }, // trouble staying
-            { id: 'ltemgtinTheltemgtltstronggtitemgt65' },
-            { id: 'ltemgtinTheltemgtltstronggtItemgt66', reverse: true }, // got enough
-            { id: 'ltemgtinTheltemgtltstronggtltemgt67', reverse: true }  // quality was
-        ],
-        referenceIntervals: [ // Range for 8 questions is 8-40. Score will be prorated.
-            { label: 'None to slight', min: 8, max: 25, color: 'bg-green-500' }, // T < 55
-            { label: 'Mild', min: 26, max: 28, color: 'bg-yellow-500' }, // T 55-59.9
-            { label: 'Moderate', min: 29, max: 36, color: 'bg-orange-500' }, // T 60-69.9
-            { label: 'Severe', min: 37, max: 40, color: 'bg-red-500' } // T >= 70
-        ],
-        about: 'Evaluates sleep quality based on the 8-item PROMIS Sleep Disturbance scale. Some questions are reverse-scored.',
-        aboutLink: 'https://www.sleepfoundation.org/insomnia',
-        individualsExperienced: [
-            { name: 'Jimmy Kimmel', link: 'https://www.rxwiki.com/slideshow/celebrities-who-have-trouble-sleeping/jimmy-kimmel' },
-        ],
-    },
-    { 
-        name: 'Memory',
-        scoringMethod: 'MAX_THRESHOLD',
-        answerMapping: 'DEFAULT',
-        questionIds: [{ id: 'ltemgtinTheltemgtltstronggtItemgt68' }],
-        referenceIntervals: [
-            { label: 'Within normal limits', min: 0, max: 1, color: 'bg-green-500' },
-            { label: 'Further inquiry indicated', min: 2, max: 4, color: 'bg-red-500' }
-        ],
-        about: 'Assesses memory problems. A score of "Mild" or greater indicates need for further inquiry.',
-        aboutLink: 'https://www.nia.nih.gov/health/memory-forgetfulness-and-aging-whats-normal-and-whats-not',
-        individualsExperienced: [
-            { name: 'Ronald Reagan', link: 'https://optoceutics.com/famous-people-celebrities-singers-with-alzheimers/' },
-        ],
-    },
-    { 
-        name: 'Repetitive Thoughts and Behaviours',
-        scoringMethod: 'AVERAGE',
-        answerMapping: 'DEFAULT',
-        intendedQuestionCount: 7,
-        questionIds: [
-            { id: 'ltemgtinTheltemgtltstronggtItemgt69' }, { id: 'ltemgtinTheltemgtltstronggtltemgt70' }, { id: 'ltemgtinTheltemgtltstronggtltemgt71' }, 
-            { id: 'ltemgtinTheltemgtltstronggtltemgt72' }, { id: 'ltemgtinTheltemgtltstronggtItemgt73' }, { id: 'ltemgtinTheltemgtltstronggtltemgt74' }, 
-            { id: 'ltemgtinTheltemgtltstronggtltemgt75' }
-        ],
-        referenceIntervals: [ // 5 questions, 0-4 scale. Average range 0-4. (Prorated for 7)
-            { label: 'None', min: 0, max: 0.9, color: 'bg-green-500' },
-            { label: 'Mild', min: 1, max: 1.9, color: 'bg-yellow-500' },
-            { label: 'Moderate', min: 2, max: 2.9, color: 'bg-orange-500' },
-            { label: 'Severe', min: 3, max: 3.9, color: 'bg-red-500' },
-            { label: 'Extreme', min: 4, max: 4, color: 'bg-red-500' }
-        ],
-        about: 'Measures severity of repetitive thoughts and behaviors based on the Florida Obsessive-Compulsive Inventory (FOCI) Severity Scale.',
-        aboutLink: 'https://iocdf.org/about-ocd/',
-        individualsExperienced: [
-            { name: 'Howie Mandel', link: 'https://en.wikipedia.org/wiki/Here%27s_the_Deal:_Don%27t_Touch_Me' },
-        ],
-    },
-    { 
-        name: 'Dissociation',
-        scoringMethod: 'MAX_THRESHOLD',
-        answerMapping: 'DEFAULT',
-        questionIds: [{ id: 'ltemgtinTheltemgtltstronggtltemgt76' }],
-        referenceIntervals: [
-            { label: 'Within normal limits', min: 0, max: 1, color: 'bg-green-500' },
-            { label: 'Further inquiry indicated', min: 2, max: 4, color: 'bg-red-500' }
-        ],
-        about: 'Measures experiences of detachment from reality. A score of "Mild" or greater indicates need for further inquiry.',
-        aboutLink: 'https://www.nami.org/About-Mental-Illness/Mental-Health-Conditions/Dissociative-Disorders',
-        individualsExperienced: [
-            { name: 'Jim Carrey', link: 'https://psychprofessionals.com.au/jim-carrey-on-overcoming-depression/' },
-        ],
-    },
-    { 
-        name: 'Personality Functioning',
-        scoringMethod: 'MAX_THRESHOLD',
-        answerMapping: 'DEFAULT',
-        questionIds: [{ id: 'ltemgtinTheltemgtltstronggtItemgt77' }, { id: 'ltemgtinTheltemgtltstronggtltemgt78' }],
-        referenceIntervals: [
-            { label: 'Within normal limits', min: 0, max: 1, color: 'bg-green-500' },
-            { label: 'Further inquiry indicated', min: 2, max: 4, color: 'bg-red-500' }
-        ],
-        about: 'Examines long-term patterns in self-perception and relationships. A score of "Mild" or greater indicates need for further inquiry.',
-        aboutLink: 'https://www.nimh.nih.gov/health/topics/borderline-personality-disorder',
-        individualsExperienced: [
-            { name: 'Pete Davidson', link: 'https://en.wikipedia.org/wiki/Pete_Davidson#Health' },
-        ],
-    },
-];
-
-const getAnswerValue = (answer: any, mapping: AnswerMapping, isReversed?: boolean): number | null => {
-    switch (mapping) {
-        case 'PROMIS':
-            return answerToPROMISValue(answer, isReversed);
-        case 'PHQ15':
-            return answerToPHQ15Value(answer);
-        case 'DEFAULT':
-        default:
-            return answerToDefaultValue(answer);
-    }
-};
-
-function calculateScore(config: DomainConfig, allAnswers: { [questionId: string]: any }): number | null {
-    const numericAnswers = config.questionIds
-        .map(q => getAnswerValue(allAnswers[q.id], config.answerMapping, q.reverse))
+function calculateScore(instrument: InstrumentDefinition, domain: InstrumentDomain, allAnswers: { [questionId: string]: any }): ScoreResult {
+    const scoredItems = domain.items.filter(isScoredItem);
+    const itemTraces: ItemScoreTrace[] = scoredItems.map(item => {
+        const scale = getItemResponseScale(instrument, domain, item);
+        const rawAnswer = allAnswers[item.id] ?? null;
+        const mappedValue = getAnswerValue(rawAnswer, scale, item.reverse);
+        return {
+            itemId: item.id,
+            text: item.text,
+            rawAnswer,
+            answerLabel: scale.options.find(o => o.value === rawAnswer)?.label ?? null,
+            mappedValue,
+            reversed: !!item.reverse,
+            missing: mappedValue === null,
+        };
+    });
+    const numericAnswers = itemTraces
+        .map(item => item.mappedValue)
         .filter((val): val is number => val !== null);
 
-    if (numericAnswers.length === 0) return null;
+    const trace: ScoringTrace = {
+        method: domain.scoring.method,
+        items: itemTraces,
+        answeredCount: numericAnswers.length,
+        expectedCount: scoredItems.length,
+        rawSum: null,
+        completenessRule: 'not_applicable',
+        prorated: false,
+        tScoreConversion: null,
+        matchedInterval: null,
+    };
+
+    if (numericAnswers.length === 0) return { score: null, trace };
 
-    if (config.scoringMethod === 'MAX_THRESHOLD') {
-        return Math.max(...numericAnswers);
+    if (domain.scoring.method === 'MAX_THRESHOLD') {
+        return { score: Math.max(...numericAnswers), trace };
     }
     
     const rawSum = numericAnswers.reduce((sum, val) => sum + val, 0);
+    trace.rawSum = rawSum;
 
-    if (config.scoringMethod === 'AVERAGE') {
-        return parseFloat((rawSum / numericAnswers.length).toFixed(1));
+    if (domain.scoring.method === 'AVERAGE') {
+        return { score: parseFloat((rawSum / numericAnswers.length).toFixed(1)), trace };
     }
     
     // Default to SUM scoring
-    // Use the intended number of questions for proration, falling back to the number of IDs.
-    const totalQuestions = config.intendedQuestionCount || config.questionIds.length;
+    const totalQuestions = scoredItems.length;
     const answeredQuestions = numericAnswers.length;
 
     // Do not score if less than 75% of questions are answered (for SUM scores)
-    if (answeredQuestions / totalQuestions < 0.75) {
-        return null;
+    if (answeredQuestions / totalQuestions < MIN_COMPLETENESS) {
+        trace.completenessRule = 'not_met';
+        return { score: null, trace };
     }
+    trace.completenessRule = 'met';
 
     // Prorate the score if some questions were missed
     if (answeredQuestions < totalQuestions) {
-        return Math.round((rawSum / answeredQuestions) * totalQuestions);
+        trace.prorated = true;
+        return { score: Math.round((rawSum / answeredQuestions) * totalQuestions), trace };
     }
 
-    return rawSum;
+    return { score: rawSum, trace };
 }
 
-function getInterpretation(score: number | null, intervals: ReferenceInterval[]): string {
-    if (score === null) {
-        return "Incomplete Assessment";
-    }
+interface AdaptiveScoreResult extends ScoreResult {
+    conversion: TScoreConversion | null;
+}
+
+// An adaptively tested domain is scored directly on the T-score metric from the estimate of
+// theta, so it has no raw score; its score is the T-score. Answers are only checked against
+// the item bank on direct submission, so answers to items the bank does not have are
+// skipped here, and a domain whose testing had not stopped is left unscored.
+function calculateAdaptiveScore(
+    instrument: InstrumentDefinition,
+    domain: InstrumentDomain,
+    bank: ItemBank,
+    responses: { [itemId: string]: number },
+): AdaptiveScoreResult {
+    const categories: { [itemId: string]: number } = {};
+    const itemTraces: ItemScoreTrace[] = Object.entries(responses).flatMap(([itemId, rawAnswer]) => {
+        const item = bank.items.find(i => i.id === itemId);
+        if (!item) return [];
+        const scale = getBankItemScale(instrument, bank, item);
+        const category = getResponseCategory(scale, item, rawAnswer);
+        if (category !== null) categories[itemId] = category;
+        return [{
+            itemId,
+            text: item.text,
+            rawAnswer,
+            answerLabel: scale.options.find(o => o.value === rawAnswer)?.label ?? null,
+            mappedValue: category,
+            reversed: !!item.reverse,
+            missing: category === null,
+        }];
+    });
+
+    const { estimate, stopReason } = nextAdaptiveStep(bank, categories);
+    const conversion: TScoreConversion | null = stopReason === null ? null : {
+        tScore: estimate.tScore,
+        standardError: estimate.tScoreStandardError,
+        percentile: tScoreToPercentile(estimate.tScore),
+    };
+    const trace: ScoringTrace = {
+        method: domain.scoring.method,
+        items: itemTraces,
+        answeredCount: Object.keys(categories).length,
+        expectedCount: itemTraces.length,
+        rawSum: null,
+        completenessRule: 'not_applicable',
+        prorated: false,
+        tScoreConversion: null,
+        matchedInterval: null,
+        adaptive: {
+            itemBank: bank.name,
+            source: bank.source,
+            theta: Math.round(estimate.theta * 1000) / 1000,
+            stopReason,
+        },
+    };
+    return { score: conversion?.tScore ?? null, trace, conversion };
+}
+
+export function findMatchingInterval(score: number, intervals: ReferenceInterval[]): ReferenceInterval | null {
     for (const interval of [...intervals].reverse()) {
         if (score >= interval.min) {
             if (interval.max === null || score <= interval.max) {
-                return interval.label;
+                return interval;
             }
         }
     }
     const lowestInterval = intervals[0];
     if (lowestInterval && (lowestInterval.max === null || score <= lowestInterval.max)) {
-      return lowestInterval.label;
+      return lowestInterval;
     }
-    return "Not Classified";
+    return null;
 }
 
-export function generateReportFromJotform(submission: JotformSubmission): IndividualData {
-    const calculatedDomains: Domain[] = domainConfigs.map(config => {
-        const score = calculateScore(config, submission.answers);
-        const interpretation = getInterpretation(score, config.referenceIntervals);
+function getInterpretation(score: number | null, intervals: ReferenceInterval[]): string {
+    if (score === null) {
+        return "Incomplete Assessment";
+    }
+    return findMatchingInterval(score, intervals)?.label ?? "Not Classified";
+}
+
+/**
+ * Scores a submission against the instrument and builds its report.
+ * @param itemBanks The item banks the submission's adaptive answers, if any, were chosen from.
+ */
+export function generateReportFromJotform(
+    submission: JotformSubmission,
+    instrument: InstrumentDefinition = currentInstrument,
+    itemBanks: ItemBank[] = [],
+): IndividualData {
+    const calculatedDomains: Domain[] = instrument.domains.map(config => {
+        const bank = itemBanks.find(b => b.domain === config.name);
+        const adaptiveResponses = submission.adaptiveAnswers?.[config.name];
+        const adaptive = bank && adaptiveResponses ? calculateAdaptiveScore(instrument, config, bank, adaptiveResponses) : null;
+
+        const { score, trace } = adaptive ?? calculateScore(instrument, config, submission.answers);
+        const { tScoreConversion } = config.scoring;
+        // PROMIS domains are interpreted on the T-score metric rather than the raw sum.
+        const conversion: TScoreConversion | null = adaptive ? adaptive.conversion : (tScoreConversion
+            ? convertRawToTScore(tScoreConversion, score)
+            : null);
+        const interpretedScore = tScoreConversion ? conversion?.tScore ?? null : score;
+        const interpretation = getInterpretation(interpretedScore, config.referenceIntervals);
+
+        if (!adaptive) trace.tScoreConversion = conversion ? tScoreConversion ?? null : null;
+        trace.matchedInterval = interpretedScore !== null ? findMatchingInterval(interpretedScore, config.referenceIntervals) : null;
 
         return {
             name: config.name,
             about: config.about,
             aboutLink: config.aboutLink,
             score: score,
+            tScore: conversion?.tScore ?? null,
+            standardError: conversion?.standardError ?? null,
+            percentile: conversion?.percentile ?? null,
             userInterpretation: interpretation,
             result: interpretation,
             referenceIntervals: config.referenceIntervals,
             individualsExperienced: config.individualsExperienced,
             insightsAndSupport: '', // To be filled by AI
+            scoringTrace: trace,
         };
     });
 
     return {
         individualId: submission.submissionId,
+        personId: derivePersonId(submission.email),
         firstName: submission.firstName,
         lastName: submission.lastName,
         email: submission.email,
         assessmentDate: submission.assessmentDate,
+        instrumentVersion: getInstrumentVersionTag(instrument),
         domains: calculatedDomains,
+        patternFlags: evaluatePatternRules(instrument.patternRules ?? [], calculatedDomains),
+        careTier: recommendCareTier(instrument.careTierRules ?? [], calculatedDomains),
+        validityIndicators: assessResponseValidity(
+            instrument, submission.answers, submission.sectionTimings, Object.keys(submission.adaptiveAnswers ?? {}),
+        ),
     };
 }
\ No newline at end of file
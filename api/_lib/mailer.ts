@@ -0,0 +1,67 @@
+// ====================================================================================
+// Outgoing Email
+// ------------------------------------------------------------------------------------
+// The provider is chosen by the MAILER environment variable:
+//   console   logs who the message is for, never its body, which may hold a one-time
+//             code; for local development and CI, and the default in development
+//   resend    sends through the Resend API with RESEND_API_KEY, from MAIL_FROM
+// Anywhere else an unset MAILER is an error, so codes are never silently not sent.
+// ====================================================================================
+
+export interface EmailMessage {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+export interface Mailer {
+    send(message: EmailMessage): Promise<void>;
+}
+
+class ConsoleMailer implements Mailer {
+    async send(message: EmailMessage): Promise<void> {
+        console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n[mail] (body not logged)`);
+    }
+}
+
+class ResendMailer implements Mailer {
+    constructor(private readonly apiKey: string, private readonly from: string) {}
+
+    async send(message: EmailMessage): Promise<void> {
+        const response = await fetch('https://api.resend.com/emails', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${this.apiKey}`,
+            },
+            body: JSON.stringify({ from: this.from, to: [message.to], subject: message.subject, text: message.text }),
+        });
+        if (!response.ok) {
+            throw new Error(`Resend rejected the email (${response.status}): ${await response.text()}`);
+        }
+    }
+}
+
+/**
+ * Returns the mailer for the configured provider.
+ * @throws Error if the provider is unknown or missing its configuration, or if none is
+ * configured outside development.
+ */
+export function getMailer(): Mailer {
+    const isDevelopment = process.env.VERCEL_ENV === 'development' || process.env.NODE_ENV === 'development';
+    const provider = process.env.MAILER || (isDevelopment ? 'console' : undefined);
+    switch (provider) {
+        case undefined:
+            throw new Error('MAILER is not defined in environment variables. Use "console" or "resend".');
+        case 'console':
+            return new ConsoleMailer();
+        case 'resend': {
+            const apiKey = process.env.RESEND_API_KEY;
+            const from = process.env.MAIL_FROM;
+            if (!apiKey || !from) throw new Error('RESEND_API_KEY and MAIL_FROM must be set to send email through Resend.');
+            return new ResendMailer(apiKey, from);
+        }
+        default:
+            throw new Error(`Unknown MAILER "${provider}". Use "console" or "resend".`);
+    }
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { evaluatePatternRules, withClientPatternFlags } from './patterns.js';
+import { currentInstrument } from './instruments/index.js';
+import { buildDomain, buildReport } from '../_tests/reports.js';
+
+const rules = currentInstrument.patternRules!;
+
+describe('evaluatePatternRules', () => {
+    it('flags a rule only when every condition holds', () => {
+        const flags = evaluatePatternRules(rules, [buildDomain('Depression', 'Moderate'), buildDomain('Mania', 'High Probability')]);
+        expect(flags.map(flag => flag.id)).toEqual(['bipolar-spectrum']);
+        expect(flags[0].domainNames).toEqual(['Depression', 'Mania']);
+        expect(flags[0]).not.toHaveProperty('clientMessage');
+
+        expect(evaluatePatternRules(rules, [buildDomain('Depression', 'Moderate'), buildDomain('Mania', 'Low Probability')])).toEqual([]);
+    });
+
+    it('keeps the message for the person on rules that have one', () => {
+        const [flag] = evaluatePatternRules(rules, [buildDomain('Depression', 'Severe'), buildDomain('Sleep Problems', 'Moderate')]);
+        expect(flag.id).toBe('depression-sleep');
+        expect(flag.clientMessage).toBeDefined();
+    });
+});
+
+describe('withClientPatternFlags', () => {
+    it('keeps only the flags written for the person', () => {
+        const domains = [buildDomain('Depression', 'Severe'), buildDomain('Mania', 'High Probability'), buildDomain('Sleep Problems', 'Moderate')];
+        const report = { ...buildReport('report-1'), patternFlags: evaluatePatternRules(rules, domains) };
+
+        expect(report.patternFlags.map(flag => flag.id)).toEqual(expect.arrayContaining(['bipolar-spectrum', 'depression-sleep']));
+        expect(withClientPatternFlags(report).patternFlags!.map(flag => flag.id)).toEqual(['depression-sleep']);
+    });
+});
@@ -0,0 +1,41 @@
+import type { PatternRule } from './instrument.js';
+import type { Domain, IndividualData, PatternFlag } from './types.js';
+
+// ====================================================================================
+// Cross-Domain Pattern Flags
+// ------------------------------------------------------------------------------------
+// Some combinations of results carry clinical meaning that no single domain's intervals
+// show, such as elevated depression with a positive mania screen. The combinations are
+// pattern rules in the instrument definition; every rule whose conditions all hold on
+// the scored domains becomes a flag on the report. Flags are for clinicians unless the
+// rule has a message written for the person.
+// ====================================================================================
+
+/**
+ * Runs pattern rules over a report's scored domains.
+ * @param rules The instrument's pattern rules.
+ * @param domains The scored domains of one report.
+ * @returns A flag for every rule that matched, in rule order.
+ */
+export function evaluatePatternRules(rules: PatternRule[], domains: Domain[]): PatternFlag[] {
+    return rules
+        .filter(rule => rule.when.every(condition => {
+            const domain = domains.find(d => d.name === condition.domain);
+            return !!domain && domain.score !== null && condition.interpretations.includes(domain.userInterpretation);
+        }))
+        .map(rule => ({
+            id: rule.id,
+            name: rule.name,
+            rationale: rule.rationale,
+            domainNames: rule.when.map(condition => condition.domain),
+            ...(rule.clientMessage ? { clientMessage: rule.clientMessage } : {}),
+        }));
+}
+
+/**
+ * Returns the report as its owner may see it, with only the flags written for them.
+ */
+export const withClientPatternFlags = (report: IndividualData): IndividualData => {
+    if (!report.patternFlags) return report;
+    return { ...report, patternFlags: report.patternFlags.filter(flag => flag.clientMessage) };
+};
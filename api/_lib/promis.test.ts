@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { convertRawToTScore, promisTScoreIntervals, tScoreToPercentile } from './promis.js';
+import { findMatchingInterval } from './logic.js';
+
+describe('convertRawToTScore', () => {
+    it('looks up the T-score and standard error for a raw sum', () => {
+        expect(convertRawToTScore('DEPRESSION_8A', 8)).toEqual({ tScore: 37.1, standardError: 5.5, percentile: 10 });
+        expect(convertRawToTScore('DEPRESSION_8A', 10)?.tScore).toBe(46.0);
+    });
+
+    it('returns null for a missing raw score or one outside the form\'s range', () => {
+        expect(convertRawToTScore('DEPRESSION_8A', null)).toBeNull();
+        expect(convertRawToTScore('DEPRESSION_8A', 7)).toBeNull();
+        expect(convertRawToTScore('DEPRESSION_8A', 41)).toBeNull();
+    });
+
+    it('covers every raw sum of each short form', () => {
+        const ranges = { DEPRESSION_8A: [8, 40], ANGER_5A: [5, 25], ANXIETY_7A: [7, 35], SLEEP_DISTURBANCE_8A: [8, 40] } as const;
+        for (const [form, [min, max]] of Object.entries(ranges)) {
+            for (let raw = min; raw <= max; raw++) {
+                expect(convertRawToTScore(form as keyof typeof ranges, raw), `${form} raw ${raw}`).not.toBeNull();
+            }
+        }
+    });
+});
+
+describe('tScoreToPercentile', () => {
+    it('places the population mean at the 50th percentile', () => {
+        expect(tScoreToPercentile(50)).toBe(50);
+        expect(tScoreToPercentile(60)).toBe(84);
+        expect(tScoreToPercentile(30)).toBe(2);
+    });
+});
+
+describe('promisTScoreIntervals', () => {
+    it('classifies every T-score an estimate can reach, from 10 to 90', () => {
+        const label = (tScore: number) => findMatchingInterval(tScore, promisTScoreIntervals)?.label;
+
+        expect(label(10)).toBe('None to slight');
+        expect(label(54.9)).toBe('None to slight');
+        expect(label(55)).toBe('Mild');
+        expect(label(69.9)).toBe('Moderate');
+        expect(label(70)).toBe('Severe');
+        expect(label(90)).toBe('Severe');
+    });
+});
@@ -0,0 +1,117 @@
+import type { ReferenceInterval } from './types.js';
+
+// ====================================================================================
+// PROMIS Raw Score to T-Score Conversion
+// ------------------------------------------------------------------------------------
+// Official raw-to-T conversion tables for the PROMIS short forms used by the DSM-5
+// Level 2 measures. T-scores are standardised to a mean of 50 and a standard deviation
+// of 10 in the US general population; each entry also carries the standard error of
+// the T-score estimate.
+// ====================================================================================
+
+export type PromisShortForm = 'DEPRESSION_8A' | 'ANGER_5A' | 'ANXIETY_7A' | 'SLEEP_DISTURBANCE_8A';
+
+export interface TScoreEntry {
+    tScore: number;
+    standardError: number;
+}
+
+export interface TScoreConversion extends TScoreEntry {
+    percentile: number;
+}
+
+interface ConversionTable {
+    minRaw: number;
+    // Indexed by (raw score - minRaw): [T-score, standard error]
+    entries: [number, number][];
+}
+
+const conversionTables: Record<PromisShortForm, ConversionTable> = {
+    // PROMIS Emotional Distress–Depression–Short Form 8a (raw 8-40)
+    DEPRESSION_8A: {
+        minRaw: 8,
+        entries: [
+            [37.1, 5.5], [43.2, 3.4], [46.0, 2.7], [48.1, 2.4], [49.8, 2.2], [51.2, 2.1], [52.6, 2.0], [53.8, 1.9],
+            [55.1, 1.9], [56.1, 1.9], [57.3, 1.9], [58.4, 1.9], [59.4, 1.9], [60.4, 1.9], [61.5, 1.9], [62.5, 1.9],
+            [63.5, 1.9], [64.4, 1.9], [65.4, 1.9], [66.4, 1.9], [67.4, 1.9], [68.3, 1.9], [69.3, 1.9], [70.3, 1.9],
+            [71.2, 1.9], [72.2, 1.9], [73.2, 1.9], [74.2, 1.9], [75.3, 1.9], [76.4, 2.0], [77.7, 2.2], [79.4, 2.6],
+            [81.1, 3.3],
+        ],
+    },
+    // PROMIS Emotional Distress–Anger–Short Form 5a (raw 5-25)
+    ANGER_5A: {
+        minRaw: 5,
+        entries: [
+            [32.9, 5.8], [38.1, 4.1], [41.3, 3.6], [44.0, 3.2], [46.3, 3.0], [48.4, 2.8], [50.6, 2.7], [52.7, 2.7],
+            [54.7, 2.7], [56.8, 2.6], [58.8, 2.6], [60.8, 2.6], [62.9, 2.6], [65.0, 2.6], [67.2, 2.6], [69.4, 2.7],
+            [71.7, 2.7], [74.1, 2.8], [76.8, 3.1], [79.7, 3.5], [83.3, 4.3],
+        ],
+    },
+    // PROMIS Emotional Distress–Anxiety–Short Form 7a (raw 7-35)
+    ANXIETY_7A: {
+        minRaw: 7,
+        entries: [
+            [36.3, 5.5], [42.1, 3.4], [44.7, 2.9], [46.7, 2.6], [48.4, 2.4], [49.9, 2.3], [51.3, 2.3], [52.6, 2.2],
+            [53.8, 2.2], [55.1, 2.2], [56.3, 2.2], [57.6, 2.2], [58.8, 2.2], [60.0, 2.2], [61.3, 2.2], [62.6, 2.2],
+            [63.8, 2.2], [65.1, 2.2], [66.4, 2.2], [67.7, 2.2], [68.9, 2.2], [70.2, 2.2], [71.5, 2.2], [72.9, 2.2],
+            [74.3, 2.2], [75.8, 2.3], [77.4, 2.4], [79.5, 2.7], [82.7, 3.5],
+        ],
+    },
+    // PROMIS Sleep Disturbance–Short Form 8a (raw 8-40)
+    SLEEP_DISTURBANCE_8A: {
+        minRaw: 8,
+        entries: [
+            [28.9, 4.8], [33.1, 3.7], [35.9, 3.3], [38.0, 3.0], [39.8, 2.8], [41.4, 2.7], [42.9, 2.6], [44.2, 2.6],
+            [45.5, 2.5], [46.7, 2.5], [47.9, 2.5], [49.0, 2.5], [50.1, 2.4], [51.2, 2.4], [52.2, 2.4], [53.3, 2.4],
+            [54.3, 2.4], [55.3, 2.4], [56.3, 2.4], [57.3, 2.4], [58.3, 2.4], [59.4, 2.4], [60.4, 2.4], [61.5, 2.4],
+            [62.6, 2.4], [63.7, 2.4], [64.9, 2.4], [66.1, 2.5], [67.5, 2.5], [69.0, 2.6], [70.8, 2.8], [73.0, 3.2],
+            [76.5, 4.0],
+        ],
+    },
+};
+
+// DSM-5 severity cutoffs on the PROMIS T-score metric, shared by all four short forms.
+// The outer bands cover every T-score an estimate can reach, including the adaptive
+// estimate's full range of 10 to 90.
+export const promisTScoreIntervals: ReferenceInterval[] = [
+    { label: 'None to slight', min: 10, max: 54.9, color: 'bg-green-500' }, // T < 55
+    { label: 'Mild', min: 55, max: 59.9, color: 'bg-yellow-500' }, // T 55-59.9
+    { label: 'Moderate', min: 60, max: 69.9, color: 'bg-orange-500' }, // T 60-69.9
+    { label: 'Severe', min: 70, max: null, color: 'bg-red-500', flag: 'severe' } // T >= 70
+];
+
+/**
+ * Approximates the standard normal cumulative distribution function
+ * (Abramowitz & Stegun 26.2.17, absolute error < 7.5e-8).
+ */
+const normalCdf = (z: number): number => {
+    const t = 1 / (1 + 0.2316419 * Math.abs(z));
+    const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+    const tail = density * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+    return z >= 0 ? 1 - tail : tail;
+};
+
+/**
+ * Converts a T-score to the population percentile it corresponds to.
+ * @param tScore A T-score (mean 50, SD 10).
+ * @returns The percentile, rounded to a whole number between 0 and 100.
+ */
+export const tScoreToPercentile = (tScore: number): number => {
+    return Math.round(normalCdf((tScore - 50) / 10) * 100);
+};
+
+/**
+ * Looks up the official T-score and standard error for a PROMIS short-form raw sum.
+ * @param form The short form the raw score was computed from.
+ * @param rawScore The (prorated and rounded) raw sum of the short-form items.
+ * @returns The conversion, or null if the raw score falls outside the form's range.
+ */
+export const convertRawToTScore = (form: PromisShortForm, rawScore: number | null): TScoreConversion | null => {
+    if (rawScore === null) return null;
+    const table = conversionTables[form];
+    const entry = table.entries[Math.round(rawScore) - table.minRaw];
+    if (!entry) return null;
+
+    const [tScore, standardError] = entry;
+    return { tScore, standardError, percentile: tScoreToPercentile(tScore) };
+};
@@ -0,0 +1,38 @@
+import type { VercelRequest } from '@vercel/node';
+import { getReportRepository } from './repository/index.js';
+
+// ====================================================================================
+// Rate Limits
+// ------------------------------------------------------------------------------------
+// Limits how often an action may be taken per key, e.g. per client IP or per email
+// recipient. Attempts are counted in the report repository, so every serverless instance
+// sees the same counts.
+// ====================================================================================
+
+export interface RateLimit {
+    max: number; // Attempts allowed within the window
+    windowMs: number;
+}
+
+/**
+ * Records an attempt under a key and checks it against the limit.
+ * @returns True if the attempt is over the limit and should be refused.
+ */
+export async function isRateLimited(key: string, limit: RateLimit): Promise<boolean> {
+    const now = Date.now();
+    const attempts = await getReportRepository().recordRateLimitHit(
+        key,
+        new Date(now).toISOString(),
+        new Date(now - limit.windowMs).toISOString(),
+    );
+    return attempts > limit.max;
+}
+
+/**
+ * The address a request came from, as reported by the Vercel edge in X-Forwarded-For.
+ */
+export function getClientIp(request: VercelRequest): string {
+    const forwarded = request.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+    return first || request.socket?.remoteAddress || 'unknown';
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { calculateRci, getReliableChanges } from './reliableChange.js';
+import { promisTScoreIntervals } from './promis.js';
+import type { HistoryEntry, ReferenceInterval } from './types.js';
+
+const reliability = { coefficient: 0.95, standardDeviation: 10, source: 'Test' };
+
+const entry = (submissionId: string, tScore: number | null, referenceIntervals: ReferenceInterval[] = promisTScoreIntervals): HistoryEntry => ({
+    submissionId,
+    assessmentDate: '2026-10-19',
+    domains: [{ name: 'Depression', score: null, tScore, userInterpretation: '', referenceIntervals }],
+});
+
+describe('calculateRci', () => {
+    it('divides the change by the standard error of the difference', () => {
+        // SEM = 10 * sqrt(0.05), S_diff = sqrt(2) * SEM = sqrt(10)
+        expect(calculateRci(50, 60, reliability)).toBeCloseTo(10 / Math.sqrt(10), 10);
+        expect(calculateRci(60, 50, reliability)).toBeCloseTo(-10 / Math.sqrt(10), 10);
+        expect(calculateRci(55, 55, reliability)).toBe(0);
+    });
+});
+
+describe('getReliableChanges', () => {
+    it('reports a reliable worsening that crosses into another interval', () => {
+        expect(getReliableChanges(entry('previous', 52), entry('current', 61))).toEqual([{
+            domainName: 'Depression',
+            previousSubmissionId: 'previous',
+            previousAssessmentDate: '2026-10-19',
+            previousScore: 52,
+            currentScore: 61,
+            difference: 9,
+            rci: 2.85,
+            status: 'reliably_worsened',
+            previousInterval: 'None to slight',
+            currentInterval: 'Moderate',
+            crossedThreshold: true,
+        }]);
+    });
+
+    it('reports a change within measurement error as no reliable change', () => {
+        const [change] = getReliableChanges(entry('previous', 62), entry('current', 58));
+        expect(change.status).toBe('no_reliable_change');
+        expect(change.crossedThreshold).toBe(true);
+    });
+
+    it('skips domains that are unscored or were interpreted on different intervals', () => {
+        expect(getReliableChanges(entry('previous', null), entry('current', 61))).toEqual([]);
+        expect(getReliableChanges(entry('previous', 52, promisTScoreIntervals.slice(1)), entry('current', 61))).toEqual([]);
+    });
+});
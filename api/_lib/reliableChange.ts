@@ -0,0 +1,79 @@
+import type { HistoryDomainSummary, HistoryEntry, ReliableChange, ReliableChangeStatus } from './types.js';
+import type { InstrumentDefinition, ScoreReliability } from './instrument.js';
+import { currentInstrument } from './instruments/index.js';
+import { findMatchingInterval } from './logic.js';
+
+// ====================================================================================
+// Reliable Change Index
+// ------------------------------------------------------------------------------------
+// Jacobson & Truax (1991): a change between two assessments is only reliable if it is
+// larger than the difference that measurement error alone would produce 95% of the time.
+//   SEM     = SD * sqrt(1 - r)
+//   S_diff  = sqrt(2 * SEM^2)
+//   RCI     = (current - previous) / S_diff
+// Every domain in the report measures symptoms, so a negative RCI is an improvement.
+// ====================================================================================
+
+// |RCI| above this is unlikely (p < .05) to be measurement error alone.
+const RELIABLE_CHANGE_THRESHOLD = 1.96;
+
+const getIntervalScore = (domain: HistoryDomainSummary): number | null => domain.tScore ?? domain.score;
+
+/**
+ * Calculates the Reliable Change Index between two scores of the same measure.
+ * @param previousScore The earlier score.
+ * @param currentScore The later score.
+ * @param reliability The measure's reliability coefficient and population SD.
+ * @returns The RCI; positive when the score went up.
+ */
+export const calculateRci = (previousScore: number, currentScore: number, reliability: ScoreReliability): number => {
+    const standardErrorOfMeasurement = reliability.standardDeviation * Math.sqrt(1 - reliability.coefficient);
+    const standardErrorOfDifference = Math.sqrt(2 * standardErrorOfMeasurement ** 2);
+    return (currentScore - previousScore) / standardErrorOfDifference;
+};
+
+const getStatus = (rci: number): ReliableChangeStatus => {
+    if (rci <= -RELIABLE_CHANGE_THRESHOLD) return 'reliably_improved';
+    if (rci >= RELIABLE_CHANGE_THRESHOLD) return 'reliably_worsened';
+    return 'no_reliable_change';
+};
+
+/**
+ * Compares each domain of an assessment with the same domain of an earlier one.
+ * Domains are skipped when either score is missing, when the instrument gives no reliability
+ * for them, or when the two reports used different reference intervals (and so different scales).
+ * @param previous The person's earlier assessment.
+ * @param current The assessment being reported on.
+ * @param instrument The instrument the reliability figures are read from.
+ * @returns One entry per comparable domain.
+ */
+export function getReliableChanges(previous: HistoryEntry, current: HistoryEntry, instrument: InstrumentDefinition = currentInstrument): ReliableChange[] {
+    return current.domains.flatMap(domain => {
+        const reliability = instrument.domains.find(d => d.name === domain.name)?.scoring.reliability;
+        const earlier = previous.domains.find(d => d.name === domain.name);
+        if (!reliability || !earlier) return [];
+        if (JSON.stringify(earlier.referenceIntervals) !== JSON.stringify(domain.referenceIntervals)) return [];
+
+        const previousScore = getIntervalScore(earlier);
+        const currentScore = getIntervalScore(domain);
+        if (previousScore === null || currentScore === null) return [];
+
+        const rci = calculateRci(previousScore, currentScore, reliability);
+        const previousInterval = findMatchingInterval(previousScore, domain.referenceIntervals)?.label ?? null;
+        const currentInterval = findMatchingInterval(currentScore, domain.referenceIntervals)?.label ?? null;
+
+        return [{
+            domainName: domain.name,
+            previousSubmissionId: previous.submissionId,
+            previousAssessmentDate: previous.assessmentDate,
+            previousScore,
+            currentScore,
+            difference: Math.round((currentScore - previousScore) * 10) / 10,
+            rci: Math.round(rci * 100) / 100,
+            status: getStatus(rci),
+            previousInterval,
+            currentInterval,
+            crossedThreshold: previousInterval !== currentInterval,
+        }];
+    });
+}
@@ -0,0 +1,21 @@
+import { getReportRepository } from './repository/index.js';
+import type { IndividualData } from './types.js';
+
+// The original report is version 1. Every amendment is stored as a new version, so signed
+// versions are never overwritten.
+
+/**
+ * Loads a report at a given version, or its latest version.
+ * @param submissionId The report's submission ID.
+ * @param version The version to load; the latest if omitted.
+ * @returns The report, or null if the report or version does not exist.
+ * @throws Error if the report store cannot be queried.
+ */
+export async function loadReport(submissionId: string, version?: number): Promise<IndividualData | null> {
+    const repository = getReportRepository();
+    if (version === 1) return repository.findById(submissionId);
+
+    const amended = await repository.findVersion(submissionId, version);
+    if (amended || version !== undefined) return amended;
+    return repository.findById(submissionId);
+}
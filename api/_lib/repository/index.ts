@@ -0,0 +1,50 @@
+import type { ReportRepository } from './repository.js';
+import { SupabaseReportRepository } from './supabase.js';
+import { FileReportRepository, InMemoryReportRepository } from './memory.js';
+
+// ====================================================================================
+// Report Storage
+// ------------------------------------------------------------------------------------
+// All report reads and writes go through a ReportRepository. The backend is chosen by
+// the STORAGE_BACKEND environment variable:
+//   supabase (default)  the tables created by supabase/migrations
+//   memory              process memory; for CI and tests
+//   file                a JSON file at LOCAL_STORE_PATH (default .data/reports.json),
+//                       so every local API route sees the same reports
+// ====================================================================================
+
+export { DuplicateReportError } from './repository.js';
+export type { ReportRepository } from './repository.js';
+
+let repository: ReportRepository | null = null;
+
+/**
+ * Returns the repository for the configured storage backend.
+ * @throws Error if STORAGE_BACKEND names an unknown backend.
+ */
+export const getReportRepository = (): ReportRepository => {
+    if (repository) return repository;
+
+    const backend = process.env.STORAGE_BACKEND || 'supabase';
+    switch (backend) {
+        case 'supabase':
+            repository = new SupabaseReportRepository();
+            break;
+        case 'memory':
+            repository = new InMemoryReportRepository();
+            break;
+        case 'file':
+            repository = new FileReportRepository(process.env.LOCAL_STORE_PATH || '.data/reports.json');
+            break;
+        default:
+            throw new Error(`Unknown STORAGE_BACKEND "${backend}". Use "supabase", "memory" or "file".`);
+    }
+    return repository;
+};
+
+/**
+ * Replaces the repository used by the API routes, e.g. with a fresh in-memory one in tests.
+ */
+export const setReportRepository = (replacement: ReportRepository | null): void => {
+    repository = replacement;
+};
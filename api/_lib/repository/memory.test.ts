@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { InMemoryReportRepository } from './memory.js';
+import { applyTriageAction } from '../triage.js';
+import { buildReport, depressionAnswers } from '../../_tests/reports.js';
+
+describe('InMemoryReportRepository.delete', () => {
+    it('removes the report with its triage case and audit trail, and leaves other reports alone', async () => {
+        const repository = new InMemoryReportRepository();
+        for (const submissionId of ['report-1', 'report-2']) {
+            await repository.save(buildReport(submissionId, depressionAnswers(5)));
+            const { triageCase, auditEntry } = applyTriageAction(null, submissionId, 'acknowledge', 'dr.mehta', null, '');
+            await repository.saveTriageAction(triageCase, auditEntry);
+        }
+
+        expect(await repository.delete('report-1')).toBe(true);
+
+        expect(await repository.findById('report-1')).toBeNull();
+        expect(await repository.findTriageCase('report-1')).toBeNull();
+        expect((await repository.listTriageAudit()).map(entry => entry.submissionId)).toEqual(['report-2']);
+        expect(await repository.findTriageCase('report-2')).not.toBeNull();
+        expect(await repository.delete('report-1')).toBe(false);
+    });
+});
@@ -0,0 +1,273 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { IndividualData, InsightSet, Reviewer, RiskEvent, TriageAuditEntry, TriageCase } from '../types.js';
+import type { AccessCode } from '../accessCodes.js';
+import type { StoredDraft } from '../drafts.js';
+import { DuplicateReportError, ReportRepository } from './repository.js';
+
+interface StoredReport {
+    original: IndividualData;
+    amendments: IndividualData[]; // Versions 2 and up, in order
+    riskEvents: RiskEvent[];
+    insights?: InsightSet[]; // Oldest first
+    accessRevokedBefore?: string;
+    emailVerifiedAt?: string;
+}
+
+// Reports are copied on the way in and out, as a database would, so callers can never
+// change a stored (possibly signed) report by mutating an object they hold.
+const copy = (report: IndividualData): IndividualData => JSON.parse(JSON.stringify(report));
+
+/**
+ * Keeps reports in process memory, in insertion order. Used in CI and tests.
+ */
+export class InMemoryReportRepository implements ReportRepository {
+    protected reports = new Map<string, StoredReport>();
+    protected accessCodes = new Map<string, AccessCode>();
+    protected drafts = new Map<string, StoredDraft>();
+    protected rateLimitHits = new Map<string, string[]>();
+    protected triageCases = new Map<string, TriageCase>();
+    protected triageAudit: TriageAuditEntry[] = [];
+    protected reviewers = new Map<string, Reviewer>();
+
+    // Called after every write; overridden to persist the store.
+    protected async persist(): Promise<void> {}
+
+    async save(report: IndividualData): Promise<void> {
+        if (this.reports.has(report.individualId)) {
+            throw new DuplicateReportError(`A report for submission ID "${report.individualId}" already exists.`);
+        }
+        this.reports.set(report.individualId, { original: copy(report), amendments: [], riskEvents: [] });
+        await this.persist();
+    }
+
+    async findById(submissionId: string): Promise<IndividualData | null> {
+        const stored = this.reports.get(submissionId);
+        return stored ? copy(stored.original) : null;
+    }
+
+    async listByPerson(personId: string): Promise<IndividualData[]> {
+        return (await this.list()).filter(report => report.personId === personId);
+    }
+
+    async listVerifiedByPerson(personId: string): Promise<IndividualData[]> {
+        return [...this.reports.values()]
+            .filter(stored => stored.emailVerifiedAt && stored.original.personId === personId)
+            .map(stored => copy(stored.original));
+    }
+
+    async list(): Promise<IndividualData[]> {
+        return [...this.reports.values()].map(stored => copy(stored.original));
+    }
+
+    async delete(submissionId: string): Promise<boolean> {
+        const deleted = this.reports.delete(submissionId);
+        if (!deleted) return false;
+        this.triageCases.delete(submissionId);
+        this.triageAudit = this.triageAudit.filter(entry => entry.submissionId !== submissionId);
+        await this.persist();
+        return true;
+    }
+
+    async saveSignOff(signed: IndividualData): Promise<boolean> {
+        const stored = this.reports.get(signed.individualId);
+        if (!stored || stored.original.signOff) return false;
+        stored.original = copy(signed);
+        await this.persist();
+        return true;
+    }
+
+    async saveVersion(report: IndividualData): Promise<void> {
+        const stored = this.reports.get(report.individualId);
+        if (!stored) throw new Error(`Report "${report.individualId}" does not exist.`);
+        if (stored.amendments.some(amendment => amendment.version === report.version)) {
+            throw new DuplicateReportError(`Version ${report.version} of report "${report.individualId}" already exists.`);
+        }
+        stored.amendments.push(copy(report));
+        await this.persist();
+    }
+
+    async findVersion(submissionId: string, version?: number): Promise<IndividualData | null> {
+        const amendments = this.reports.get(submissionId)?.amendments ?? [];
+        const found = version === undefined
+            ? amendments[amendments.length - 1]
+            : amendments.find(amendment => amendment.version === version);
+        return found ? copy(found) : null;
+    }
+
+    async saveRiskEvent(event: RiskEvent): Promise<void> {
+        const stored = this.reports.get(event.submissionId);
+        if (!stored) throw new Error(`Report "${event.submissionId}" does not exist.`);
+        stored.riskEvents.push({ ...event });
+        await this.persist();
+    }
+
+    async findInsights(submissionId: string): Promise<InsightSet[]> {
+        return JSON.parse(JSON.stringify(this.reports.get(submissionId)?.insights ?? []));
+    }
+
+    async saveInsights(submissionId: string, set: InsightSet): Promise<boolean> {
+        const stored = this.reports.get(submissionId);
+        const insights = stored?.insights ?? [];
+        if (!stored || set.version !== insights.length + 1) return false;
+        stored.insights = [...insights, JSON.parse(JSON.stringify(set))];
+        await this.persist();
+        return true;
+    }
+
+    async revokeAccess(submissionId: string, revokedAt: string): Promise<void> {
+        const stored = this.reports.get(submissionId);
+        if (!stored) throw new Error(`Report "${submissionId}" does not exist.`);
+        stored.accessRevokedBefore = revokedAt;
+        await this.persist();
+    }
+
+    async getAccessRevokedBefore(submissionId: string): Promise<string | null> {
+        return this.reports.get(submissionId)?.accessRevokedBefore ?? null;
+    }
+
+    async markEmailVerified(submissionId: string, verifiedAt: string): Promise<void> {
+        const stored = this.reports.get(submissionId);
+        if (!stored) throw new Error(`Report "${submissionId}" does not exist.`);
+        stored.emailVerifiedAt ??= verifiedAt;
+        await this.persist();
+    }
+
+    async saveAccessCode(code: AccessCode): Promise<void> {
+        this.accessCodes.set(code.personId, { ...code });
+        await this.persist();
+    }
+
+    async findAccessCode(personId: string): Promise<AccessCode | null> {
+        const code = this.accessCodes.get(personId);
+        return code ? { ...code } : null;
+    }
+
+    async deleteAccessCode(personId: string): Promise<void> {
+        if (this.accessCodes.delete(personId)) await this.persist();
+    }
+
+    async saveDraft(draft: StoredDraft): Promise<void> {
+        this.drafts.set(draft.codeHash, JSON.parse(JSON.stringify(draft)));
+        await this.persist();
+    }
+
+    async findDraft(codeHash: string): Promise<StoredDraft | null> {
+        const draft = this.drafts.get(codeHash);
+        return draft ? JSON.parse(JSON.stringify(draft)) : null;
+    }
+
+    async deleteDraft(codeHash: string): Promise<void> {
+        if (this.drafts.delete(codeHash)) await this.persist();
+    }
+
+    async listTriageCases(): Promise<TriageCase[]> {
+        return [...this.triageCases.values()].map(triageCase => ({ ...triageCase }));
+    }
+
+    async findTriageCase(submissionId: string): Promise<TriageCase | null> {
+        const triageCase = this.triageCases.get(submissionId);
+        return triageCase ? { ...triageCase } : null;
+    }
+
+    async listTriageAudit(): Promise<TriageAuditEntry[]> {
+        return this.triageAudit.map(entry => ({ ...entry }));
+    }
+
+    async saveTriageAction(triageCase: TriageCase, auditEntry: TriageAuditEntry): Promise<void> {
+        this.triageCases.set(triageCase.submissionId, { ...triageCase });
+        this.triageAudit.push({ ...auditEntry });
+        await this.persist();
+    }
+
+    async findReviewer(name: string): Promise<Reviewer | null> {
+        const reviewer = this.reviewers.get(name);
+        return reviewer ? { ...reviewer } : null;
+    }
+
+    async saveReviewer(reviewer: Reviewer): Promise<void> {
+        this.reviewers.set(reviewer.name, { ...reviewer });
+        await this.persist();
+    }
+
+    async recordRateLimitHit(key: string, at: string, since: string): Promise<number> {
+        const hits = [...(this.rateLimitHits.get(key) ?? []).filter(hit => hit >= since), at];
+        this.rateLimitHits.set(key, hits);
+        await this.persist();
+        return hits.length;
+    }
+}
+
+/**
+ * An in-memory store that is read from and written back to a JSON file, so that separate
+ * API route processes on a developer laptop share the same reports.
+ */
+export class FileReportRepository extends InMemoryReportRepository {
+    constructor(private readonly path: string) {
+        super();
+    }
+
+    private load() {
+        const store: {
+            reports: [string, StoredReport][];
+            accessCodes: [string, AccessCode][];
+            drafts?: [string, StoredDraft][];
+            rateLimitHits?: [string, string[]][];
+            triageCases?: [string, TriageCase][];
+            triageAudit?: TriageAuditEntry[];
+            reviewers?: [string, Reviewer][];
+        } = existsSync(this.path)
+            ? JSON.parse(readFileSync(this.path, 'utf8'))
+            : { reports: [], accessCodes: [], drafts: [], rateLimitHits: [], triageCases: [], triageAudit: [], reviewers: [] };
+        this.reports = new Map(store.reports);
+        this.accessCodes = new Map(store.accessCodes);
+        this.drafts = new Map(store.drafts ?? []); // Absent in files written before drafts existed
+        this.rateLimitHits = new Map(store.rateLimitHits ?? []); // Likewise before rate limits existed
+        this.triageCases = new Map(store.triageCases ?? []); // And before triage was kept in this store
+        this.triageAudit = store.triageAudit ?? [];
+        this.reviewers = new Map(store.reviewers ?? []);
+    }
+
+    protected async persist(): Promise<void> {
+        mkdirSync(dirname(this.path), { recursive: true });
+        const store = {
+            reports: [...this.reports.entries()],
+            accessCodes: [...this.accessCodes.entries()],
+            drafts: [...this.drafts.entries()],
+            rateLimitHits: [...this.rateLimitHits.entries()],
+            triageCases: [...this.triageCases.entries()],
+            triageAudit: this.triageAudit,
+            reviewers: [...this.reviewers.entries()],
+        };
+        writeFileSync(this.path, JSON.stringify(store, null, 2));
+    }
+
+    // Reload before every operation so writes from other processes are seen.
+    async save(report: IndividualData) { this.load(); return super.save(report); }
+    async findById(submissionId: string) { this.load(); return super.findById(submissionId); }
+    async listVerifiedByPerson(personId: string) { this.load(); return super.listVerifiedByPerson(personId); }
+    async list() { this.load(); return super.list(); }
+    async delete(submissionId: string) { this.load(); return super.delete(submissionId); }
+    async saveSignOff(signed: IndividualData) { this.load(); return super.saveSignOff(signed); }
+    async saveVersion(report: IndividualData) { this.load(); return super.saveVersion(report); }
+    async findVersion(submissionId: string, version?: number) { this.load(); return super.findVersion(submissionId, version); }
+    async saveRiskEvent(event: RiskEvent) { this.load(); return super.saveRiskEvent(event); }
+    async findInsights(submissionId: string) { this.load(); return super.findInsights(submissionId); }
+    async saveInsights(submissionId: string, set: InsightSet) { this.load(); return super.saveInsights(submissionId, set); }
+    async revokeAccess(submissionId: string, revokedAt: string) { this.load(); return super.revokeAccess(submissionId, revokedAt); }
+    async getAccessRevokedBefore(submissionId: string) { this.load(); return super.getAccessRevokedBefore(submissionId); }
+    async markEmailVerified(submissionId: string, verifiedAt: string) { this.load(); return super.markEmailVerified(submissionId, verifiedAt); }
+    async saveAccessCode(code: AccessCode) { this.load(); return super.saveAccessCode(code); }
+    async findAccessCode(personId: string) { this.load(); return super.findAccessCode(personId); }
+    async deleteAccessCode(personId: string) { this.load(); return super.deleteAccessCode(personId); }
+    async saveDraft(draft: StoredDraft) { this.load(); return super.saveDraft(draft); }
+    async findDraft(codeHash: string) { this.load(); return super.findDraft(codeHash); }
+    async deleteDraft(codeHash: string) { this.load(); return super.deleteDraft(codeHash); }
+    async listTriageCases() { this.load(); return super.listTriageCases(); }
+    async findTriageCase(submissionId: string) { this.load(); return super.findTriageCase(submissionId); }
+    async listTriageAudit() { this.load(); return super.listTriageAudit(); }
+    async saveTriageAction(triageCase: TriageCase, auditEntry: TriageAuditEntry) { this.load(); return super.saveTriageAction(triageCase, auditEntry); }
+    async findReviewer(name: string) { this.load(); return super.findReviewer(name); }
+    async saveReviewer(reviewer: Reviewer) { this.load(); return super.saveReviewer(reviewer); }
+    async recordRateLimitHit(key: string, at: string, since: string) { this.load(); return super.recordRateLimitHit(key, at, since); }
+}
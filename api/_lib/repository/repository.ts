@@ -0,0 +1,83 @@
+import type { IndividualData, InsightSet, Reviewer, RiskEvent, TriageAuditEntry, TriageCase } from '../types.js';
+import type { AccessCode } from '../accessCodes.js';
+import type { StoredDraft } from '../drafts.js';
+
+// Raised when a report is saved under a submission ID that is already stored.
+export class DuplicateReportError extends Error {}
+
+export interface ReportRepository {
+    /** Stores a new report (version 1). Throws DuplicateReportError if its ID is taken. */
+    save(report: IndividualData): Promise<void>;
+    /** Returns the report as originally stored (version 1), or null. */
+    findById(submissionId: string): Promise<IndividualData | null>;
+    /** Returns the original version of every report linked to a person, oldest first. */
+    listByPerson(personId: string): Promise<IndividualData[]>;
+    /** Like listByPerson, but only the reports whose email has been confirmed by one-time code. */
+    listVerifiedByPerson(personId: string): Promise<IndividualData[]>;
+    /** Returns the original version of every report, oldest first. */
+    list(): Promise<IndividualData[]>;
+    /** Deletes a report with all its versions, risk events and triage history. Returns false if it did not exist. */
+    delete(submissionId: string): Promise<boolean>;
+
+    /**
+     * Stamps the original version with its sign-off, only if it has not been signed yet.
+     * Returns false if it was already signed or does not exist.
+     */
+    saveSignOff(signed: IndividualData): Promise<boolean>;
+    /** Stores an amended version. Throws DuplicateReportError if that version exists. */
+    saveVersion(report: IndividualData): Promise<void>;
+    /** Returns an amended version (2 and up), or the latest amendment if none is given. */
+    findVersion(submissionId: string, version?: number): Promise<IndividualData | null>;
+
+    /** Records a risk event against a stored report. */
+    saveRiskEvent(event: RiskEvent): Promise<void>;
+
+    /** Returns every generation of a report's insights, oldest first. */
+    findInsights(submissionId: string): Promise<InsightSet[]>;
+    /**
+     * Adds a generation of insights, only if it directly follows the latest stored one.
+     * Returns false if another generation was stored first, or the report does not exist.
+     */
+    saveInsights(submissionId: string, set: InsightSet): Promise<boolean>;
+
+    /** Invalidates every access token for a report issued before the given time. */
+    revokeAccess(submissionId: string, revokedAt: string): Promise<void>;
+    /** Returns when a report's access tokens were last revoked, or null if never. */
+    getAccessRevokedBefore(submissionId: string): Promise<string | null>;
+    /** Records that a report's email was confirmed by one-time code, linking it into the person's history. */
+    markEmailVerified(submissionId: string, verifiedAt: string): Promise<void>;
+
+    /** Stores a person's one-time access code, replacing any earlier one. */
+    saveAccessCode(code: AccessCode): Promise<void>;
+    /** Returns a person's outstanding one-time access code, or null. */
+    findAccessCode(personId: string): Promise<AccessCode | null>;
+    /** Removes a person's one-time access code once used or exhausted. */
+    deleteAccessCode(personId: string): Promise<void>;
+
+    /** Stores an assessment draft, replacing any earlier one under the same code. */
+    saveDraft(draft: StoredDraft): Promise<void>;
+    /** Returns the draft stored under a resume code's hash, or null. */
+    findDraft(codeHash: string): Promise<StoredDraft | null>;
+    /** Removes a draft once it has been submitted or has expired. */
+    deleteDraft(codeHash: string): Promise<void>;
+
+    /** Returns every triage case opened so far, in any order. */
+    listTriageCases(): Promise<TriageCase[]>;
+    /** Returns a report's triage case, or null if no clinician has acted on it yet. */
+    findTriageCase(submissionId: string): Promise<TriageCase | null>;
+    /** Returns the whole triage audit trail, oldest first. */
+    listTriageAudit(): Promise<TriageAuditEntry[]>;
+    /** Stores a case's new state, replacing the previous one, and appends the action to the audit trail. */
+    saveTriageAction(triageCase: TriageCase, auditEntry: TriageAuditEntry): Promise<void>;
+
+    /** Returns the reviewer record of the clinician with this token name, or null. */
+    findReviewer(name: string): Promise<Reviewer | null>;
+    /** Stores a reviewer record, replacing any with the same name. */
+    saveReviewer(reviewer: Reviewer): Promise<void>;
+
+    /**
+     * Records an attempt against a rate limit key at the given time, forgetting attempts before
+     * `since`. Returns how many attempts the key has had since then, this one included.
+     */
+    recordRateLimitHit(key: string, at: string, since: string): Promise<number>;
+}
@@ -0,0 +1,341 @@
+import { getSupabase } from '../supabase.js';
+import type { IndividualData, InsightSet, Reviewer, RiskEvent, TriageAuditEntry, TriageCase } from '../types.js';
+import type { AccessCode } from '../accessCodes.js';
+import type { StoredDraft } from '../drafts.js';
+import { DuplicateReportError, ReportRepository } from './repository.js';
+
+// Postgres error code for a unique constraint violation.
+const UNIQUE_VIOLATION = '23505';
+
+// When selecting a JSONB column, the Supabase client's type inference can become
+// excessively deep. The client is left untyped, and rows of `reports` are cast to ReportRow instead.
+
+// A row of the `reports` table. Columns added after the table was created are null on
+// rows written before them.
+interface ReportRow {
+    submissionId: string;
+    personId: string | null;
+    data: IndividualData;
+    createdAt: string;
+    insights: InsightSet[] | null;
+    insightsVersion: number | null;
+    accessRevokedBefore: string | null;
+    emailVerifiedAt: string | null;
+}
+
+/**
+ * Stores the original version of each report in `reports`, every amendment as a row
+ * of `report_versions` keyed by (submissionId, version), and risk events in `risk_events`.
+ * Insights are kept on the report row, every generation in the `insights` column with
+ * the latest generation number in `insightsVersion`.
+ * Link revocation is the `accessRevokedBefore` column of `reports`, and confirmation of a
+ * report's email its `emailVerifiedAt` column; one-time access codes
+ * live in `access_codes`, keyed by personId. Assessment drafts live in `assessment_drafts`,
+ * keyed by the hash of their resume code, and rate limit attempts in `rate_limit_hits`.
+ * Triage follow-up is kept in `triage_cases`, keyed by submissionId, with every action
+ * in `triage_audit`; reviewer records are rows of `reviewers`, keyed by name.
+ */
+export class SupabaseReportRepository implements ReportRepository {
+    async save(report: IndividualData): Promise<void> {
+        const { error } = await getSupabase()
+            .from('reports')
+            .insert([
+                {
+                    submissionId: report.individualId,
+                    personId: report.personId ?? null,
+                    data: report,
+                    createdAt: new Date().toISOString(),
+                } satisfies Partial<ReportRow>
+            ]);
+
+        if (error?.code === UNIQUE_VIOLATION) {
+            throw new DuplicateReportError(`A report for submission ID "${report.individualId}" already exists.`);
+        }
+        if (error) throw new Error(`Failed to save report: ${error.message}`);
+    }
+
+    async findById(submissionId: string): Promise<IndividualData | null> {
+        const { data: reports, error } = await getSupabase()
+            .from('reports')
+            .select('*')
+            .eq('submissionId', submissionId)
+            .limit(1);
+
+        if (error) throw new Error(`Failed to query reports: ${error.message}`);
+        return reports && reports.length > 0 ? (reports[0] as ReportRow).data : null;
+    }
+
+    async listByPerson(personId: string): Promise<IndividualData[]> {
+        const { data: reports, error } = await getSupabase()
+            .from('reports')
+            .select('*')
+            .eq('personId', personId)
+            .order('createdAt', { ascending: true });
+
+        if (error) throw new Error(`Failed to query reports: ${error.message}`);
+        return ((reports || []) as ReportRow[]).map(row => row.data);
+    }
+
+    async listVerifiedByPerson(personId: string): Promise<IndividualData[]> {
+        const { data: reports, error } = await getSupabase()
+            .from('reports')
+            .select('*')
+            .eq('personId', personId)
+            .not('emailVerifiedAt', 'is', null)
+            .order('createdAt', { ascending: true });
+
+        if (error) throw new Error(`Failed to query reports: ${error.message}`);
+        return ((reports || []) as ReportRow[]).map(row => row.data);
+    }
+
+    async list(): Promise<IndividualData[]> {
+        const { data: reports, error } = await getSupabase()
+            .from('reports')
+            .select('*')
+            .order('createdAt', { ascending: true });
+
+        if (error) throw new Error(`Failed to query reports: ${error.message}`);
+        return ((reports || []) as ReportRow[]).map(row => row.data);
+    }
+
+    async delete(submissionId: string): Promise<boolean> {
+        const supabase = getSupabase();
+        for (const table of ['report_versions', 'risk_events', 'triage_cases', 'triage_audit']) {
+            const { error: dependentError } = await supabase.from(table).delete().eq('submissionId', submissionId);
+            if (dependentError) throw new Error(`Failed to delete from ${table}: ${dependentError.message}`);
+        }
+
+        const { data: deleted, error } = await supabase
+            .from('reports')
+            .delete()
+            .eq('submissionId', submissionId)
+            .select('submissionId');
+        if (error) throw new Error(`Failed to delete report: ${error.message}`);
+        return !!deleted && deleted.length > 0;
+    }
+
+    async saveSignOff(signed: IndividualData): Promise<boolean> {
+        // The filter on an empty sign-off makes the stamp a one-time write, even if two
+        // reviewers sign at the same moment.
+        const { data: updated, error } = await getSupabase()
+            .from('reports')
+            .update({ data: signed } satisfies Partial<ReportRow>)
+            .eq('submissionId', signed.individualId)
+            .is('data->signOff', null)
+            .select('submissionId');
+
+        if (error) throw new Error(`Failed to sign off report: ${error.message}`);
+        return !!updated && updated.length > 0;
+    }
+
+    async saveVersion(report: IndividualData): Promise<void> {
+        const { error } = await getSupabase()
+            .from('report_versions')
+            .insert([{
+                submissionId: report.individualId,
+                version: report.version,
+                data: report,
+                createdAt: new Date().toISOString(),
+            }]);
+
+        if (error?.code === UNIQUE_VIOLATION) {
+            throw new DuplicateReportError(`Version ${report.version} of report "${report.individualId}" already exists.`);
+        }
+        if (error) throw new Error(`Failed to save report version: ${error.message}`);
+    }
+
+    async findVersion(submissionId: string, version?: number): Promise<IndividualData | null> {
+        let query = getSupabase()
+            .from('report_versions')
+            .select('*')
+            .eq('submissionId', submissionId);
+        query = version === undefined
+            ? query.order('version', { ascending: false })
+            : query.eq('version', version);
+
+        const { data: versions, error } = await query.limit(1);
+        if (error) throw new Error(`Failed to query report versions: ${error.message}`);
+        return versions && versions.length > 0 ? versions[0].data as IndividualData : null;
+    }
+
+    async saveRiskEvent(event: RiskEvent): Promise<void> {
+        const { error } = await getSupabase().from('risk_events').insert([event]);
+        if (error) throw new Error(`Failed to save risk event: ${error.message}`);
+    }
+
+    async findInsights(submissionId: string): Promise<InsightSet[]> {
+        const { data: reports, error } = await getSupabase()
+            .from('reports')
+            .select('insights')
+            .eq('submissionId', submissionId)
+            .limit(1);
+
+        if (error) throw new Error(`Failed to query insights: ${error.message}`);
+        return reports && reports.length > 0 ? (reports[0] as Pick<ReportRow, 'insights'>).insights ?? [] : [];
+    }
+
+    async saveInsights(submissionId: string, set: InsightSet): Promise<boolean> {
+        const insights = await this.findInsights(submissionId);
+        if (set.version !== insights.length + 1) return false;
+
+        // The filter on the previous generation number means two simultaneous generations
+        // cannot both be stored; the second write matches no row.
+        let query = getSupabase()
+            .from('reports')
+            .update({ insights: [...insights, set], insightsVersion: set.version } satisfies Partial<ReportRow>)
+            .eq('submissionId', submissionId);
+        query = insights.length === 0 ? query.is('insightsVersion', null) : query.eq('insightsVersion', insights.length);
+
+        const { data: updated, error } = await query.select('submissionId');
+        if (error) throw new Error(`Failed to save insights: ${error.message}`);
+        return !!updated && updated.length > 0;
+    }
+
+    async revokeAccess(submissionId: string, revokedAt: string): Promise<void> {
+        const { error } = await getSupabase()
+            .from('reports')
+            .update({ accessRevokedBefore: revokedAt } satisfies Partial<ReportRow>)
+            .eq('submissionId', submissionId);
+        if (error) throw new Error(`Failed to revoke report access: ${error.message}`);
+    }
+
+    async getAccessRevokedBefore(submissionId: string): Promise<string | null> {
+        const { data: reports, error } = await getSupabase()
+            .from('reports')
+            .select('accessRevokedBefore')
+            .eq('submissionId', submissionId)
+            .limit(1);
+
+        if (error) throw new Error(`Failed to query report access: ${error.message}`);
+        return reports && reports.length > 0 ? (reports[0] as Pick<ReportRow, 'accessRevokedBefore'>).accessRevokedBefore : null;
+    }
+
+    async markEmailVerified(submissionId: string, verifiedAt: string): Promise<void> {
+        // The first confirmation is kept; later ones match no row.
+        const { error } = await getSupabase()
+            .from('reports')
+            .update({ emailVerifiedAt: verifiedAt } satisfies Partial<ReportRow>)
+            .eq('submissionId', submissionId)
+            .is('emailVerifiedAt', null);
+        if (error) throw new Error(`Failed to record email verification: ${error.message}`);
+    }
+
+    async saveAccessCode(code: AccessCode): Promise<void> {
+        const { error } = await getSupabase()
+            .from('access_codes')
+            .upsert([code], { onConflict: 'personId' });
+        if (error) throw new Error(`Failed to save access code: ${error.message}`);
+    }
+
+    async findAccessCode(personId: string): Promise<AccessCode | null> {
+        const { data: codes, error } = await getSupabase()
+            .from('access_codes')
+            .select('*')
+            .eq('personId', personId)
+            .limit(1);
+
+        if (error) throw new Error(`Failed to query access codes: ${error.message}`);
+        return codes && codes.length > 0 ? codes[0] as AccessCode : null;
+    }
+
+    async deleteAccessCode(personId: string): Promise<void> {
+        const { error } = await getSupabase().from('access_codes').delete().eq('personId', personId);
+        if (error) throw new Error(`Failed to delete access code: ${error.message}`);
+    }
+
+    async saveDraft(draft: StoredDraft): Promise<void> {
+        const { error } = await getSupabase()
+            .from('assessment_drafts')
+            .upsert([draft], { onConflict: 'codeHash' });
+        if (error) throw new Error(`Failed to save draft: ${error.message}`);
+    }
+
+    async findDraft(codeHash: string): Promise<StoredDraft | null> {
+        const { data: drafts, error } = await getSupabase()
+            .from('assessment_drafts')
+            .select('*')
+            .eq('codeHash', codeHash)
+            .limit(1);
+
+        if (error) throw new Error(`Failed to query drafts: ${error.message}`);
+        return drafts && drafts.length > 0 ? drafts[0] as StoredDraft : null;
+    }
+
+    async deleteDraft(codeHash: string): Promise<void> {
+        const { error } = await getSupabase().from('assessment_drafts').delete().eq('codeHash', codeHash);
+        if (error) throw new Error(`Failed to delete draft: ${error.message}`);
+    }
+
+    async listTriageCases(): Promise<TriageCase[]> {
+        const { data: cases, error } = await getSupabase().from('triage_cases').select('*');
+        if (error) throw new Error(`Failed to query triage cases: ${error.message}`);
+        return (cases || []) as TriageCase[];
+    }
+
+    async findTriageCase(submissionId: string): Promise<TriageCase | null> {
+        const { data: cases, error } = await getSupabase()
+            .from('triage_cases')
+            .select('*')
+            .eq('submissionId', submissionId)
+            .limit(1);
+
+        if (error) throw new Error(`Failed to query triage cases: ${error.message}`);
+        return cases && cases.length > 0 ? cases[0] as TriageCase : null;
+    }
+
+    async listTriageAudit(): Promise<TriageAuditEntry[]> {
+        const { data: entries, error } = await getSupabase()
+            .from('triage_audit')
+            .select('*')
+            .order('createdAt', { ascending: true });
+
+        if (error) throw new Error(`Failed to query triage audit: ${error.message}`);
+        return (entries || []) as TriageAuditEntry[];
+    }
+
+    async saveTriageAction(triageCase: TriageCase, auditEntry: TriageAuditEntry): Promise<void> {
+        const supabase = getSupabase();
+        const { error: caseError } = await supabase
+            .from('triage_cases')
+            .upsert([triageCase], { onConflict: 'submissionId' });
+        if (caseError) throw new Error(`Failed to update triage case: ${caseError.message}`);
+
+        const { error: auditError } = await supabase.from('triage_audit').insert([auditEntry]);
+        if (auditError) throw new Error(`Failed to record the triage action in the audit trail: ${auditError.message}`);
+    }
+
+    async findReviewer(name: string): Promise<Reviewer | null> {
+        const { data: reviewers, error } = await getSupabase()
+            .from('reviewers')
+            .select('*')
+            .eq('name', name)
+            .limit(1);
+
+        if (error) throw new Error(`Failed to query reviewers: ${error.message}`);
+        return reviewers && reviewers.length > 0 ? reviewers[0] as Reviewer : null;
+    }
+
+    async saveReviewer(reviewer: Reviewer): Promise<void> {
+        const { error } = await getSupabase()
+            .from('reviewers')
+            .upsert([reviewer], { onConflict: 'name' });
+        if (error) throw new Error(`Failed to save reviewer: ${error.message}`);
+    }
+
+    async recordRateLimitHit(key: string, at: string, since: string): Promise<number> {
+        const supabase = getSupabase();
+        const { error: pruneError } = await supabase.from('rate_limit_hits').delete().eq('key', key).lt('at', since);
+        if (pruneError) throw new Error(`Failed to prune rate limit hits: ${pruneError.message}`);
+
+        const { error: insertError } = await supabase.from('rate_limit_hits').insert([{ key, at }]);
+        if (insertError) throw new Error(`Failed to record rate limit hit: ${insertError.message}`);
+
+        const { count, error } = await supabase
+            .from('rate_limit_hits')
+            .select('*', { count: 'exact', head: true })
+            .eq('key', key)
+            .gte('at', since);
+        if (error) throw new Error(`Failed to count rate limit hits: ${error.message}`);
+        return count ?? 0;
+    }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { amendReport, getReportVersion, ReviewError, signOffReport } from './review.js';
+import { buildReport } from '../_tests/reports.js';
+import type { Reviewer } from './types.js';
+
+const reviewer: Reviewer = {
+    name: 'dr.mehta',
+    displayName: 'Dr. Asha Mehta',
+    credentials: 'M.Phil. Clinical Psychology',
+    registrationNumber: 'A12345',
+    registrationBody: 'Rehabilitation Council of India',
+};
+
+describe('signOffReport', () => {
+    it('stamps an unsigned report as version 1', () => {
+        const signed = signOffReport(buildReport('report-1'), reviewer, 'Reviewed with the client.');
+
+        expect(signed.version).toBe(1);
+        expect(signed.signOff).toMatchObject({ reviewer, comments: 'Reviewed with the client.' });
+    });
+
+    it('refuses a report that is already signed', () => {
+        const signed = signOffReport(buildReport('report-1'), reviewer, '');
+        expect(() => signOffReport(signed, reviewer, '')).toThrow(ReviewError);
+    });
+});
+
+describe('amendReport', () => {
+    it('creates the next version, recording the version it replaces and why', () => {
+        const signed = signOffReport(buildReport('report-1'), reviewer, 'First review.');
+        const amended = amendReport(signed, reviewer, 'Corrected the follow-up plan.', 'Second review.');
+
+        expect(getReportVersion(amended)).toBe(2);
+        expect(amended.amendment).toEqual({ previousVersion: 1, reason: 'Corrected the follow-up plan.' });
+        expect(amended.signOff?.comments).toBe('Second review.');
+        expect(signed.signOff?.comments).toBe('First review.');
+    });
+
+    it('refuses unsigned reports and amendments without a reason', () => {
+        const signed = signOffReport(buildReport('report-1'), reviewer, '');
+
+        expect(() => amendReport(buildReport('report-1'), reviewer, 'Reason', '')).toThrow('Only signed reports can be amended. Sign off the report instead.');
+        expect(() => amendReport(signed, reviewer, '', '')).toThrow('A reason for the amendment is required.');
+    });
+});
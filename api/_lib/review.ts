@@ -0,0 +1,62 @@
+import type { IndividualData, Reviewer } from './types.js';
+
+// ====================================================================================
+// Clinician Review and Sign-off
+// ------------------------------------------------------------------------------------
+// A report is "pending review" until a clinician signs it off. Once signed, a version is
+// never changed again: an amendment produces a new version, itself signed by the
+// amending clinician, that records which version it replaces and why.
+// ====================================================================================
+
+// Raised when a review action is not allowed for the report's current state.
+export class ReviewError extends Error {}
+
+/**
+ * Returns the version number of a report; reports stored before versioning are version 1.
+ */
+export const getReportVersion = (report: IndividualData): number => report.version ?? 1;
+
+/**
+ * Stamps an unsigned report with the reviewer's sign-off.
+ * @param report The report as generated, not yet signed.
+ * @param reviewer The clinician signing it off.
+ * @param comments The reviewer's comments, shown on the report.
+ * @returns The signed report.
+ * @throws ReviewError if the report has already been signed.
+ */
+export function signOffReport(report: IndividualData, reviewer: Reviewer, comments: string): IndividualData {
+    if (report.signOff) {
+        throw new ReviewError('This report has already been signed off. Amend it to make changes.');
+    }
+    return {
+        ...report,
+        version: getReportVersion(report),
+        signOff: { reviewer, signedAt: new Date().toISOString(), comments },
+    };
+}
+
+/**
+ * Creates the next version of a signed report with new reviewer comments.
+ * The previous version is left untouched.
+ * @param latest The latest signed version of the report.
+ * @param reviewer The clinician making the amendment, who signs the new version.
+ * @param reason Why the report is being amended.
+ * @param comments The reviewer comments of the new version.
+ * @returns The new, signed version.
+ * @throws ReviewError if the report has not been signed or no reason is given.
+ */
+export function amendReport(latest: IndividualData, reviewer: Reviewer, reason: string, comments: string): IndividualData {
+    if (!latest.signOff) {
+        throw new ReviewError('Only signed reports can be amended. Sign off the report instead.');
+    }
+    if (!reason) {
+        throw new ReviewError('A reason for the amendment is required.');
+    }
+    const previousVersion = getReportVersion(latest);
+    return {
+        ...latest,
+        version: previousVersion + 1,
+        amendment: { previousVersion, reason },
+        signOff: { reviewer, signedAt: new Date().toISOString(), comments },
+    };
+}
@@ -0,0 +1,30 @@
+import type { RiskEvent } from './types.js';
+import { getEndorsedCrisisItems, InstrumentDefinition } from './instrument.js';
+import { currentInstrument } from './instruments/index.js';
+
+/**
+ * Builds the risk event for a submission that endorsed any crisis-response item.
+ * @param submissionId The submission the answers belong to.
+ * @param personId The person the submission is linked to, if known.
+ * @param answers Coded answers keyed by item ID.
+ * @param instrument The instrument the answers belong to.
+ * @returns The risk event, or null if no crisis-response item was endorsed.
+ */
+export function buildRiskEvent(
+    submissionId: string,
+    personId: string | null,
+    answers: { [itemId: string]: unknown },
+    instrument: InstrumentDefinition = currentInstrument,
+): RiskEvent | null {
+    const itemIds = getEndorsedCrisisItems(instrument, answers);
+    if (itemIds.length === 0) return null;
+
+    return {
+        id: `RISK-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+        submissionId,
+        personId,
+        itemIds,
+        maxAnswer: Math.max(...itemIds.map(id => answers[id] as number)),
+        createdAt: new Date().toISOString(),
+    };
+}
@@ -0,0 +1,44 @@
+import { generateReportFromJotform, JotformSubmission } from './logic.js';
+import { currentInstrument } from './instruments/index.js';
+import { getItemBanks } from './itemBanks.js';
+import { buildRiskEvent } from './risk.js';
+import { DuplicateReportError, getReportRepository } from './repository/index.js';
+import type { IndividualData } from './types.js';
+
+// Raised when the report could not be saved.
+export class ReportStorageError extends Error {}
+
+/**
+ * Scores a submission and stores the report, recording a risk event if any crisis-response
+ * item was endorsed. Shared by every way an assessment can arrive (our form, Jotform).
+ * @param submission The submission to score.
+ * @returns The stored report.
+ * @throws DuplicateReportError if the submission ID has already been stored.
+ * @throws ReportStorageError if the report could not be saved.
+ */
+export async function storeSubmission(submission: JotformSubmission): Promise<IndividualData> {
+    // Item banks are only loaded when needed, so a misconfigured bank file cannot block fixed-form submissions.
+    const reportData = generateReportFromJotform(submission, currentInstrument, submission.adaptiveAnswers ? getItemBanks() : []);
+
+    try {
+        await getReportRepository().save(reportData);
+    } catch (saveError: any) {
+        if (saveError instanceof DuplicateReportError) throw saveError;
+        console.error('Report save error:', saveError);
+        throw new ReportStorageError(saveError.message);
+    }
+
+    // A risk event lets the care team follow up on endorsed suicidal ideation. A failure here is
+    // logged rather than blocking the report, which is still flagged in the triage queue.
+    const riskEvent = buildRiskEvent(reportData.individualId, reportData.personId ?? null, submission.answers);
+    if (riskEvent) {
+        try {
+            await getReportRepository().saveRiskEvent(riskEvent);
+            console.log(`Recorded risk event ${riskEvent.id} for submission ID: ${reportData.individualId}`);
+        } catch (riskError) {
+            console.error(`Failed to record risk event for submission ID ${reportData.individualId}:`, riskError);
+        }
+    }
+
+    return reportData;
+}
@@ -0,0 +1,22 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+let client: SupabaseClient | null = null;
+
+/**
+ * Returns the Supabase client shared by all API routes, creating it on first use.
+ * Created lazily so routes can be loaded without Supabase when reports are stored locally.
+ * @throws Error if the Supabase URL or service key is not configured.
+ */
+export const getSupabase = (): SupabaseClient => {
+  if (client) return client;
+
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error("Supabase URL or service key is not defined in environment variables.");
+  }
+
+  client = createClient(supabaseUrl, supabaseKey);
+  return client;
+};
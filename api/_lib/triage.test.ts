@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { applyTriageAction, buildTriageQueue, getFlaggedDomains, getTriagePriority, TriageActionError } from './triage.js';
+import { buildReport, depressionAnswers, screeningAnswers } from '../_tests/reports.js';
+import type { TriageCase } from './types.js';
+
+const issueLink = (submissionId: string) => `link-${submissionId}`;
+
+describe('getFlaggedDomains', () => {
+    it('lists the domains in a flagged reference interval', () => {
+        expect(getFlaggedDomains(buildReport('report-1', { ...depressionAnswers(5), ...screeningAnswers('Psychosis', 2) }))).toEqual([
+            { name: 'Depression', interpretation: 'Severe' },
+            { name: 'Psychosis', interpretation: 'Further inquiry indicated' },
+        ]);
+        expect(getFlaggedDomains(buildReport('report-2', depressionAnswers(3)))).toEqual([]);
+    });
+});
+
+describe('getTriagePriority', () => {
+    it('ranks crisis-response domains urgent, severe intervals high and the rest elevated', () => {
+        expect(getTriagePriority([{ name: 'Suicidal Ideation', interpretation: 'Further inquiry indicated' }])).toBe('urgent');
+        expect(getTriagePriority([{ name: 'Depression', interpretation: 'Severe' }])).toBe('high');
+        expect(getTriagePriority([{ name: 'Depression', interpretation: 'Moderate' }])).toBe('elevated');
+    });
+});
+
+describe('buildTriageQueue', () => {
+    const reports = [
+        buildReport('elevated', screeningAnswers('Psychosis', 1), { assessmentDate: '2026-10-01' }),
+        buildReport('unflagged', depressionAnswers(1), { assessmentDate: '2026-10-02' }),
+        buildReport('high-newer', depressionAnswers(5), { assessmentDate: '2026-10-05' }),
+        buildReport('high-older', depressionAnswers(5), { assessmentDate: '2026-10-03' }),
+        buildReport('urgent', screeningAnswers('Suicidal Ideation', 1), { assessmentDate: '2026-10-04' }),
+    ];
+
+    it('queues flagged reports by priority, then oldest first', () => {
+        const queue = buildTriageQueue(reports, [], [], issueLink);
+
+        expect(queue.map(item => item.submissionId)).toEqual(['urgent', 'high-older', 'high-newer', 'elevated']);
+        expect(queue[0]).toMatchObject({ priority: 'urgent', status: 'open', assignee: null, accessToken: 'link-urgent' });
+    });
+
+    it('takes the status from the case and leaves resolved cases out unless asked for', () => {
+        const cases: TriageCase[] = [
+            { submissionId: 'urgent', status: 'resolved', assignee: 'dr.rao', updatedAt: '2026-10-06T00:00:00.000Z' },
+            { submissionId: 'elevated', status: 'acknowledged', assignee: null, updatedAt: '2026-10-06T00:00:00.000Z' },
+        ];
+
+        expect(buildTriageQueue(reports, cases, [], issueLink).map(item => [item.submissionId, item.status])).toEqual([
+            ['high-older', 'open'], ['high-newer', 'open'], ['elevated', 'acknowledged'],
+        ]);
+        expect(buildTriageQueue(reports, cases, [], issueLink, true)[0]).toMatchObject({ submissionId: 'urgent', status: 'resolved' });
+    });
+});
+
+describe('applyTriageAction', () => {
+    it('acknowledges, assigns and resolves a case, recording each action', () => {
+        const acknowledged = applyTriageAction(null, 'report-1', 'acknowledge', 'dr.mehta', null, '');
+        expect(acknowledged.triageCase).toMatchObject({ status: 'acknowledged', assignee: null });
+        expect(acknowledged.auditEntry).toMatchObject({ submissionId: 'report-1', action: 'acknowledge', actor: 'dr.mehta' });
+
+        const assigned = applyTriageAction(acknowledged.triageCase, 'report-1', 'assign', 'dr.mehta', 'dr.rao', '');
+        expect(assigned.triageCase).toMatchObject({ status: 'acknowledged', assignee: 'dr.rao' });
+        expect(assigned.auditEntry.assignee).toBe('dr.rao');
+
+        const resolved = applyTriageAction(assigned.triageCase, 'report-1', 'resolve', 'dr.rao', null, 'Called, safety plan in place.');
+        expect(resolved.triageCase).toMatchObject({ status: 'resolved', assignee: 'dr.rao' });
+    });
+
+    it('acknowledges an open case when it is assigned', () => {
+        expect(applyTriageAction(null, 'report-1', 'assign', 'dr.mehta', 'dr.rao', '').triageCase.status).toBe('acknowledged');
+    });
+
+    it('refuses actions that do not apply to the case', () => {
+        const acknowledged = applyTriageAction(null, 'report-1', 'acknowledge', 'dr.mehta', null, '').triageCase;
+        const resolved = { ...acknowledged, status: 'resolved' as const };
+
+        expect(() => applyTriageAction(acknowledged, 'report-1', 'acknowledge', 'dr.mehta', null, '')).toThrow(TriageActionError);
+        expect(() => applyTriageAction(null, 'report-1', 'assign', 'dr.mehta', null, '')).toThrow('An assignee is required.');
+        expect(() => applyTriageAction(null, 'report-1', 'resolve', 'dr.mehta', null, '')).toThrow(TriageActionError);
+        expect(() => applyTriageAction(resolved, 'report-1', 'assign', 'dr.mehta', 'dr.rao', '')).toThrow('This case has already been resolved.');
+    });
+});
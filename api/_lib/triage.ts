@@ -0,0 +1,167 @@
+import type {
+    IndividualData,
+    ReferenceInterval,
+    TriageAction,
+    TriageAuditEntry,
+    TriageCase,
+    TriageItem,
+    TriagePriority,
+} from './types.js';
+import type { InstrumentDefinition } from './instrument.js';
+import { currentInstrument } from './instruments/index.js';
+
+// ====================================================================================
+// Clinician Risk Triage
+// ------------------------------------------------------------------------------------
+// Every stored report with a domain in a flagged reference interval of the instrument is
+// a triage item. Its follow-up state lives
+// in a separate triage case, which is created the first time a clinician acts on it;
+// until then the item is open. Every action is appended to the audit trail.
+// ====================================================================================
+
+const priorityRank: Record<TriagePriority, number> = { urgent: 0, high: 1, elevated: 2 };
+
+// Raised when an action cannot be applied to a case in its current state.
+export class TriageActionError extends Error {}
+
+// The flag of the instrument's reference interval a domain was interpreted as. Looked up in
+// the instrument rather than the report, so reports scored before intervals carried flags
+// are triaged the same way.
+const getIntervalFlag = (instrument: InstrumentDefinition, domainName: string, interpretation: string): ReferenceInterval['flag'] =>
+    instrument.domains
+        .find(domain => domain.name === domainName)?.referenceIntervals
+        .find(interval => interval.label === interpretation)?.flag;
+
+/**
+ * Lists the domains of a report whose interpretation calls for clinical follow-up.
+ */
+export const getFlaggedDomains = (
+    report: IndividualData,
+    instrument: InstrumentDefinition = currentInstrument,
+): TriageItem['flaggedDomains'] => {
+    return report.domains
+        .filter(domain => getIntervalFlag(instrument, domain.name, domain.userInterpretation))
+        .map(domain => ({ name: domain.name, interpretation: domain.userInterpretation }));
+};
+
+/**
+ * Ranks a flagged report: urgent if a crisis-response domain (suicidal ideation) is flagged,
+ * high if any domain is in a severe interval, otherwise elevated.
+ */
+export const getTriagePriority = (
+    flaggedDomains: TriageItem['flaggedDomains'],
+    instrument: InstrumentDefinition = currentInstrument,
+): TriagePriority => {
+    const crisisDomains = instrument.domains.filter(domain => domain.crisisResponse).map(domain => domain.name);
+    if (flaggedDomains.some(domain => crisisDomains.includes(domain.name))) return 'urgent';
+    if (flaggedDomains.some(domain => getIntervalFlag(instrument, domain.name, domain.interpretation) === 'severe')) return 'high';
+    return 'elevated';
+};
+
+/**
+ * Builds the triage queue from stored reports, their cases and the audit trail.
+ * Sorted by priority, then oldest assessment first so nothing waits indefinitely.
+ * @param reports Stored reports, in any order.
+ * @param cases The triage cases that exist so far.
+ * @param audit Audit entries for those cases, oldest first.
+ * @param issueLink Issues the clinician's access token for a report.
+ * @param includeResolved Whether resolved items are kept in the queue.
+ */
+export function buildTriageQueue(
+    reports: IndividualData[],
+    cases: TriageCase[],
+    audit: TriageAuditEntry[],
+    issueLink: (submissionId: string) => string,
+    includeResolved = false,
+): TriageItem[] {
+    const casesById = new Map(cases.map(triageCase => [triageCase.submissionId, triageCase]));
+
+    return reports
+        .flatMap(report => {
+            const flaggedDomains = getFlaggedDomains(report);
+            if (flaggedDomains.length === 0) return [];
+
+            const triageCase = casesById.get(report.individualId);
+            const item: TriageItem = {
+                submissionId: report.individualId,
+                firstName: report.firstName,
+                lastName: report.lastName,
+                email: report.email,
+                assessmentDate: report.assessmentDate,
+                flaggedDomains,
+                priority: getTriagePriority(flaggedDomains),
+                status: triageCase?.status ?? 'open',
+                assignee: triageCase?.assignee ?? null,
+                audit: audit.filter(entry => entry.submissionId === report.individualId),
+                accessToken: issueLink(report.individualId),
+                careTier: report.careTier?.tier ?? null,
+            };
+            return [item];
+        })
+        .filter(item => includeResolved || item.status !== 'resolved')
+        .sort((a, b) =>
+            priorityRank[a.priority] - priorityRank[b.priority] ||
+            new Date(a.assessmentDate).getTime() - new Date(b.assessmentDate).getTime());
+}
+
+/**
+ * Applies a clinician's action to a triage case.
+ * @param current The existing case, or null if nobody has acted on the report yet.
+ * @param submissionId The report being acted on.
+ * @param action What the clinician did.
+ * @param actor The clinician's name.
+ * @param assignee Who the case is assigned to; required for "assign".
+ * @param note The clinician's note; required for "resolve".
+ * @returns The updated case and the audit entry recording the action.
+ * @throws TriageActionError if the action is not valid for the case.
+ */
+export function applyTriageAction(
+    current: TriageCase | null,
+    submissionId: string,
+    action: TriageAction,
+    actor: string,
+    assignee: string | null,
+    note: string,
+): { triageCase: TriageCase; auditEntry: TriageAuditEntry } {
+    const status = current?.status ?? 'open';
+    if (status === 'resolved') throw new TriageActionError('This case has already been resolved.');
+
+    const now = new Date().toISOString();
+    const triageCase: TriageCase = {
+        submissionId,
+        status,
+        assignee: current?.assignee ?? null,
+        updatedAt: now,
+    };
+
+    switch (action) {
+        case 'acknowledge':
+            if (status !== 'open') throw new TriageActionError('This case has already been acknowledged.');
+            triageCase.status = 'acknowledged';
+            break;
+        case 'assign':
+            if (!assignee) throw new TriageActionError('An assignee is required.');
+            // Assigning a case implies someone has seen it.
+            triageCase.status = 'acknowledged';
+            triageCase.assignee = assignee;
+            break;
+        case 'resolve':
+            if (!note) throw new TriageActionError('A note explaining the resolution is required.');
+            triageCase.status = 'resolved';
+            break;
+        default:
+            throw new TriageActionError(`Unknown action "${action}".`);
+    }
+
+    const auditEntry: TriageAuditEntry = {
+        id: `AUD-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+        submissionId,
+        action,
+        actor,
+        assignee: action === 'assign' ? assignee : null,
+        note,
+        createdAt: now,
+    };
+
+    return { triageCase, auditEntry };
+}
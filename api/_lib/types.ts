@@ -3,6 +3,7 @@ export interface ReferenceInterval {
   min: number;
   max: number | null;
   color: string;
+  flag?: 'elevated' | 'severe'; // Calls for clinical follow-up; severe ranks a report higher in triage
 }
 
 export interface IndividualExperienced {
@@ -10,25 +11,308 @@ export interface IndividualExperienced {
   link: string;
 }
 
+// How a single scored item contributed to its domain's score.
+export interface ItemScoreTrace {
+  itemId: string;
+  text: string;
+  rawAnswer: number | null; // Coded answer as submitted; null if not answered
+  answerLabel: string | null; // Label of the chosen option on the item's response scale
+  mappedValue: number | null; // Value used in scoring, after any reverse-scoring
+  reversed: boolean;
+  missing: boolean;
+}
+
+// A record of every step taken to turn a domain's answers into its score and interpretation.
+export interface ScoringTrace {
+  method: 'SUM' | 'MAX_THRESHOLD' | 'AVERAGE';
+  items: ItemScoreTrace[];
+  answeredCount: number;
+  expectedCount: number;
+  rawSum: number | null; // Unprorated sum of the answered items (SUM and AVERAGE only)
+  completenessRule: 'met' | 'not_met' | 'not_applicable'; // The 75% rule for summed scores
+  prorated: boolean;
+  tScoreConversion: string | null; // PROMIS short form used for the T-score lookup, if any
+  matchedInterval: ReferenceInterval | null;
+  adaptive?: AdaptiveScoringTrace; // Present when the domain was scored by adaptive testing
+}
+
+// How an adaptively tested domain was scored. Its items are those the person was given,
+// in order, and their mapped value is the category the item is calibrated on.
+export interface AdaptiveScoringTrace {
+  itemBank: string;
+  source: string; // Where the item parameters come from
+  theta: number;
+  stopReason: 'precision' | 'max_items' | 'bank_exhausted' | null; // Null if testing had not stopped; the domain is then not scored
+}
+
+// Answers to adaptively chosen items, keyed by domain name and then by item bank item ID,
+// in the order the items were given.
+export type AdaptiveAnswers = { [domainName: string]: { [itemId: string]: number } };
+
 export interface Domain {
   name: string;
   about: string;
   aboutLink: string;
   result: string;
   score: number | null;
+  tScore: number | null; // PROMIS T-score (mean 50, SD 10); null for non-PROMIS domains
+  standardError: number | null; // Standard error of the T-score estimate
+  percentile: number | null; // Population percentile of the T-score
   userInterpretation: string;
   referenceIntervals: ReferenceInterval[];
   insightsAndSupport: string;
   individualsExperienced: IndividualExperienced[];
+  scoringTrace?: ScoringTrace; // Absent on reports stored before traces were recorded
 }
 
 export interface IndividualData {
   individualId: string;
+  personId?: string; // Stable across a person's submissions; absent on reports stored before it was recorded
   firstName: string;
   lastName: string;
   email: string;
   assessmentDate: string;
+  instrumentVersion: string; // e.g. "mental-wellness@1.0.0"
   domains: Domain[];
+  version?: number; // Report version; absent means the original (1)
+  signOff?: ReportSignOff; // Absent until a clinician has reviewed the report
+  amendment?: ReportAmendment; // Present on versions after the first
+  patternFlags?: PatternFlag[]; // Absent on reports scored before pattern rules existed
+  careTier?: CareTierRecommendation; // Absent on reports scored before care tiers existed
+  validityIndicators?: ValidityIndicator[]; // Empty if nothing was found; absent on reports scored before the checks existed
+  executiveSummary?: ExecutiveSummary; // Built when the report is served; never stored
+}
+
+export type ValidityIndicatorKind = 'straight_lining' | 'inconsistent_pairs' | 'fast_completion' | 'missing_items';
+
+// A sign that the answers may not reflect how the person is doing, for clinicians to weigh
+// before trusting the scores.
+export interface ValidityIndicator {
+  kind: ValidityIndicatorKind;
+  detail: string;
+}
+
+// Stepped-care tiers, from least to most involved.
+export type CareTier = 'self_help' | 'counsellor' | 'therapist' | 'psychiatrist' | 'urgent';
+
+// The care tier the decision table recommends for a report.
+export interface CareTierRecommendation {
+  tier: CareTier;
+  reason: string; // The decision table row that set the tier
+  nextSteps: string[]; // In the order to take them
+}
+
+// A pattern rule that matched the report's domain results.
+export interface PatternFlag {
+  id: string;
+  name: string;
+  rationale: string;
+  domainNames: string[]; // The domains the rule looked at
+  clientMessage?: string; // Present if the flag is shown in the person's own report
+}
+
+// A clinician who can review and sign off reports.
+export interface Reviewer {
+  name: string; // Matches the clinician's access token name
+  displayName: string; // e.g. "Dr. Asha Mehta"
+  credentials: string; // e.g. "M.Phil. Clinical Psychology"
+  registrationNumber: string;
+  registrationBody: string; // e.g. "Rehabilitation Council of India"
+}
+
+export interface ReportSignOff {
+  reviewer: Reviewer;
+  signedAt: string;
+  comments: string;
+}
+
+export interface ReportAmendment {
+  previousVersion: number;
+  reason: string;
+}
+
+// The parts of a domain result needed to chart it over time.
+export interface HistoryDomainSummary {
+  name: string;
+  score: number | null;
+  tScore: number | null;
+  userInterpretation: string;
+  referenceIntervals: ReferenceInterval[];
+}
+
+export interface HistoryEntry {
+  submissionId: string;
+  assessmentDate: string;
+  domains: HistoryDomainSummary[];
+  accessToken?: string; // Link token for this report, issued to whoever requested the history
+}
+
+export type ReliableChangeStatus = 'reliably_improved' | 'no_reliable_change' | 'reliably_worsened';
+
+// How a domain changed since the person's previous assessment (Jacobson–Truax RCI).
+export interface ReliableChange {
+  domainName: string;
+  previousSubmissionId: string;
+  previousAssessmentDate: string;
+  previousScore: number;
+  currentScore: number;
+  difference: number; // Current minus previous; higher scores mean more symptoms
+  rci: number;
+  status: ReliableChangeStatus;
+  previousInterval: string | null;
+  currentInterval: string | null;
+  crossedThreshold: boolean; // True if the score moved into a different reference interval
+}
+
+// Every report linked to the same person by a confirmed email, oldest first.
+export interface AssessmentHistory {
+  personId: string | null;
+  emailVerified: boolean; // Unconfirmed reports are shown on their own, without the rest of the history
+  entries: HistoryEntry[];
+  reliableChanges: ReliableChange[]; // The requested report against the one before it
+}
+
+// Recorded when a submission endorses any item of a crisis-response domain.
+export interface RiskEvent {
+  id: string;
+  submissionId: string;
+  personId: string | null;
+  itemIds: string[]; // The endorsed items
+  maxAnswer: number; // Highest coded answer among them
+  createdAt: string;
+}
+
+export type TriagePriority = 'urgent' | 'high' | 'elevated';
+export type TriageStatus = 'open' | 'acknowledged' | 'resolved';
+export type TriageAction = 'acknowledge' | 'assign' | 'resolve';
+
+// The follow-up state of one flagged report.
+export interface TriageCase {
+  submissionId: string;
+  status: TriageStatus;
+  assignee: string | null;
+  updatedAt: string;
+}
+
+// Who did what to a triage case, and when.
+export interface TriageAuditEntry {
+  id: string;
+  submissionId: string;
+  action: TriageAction;
+  actor: string;
+  assignee: string | null;
+  note: string;
+  createdAt: string;
+}
+
+export interface TriageItem {
+  submissionId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  assessmentDate: string;
+  flaggedDomains: { name: string; interpretation: string }[];
+  priority: TriagePriority;
+  status: TriageStatus;
+  assignee: string | null;
+  audit: TriageAuditEntry[]; // Oldest first
+  accessToken: string; // Clinician-scoped link token for the report
+  careTier: CareTier | null; // Null for reports scored before care tiers existed
+}
+
+// Owners reach their reports through long-lived links; clinicians get short-lived ones from the triage queue.
+export type AccessScope = 'owner' | 'clinician';
+
+// A fresh link to one of a person's reports, issued after they confirm their email.
+export interface ReportLink {
+  submissionId: string;
+  assessmentDate: string;
+  accessToken: string;
+}
+
+// Where a set of insights came from. Fallback sets have template text for the domains the
+// model failed on; those domains are tried once more on a later load.
+export type InsightSource = 'model' | 'templates' | 'fallback';
+
+// One generation of a report's insights. Regenerating adds a new set; earlier ones are kept.
+export interface InsightSet {
+  version: number; // 1 for the first generation
+  insights: string[]; // One per domain, in the report's domain order
+  generatedAt: string;
+  source: InsightSource;
+  model: string; // "provider/model", or "templates"
+  requestedBy: string | null; // The clinician who asked for a regeneration; null for the first
+  guardrailFindings?: InsightGuardrailFinding[]; // Model insights the safety checks changed; only sent to clinicians
+  fallbackDomains?: number[]; // Positions of domains given their template insight because the model failed
+}
+
+// One domain's insight, sent as soon as it is ready while the rest are still being written.
+export interface InsightUpdate {
+  index: number; // The domain's position in the report
+  domainName: string;
+  insight: string;
+  source: InsightSource;
+}
+
+export type InsightViolation =
+  | 'diagnostic_language'
+  | 'medication_advice'
+  | 'alarmist_language'
+  | 'missing_professional_help'
+  | 'too_long';
+
+// A model-written insight that failed the safety checks, kept for clinical review.
+export interface InsightGuardrailFinding {
+  domainName: string;
+  violations: InsightViolation[];
+  action: 'repaired' | 'replaced'; // Fixed in place, or swapped for the template insight
+  original: string; // The text as the model wrote it
+}
+
+// One of the areas the executive summary puts first.
+export interface PriorityArea {
+  domainName: string;
+  interpretation: string;
+  percentile: number | null;
+}
+
+// How two priority areas may feed into each other.
+export interface DomainInteraction {
+  domainNames: [string, string];
+  description: string;
+}
+
+export interface ActionStep {
+  title: string;
+  detail: string;
+}
+
+// The cross-domain overview shown after the results summary.
+export interface ExecutiveSummary {
+  overview: string;
+  priorityAreas: PriorityArea[]; // At most three, most pressing first
+  interactions: DomainInteraction[];
+  careTier: CareTier;
+  careRecommendation: string;
+  actionPlan: ActionStep[]; // In the order to take them
+}
+
+// An unfinished assessment, saved so the person can pick up where they left off.
+export interface AssessmentDraft {
+  instrumentVersion: string; // A draft cannot be resumed on another version of the instrument
+  step: number; // The form step the person was on; 0 is their details
+  firstName: string;
+  lastName: string;
+  email: string;
+  answers: { [itemId: string]: number };
+  adaptiveAnswers?: AdaptiveAnswers;
+  sectionTimings: { [sectionTitle: string]: number };
+}
+
+// A problem with one field of a submitted assessment, for the form to highlight.
+export interface FieldError {
+  field: string; // "firstName", "lastName", "email", "answers" or an item ID
+  message: string;
 }
 
 export interface GlobalResource {
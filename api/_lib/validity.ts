@@ -0,0 +1,120 @@
+import { getItemResponseScale, InstrumentDefinition, isItemVisible, isScoredItem } from './instrument.js';
+import type { IndividualData, ValidityIndicator } from './types.js';
+
+// ====================================================================================
+// Response Validity
+// ------------------------------------------------------------------------------------
+// Scores are only as good as the answers behind them. These checks look for answer
+// patterns that suggest a submission was not answered with care; they never change a
+// score, but are shown to clinicians so they can weigh the results accordingly.
+// ====================================================================================
+
+// Fewer answers than this cannot show a meaningful straight-lining pattern.
+const MIN_ITEMS_FOR_STRAIGHT_LINING = 10;
+
+// Reading and answering an item takes about two seconds at the very least.
+const MIN_SECONDS_PER_ITEM = 2;
+
+// Above this share of shown optional items left blank, several domains risk going unscored.
+const MAX_MISSING_SHARE = 0.25;
+const MIN_ITEMS_FOR_MISSING = 4;
+
+const positionNames: { [position: number]: string } = { 0: 'first', 0.5: 'middle', 1: 'last' };
+
+// Seconds spent on each section of the form, keyed by domain name.
+export type SectionTimings = { [domainName: string]: number };
+
+/**
+ * Checks a submission's answers for signs they may not be valid.
+ * @param instrument The instrument the answers belong to.
+ * @param answers Coded answers keyed by item ID.
+ * @param sectionTimings Seconds spent on each section, if the form recorded them.
+ * @param adaptiveDomains Domains tested adaptively, whose fixed items were not asked.
+ * @returns The indicators raised; empty if none.
+ */
+export function assessResponseValidity(
+    instrument: InstrumentDefinition,
+    answers: { [itemId: string]: unknown },
+    sectionTimings?: SectionTimings,
+    adaptiveDomains: string[] = [],
+): ValidityIndicator[] {
+    const indicators: ValidityIndicator[] = [];
+
+    // Where each answer sits on its scale, from 0 (first option) to 1 (last), so answers on
+    // scales of different lengths compare.
+    const positions: { domainName: string; position: number; reverse: boolean }[] = [];
+    const scaleValues = new Map<string, number[]>();
+    let shownOptional = 0;
+    let missingOptional = 0;
+    for (const domain of instrument.domains) {
+        for (const item of domain.items) {
+            const options = getItemResponseScale(instrument, domain, item).options;
+            scaleValues.set(item.id, options.map(option => option.value));
+            const index = options.findIndex(option => option.value === answers[item.id]);
+            if (index >= 0) positions.push({ domainName: domain.name, position: index / (options.length - 1), reverse: !!item.reverse });
+
+            if (!item.mandatory && isScoredItem(item) && !adaptiveDomains.includes(domain.name) && isItemVisible(instrument, domain, item, answers)) {
+                shownOptional++;
+                if (index < 0) missingOptional++;
+            }
+        }
+    }
+
+    // The same option throughout. "None" to everything is a plausible answer, unless
+    // reverse-scored items were answered the same way too.
+    const sectionsAnswered = new Set(positions.map(answer => answer.domainName)).size;
+    if (positions.length >= MIN_ITEMS_FOR_STRAIGHT_LINING && sectionsAnswered > 1
+        && positions.every(answer => answer.position === positions[0].position)
+        && (positions[0].position > 0 || positions.some(answer => answer.reverse))) {
+        indicators.push({
+            kind: 'straight_lining',
+            detail: `All ${positions.length} answers across ${sectionsAnswered} sections used the ${positionNames[positions[0].position] ?? 'same'} option of their scale.`,
+        });
+    }
+
+    const contradictions = (instrument.consistencyPairs ?? []).filter(pair => {
+        const forward = answers[pair.forward];
+        if (typeof forward !== 'number' || forward !== answers[pair.reverse]) return false;
+        const values = scaleValues.get(pair.forward) ?? [];
+        return forward === Math.min(...values) || forward === Math.max(...values);
+    });
+    if (contradictions.length > 0) {
+        indicators.push({
+            kind: 'inconsistent_pairs',
+            detail: `${contradictions.length} of ${instrument.consistencyPairs!.length} pairs of opposite items were given the same extreme answer.`,
+        });
+    }
+
+    if (sectionTimings) {
+        const timedDomains = instrument.domains.filter(domain => typeof sectionTimings[domain.name] === 'number');
+        const seconds = timedDomains.reduce((sum, domain) => sum + sectionTimings[domain.name], 0);
+        const answered = timedDomains
+            .flatMap(domain => domain.items)
+            .filter(item => answers[item.id] !== undefined).length;
+        if (answered > 0 && seconds < answered * MIN_SECONDS_PER_ITEM) {
+            indicators.push({
+                kind: 'fast_completion',
+                detail: `${answered} items were answered in ${Math.round(seconds)} seconds, under ${MIN_SECONDS_PER_ITEM} seconds per item.`,
+            });
+        }
+    }
+
+    if (shownOptional >= MIN_ITEMS_FOR_MISSING && missingOptional / shownOptional > MAX_MISSING_SHARE) {
+        indicators.push({
+            kind: 'missing_items',
+            detail: `${missingOptional} of ${shownOptional} optional items shown were left unanswered.`,
+        });
+    }
+
+    return indicators;
+}
+
+/**
+ * Returns the report as its owner may see it, without the validity indicators, which are
+ * for clinical review only.
+ */
+export const withoutValidityIndicators = (report: IndividualData): IndividualData => {
+    if (!report.validityIndicators) return report;
+    const { validityIndicators, ...rest } = report;
+    return rest;
+};
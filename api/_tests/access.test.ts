@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import accessHandler from '../access.js';
+import historyHandler from '../history.js';
+import { issueAccessToken } from '../_lib/accessTokens.js';
+import { derivePersonId } from '../_lib/identity.js';
+import { generateReportFromJotform } from '../_lib/logic.js';
+import { getReportRepository, setReportRepository } from '../_lib/repository/index.js';
+import { InMemoryReportRepository } from '../_lib/repository/memory.js';
+import type { EmailMessage } from '../_lib/mailer.js';
+import { callRoute } from './http.js';
+
+const sent = vi.hoisted(() => [] as EmailMessage[]);
+vi.mock('../_lib/mailer.js', () => ({
+    getMailer: () => ({ send: async (message: EmailMessage) => { sent.push(message); } }),
+}));
+
+const EMAIL = 'alex@example.com';
+
+const saveReport = (submissionId: string, assessmentDate: string) => getReportRepository().save(generateReportFromJotform({
+    submissionId,
+    firstName: 'Alex',
+    lastName: 'Doe',
+    email: EMAIL,
+    assessmentDate,
+    answers: {},
+}));
+
+const access = (body: object) => callRoute(accessHandler, { body });
+const history = (token: string) => callRoute(historyHandler, { method: 'GET', query: { token } });
+const lastCode = () => sent[sent.length - 1].text.match(/\b\d{6}\b/)![0];
+
+beforeEach(async () => {
+    vi.stubEnv('REPORT_LINK_SECRET', 'test-secret');
+    sent.length = 0;
+    setReportRepository(new InMemoryReportRepository());
+    await saveReport('report-1', '2026-09-01');
+    await saveReport('report-2', '2026-10-01');
+});
+
+afterEach(() => {
+    setReportRepository(null);
+    vi.unstubAllEnvs();
+});
+
+describe('confirming the email of a report', () => {
+    it('leaves a report out of the history until its email is confirmed', async () => {
+        const result = await history(issueAccessToken('report-2', 'owner'));
+
+        expect(result.body.emailVerified).toBe(false);
+        expect(result.body.entries.map((entry: { submissionId: string }) => entry.submissionId)).toEqual(['report-2']);
+    });
+
+    it('links every report of the address into the history after verify-code', async () => {
+        expect((await access({ action: 'request-code', email: EMAIL })).status).toBe(200);
+        const verified = await access({ action: 'verify-code', email: EMAIL, code: lastCode() });
+
+        expect(verified.status).toBe(200);
+        expect(verified.body.map((link: { submissionId: string }) => link.submissionId)).toEqual(['report-2', 'report-1']);
+
+        const result = await history(verified.body[0].accessToken);
+        expect(result.body.emailVerified).toBe(true);
+        expect(result.body.entries.map((entry: { submissionId: string }) => entry.submissionId)).toEqual(['report-1', 'report-2']);
+    });
+
+    it('links only the confirmed report into the history after confirm-email', async () => {
+        const token = issueAccessToken('report-2', 'owner');
+        expect((await access({ action: 'request-confirmation', token })).status).toBe(200);
+        const confirmed = await access({ action: 'confirm-email', token, code: lastCode() });
+
+        expect(confirmed.status).toBe(200);
+        const result = await history(confirmed.body.accessToken);
+        expect(result.body.emailVerified).toBe(true);
+        expect(result.body.entries.map((entry: { submissionId: string }) => entry.submissionId)).toEqual(['report-2']);
+    });
+
+    it('does not link reports after a wrong code', async () => {
+        await access({ action: 'request-code', email: EMAIL });
+        const code = lastCode() === '000000' ? '000001' : '000000';
+        const rejected = await access({ action: 'verify-code', email: EMAIL, code });
+
+        expect(rejected.status).toBe(400);
+        expect(await getReportRepository().listVerifiedByPerson(derivePersonId(EMAIL))).toEqual([]);
+    });
+});
+
+describe('limiting one-time codes', () => {
+    const wrongCode = () => (lastCode() === '000000' ? '000001' : '000000');
+
+    it('stops sending codes to a person after five an hour', async () => {
+        for (let i = 0; i < 5; i++) {
+            expect((await access({ action: 'request-code', email: EMAIL })).status).toBe(200);
+        }
+        const limited = await access({ action: 'request-code', email: EMAIL });
+
+        expect(limited.status).toBe(429);
+        expect(sent).toHaveLength(5);
+        expect((await access({ action: 'request-confirmation', token: issueAccessToken('report-1', 'owner') })).status).toBe(429);
+    });
+
+    it('limits requests for an address without reports the same way', async () => {
+        for (let i = 0; i < 5; i++) {
+            expect((await access({ action: 'request-code', email: 'nobody@example.com' })).status).toBe(200);
+        }
+        expect((await access({ action: 'request-code', email: 'nobody@example.com' })).status).toBe(429);
+        expect(sent).toEqual([]);
+    });
+
+    it('stops sending codes to a client after ten an hour', async () => {
+        for (let i = 0; i < 10; i++) {
+            expect((await access({ action: 'request-code', email: `person-${i}@example.com` })).status).toBe(200);
+        }
+        expect((await access({ action: 'request-code', email: EMAIL })).status).toBe(429);
+        expect((await callRoute(accessHandler, {
+            body: { action: 'request-code', email: EMAIL },
+            headers: { 'x-forwarded-for': '198.51.100.7' },
+        })).status).toBe(200);
+    });
+
+    it('refuses even the right code once a person has used up the daily budget, however many new codes they request', async () => {
+        for (let round = 0; round < 2; round++) {
+            await access({ action: 'request-code', email: EMAIL });
+            const code = wrongCode();
+            for (let attempt = 0; attempt < 5; attempt++) {
+                expect((await access({ action: 'verify-code', email: EMAIL, code })).status).toBe(400);
+            }
+        }
+
+        await access({ action: 'request-code', email: EMAIL });
+        const locked = await access({ action: 'verify-code', email: EMAIL, code: lastCode() });
+
+        expect(locked.status).toBe(429);
+        expect(await getReportRepository().findAccessCode(derivePersonId(EMAIL))).toBeNull();
+        expect(await getReportRepository().listVerifiedByPerson(derivePersonId(EMAIL))).toEqual([]);
+    });
+
+    it('counts simultaneous guesses against the budget one by one', async () => {
+        await access({ action: 'request-code', email: EMAIL });
+        const code = wrongCode();
+        const results = await Promise.all(Array.from({ length: 12 }, () => access({ action: 'verify-code', email: EMAIL, code })));
+
+        expect(results.filter(result => result.status === 429)).toHaveLength(2);
+    });
+});
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import draftsHandler from '../drafts.js';
+import { currentInstrument } from '../_lib/instruments/index.js';
+import { setReportRepository } from '../_lib/repository/index.js';
+import { InMemoryReportRepository } from '../_lib/repository/memory.js';
+import type { EmailMessage } from '../_lib/mailer.js';
+import type { AssessmentDraft } from '../_lib/types.js';
+import { depressionAnswers } from './reports.js';
+import { callRoute } from './http.js';
+
+const sent = vi.hoisted(() => [] as EmailMessage[]);
+vi.mock('../_lib/mailer.js', () => ({
+    getMailer: () => ({ send: async (message: EmailMessage) => { sent.push(message); } }),
+}));
+
+const NOW = new Date('2026-10-19T09:00:00Z').getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const draft: AssessmentDraft = {
+    instrumentVersion: currentInstrument.version,
+    step: 2,
+    firstName: 'Alex',
+    lastName: 'Doe',
+    email: 'alex@example.com',
+    answers: depressionAnswers(3),
+    sectionTimings: { Depression: 40 },
+};
+
+const drafts = (body: object, headers: { [name: string]: string } = {}) => callRoute(draftsHandler, { body, headers });
+
+beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+    vi.stubEnv('APP_URL', 'https://wellness.example.com/');
+    sent.length = 0;
+    setReportRepository(new InMemoryReportRepository());
+});
+
+afterEach(() => {
+    setReportRepository(null);
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+describe('/api/drafts', () => {
+    it('saves a draft and resumes it from its code however the code is typed', async () => {
+        const saved = await drafts({ action: 'save', draft });
+        expect(saved.status).toBe(200);
+        expect(saved.body.code).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+        expect(saved.body.expiresAt).toBe(new Date(NOW + 7 * DAY_MS).toISOString());
+
+        const typed = `${saved.body.code.slice(0, 4).toLowerCase()}-${saved.body.code.slice(4)}`;
+        const loaded = await drafts({ action: 'load', code: typed });
+        expect(loaded.status).toBe(200);
+        expect(loaded.body).toEqual({ draft, code: saved.body.code, expiresAt: saved.body.expiresAt });
+    });
+
+    it('keeps the code when the draft is saved again, and extends its expiry', async () => {
+        const { code } = (await drafts({ action: 'save', draft })).body;
+        vi.setSystemTime(NOW + DAY_MS);
+        const resaved = await drafts({ action: 'save', draft: { ...draft, step: 3 }, code });
+
+        expect(resaved.body).toEqual({ code, expiresAt: new Date(NOW + 8 * DAY_MS).toISOString() });
+        expect((await drafts({ action: 'load', code })).body.draft.step).toBe(3);
+    });
+
+    it('does not resume an expired or deleted draft', async () => {
+        const { code } = (await drafts({ action: 'save', draft })).body;
+        vi.setSystemTime(NOW + 7 * DAY_MS);
+        expect((await drafts({ action: 'load', code })).status).toBe(404);
+
+        const { code: newCode } = (await drafts({ action: 'save', draft, code })).body;
+        expect(newCode).not.toBe(code);
+        expect((await drafts({ action: 'delete', code: newCode })).status).toBe(200);
+        expect((await drafts({ action: 'load', code: newCode })).status).toBe(404);
+    });
+
+    it('refuses a malformed draft', async () => {
+        const refused = await drafts({ action: 'save', draft: { ...draft, answers: { item: 'often' } } });
+        expect(refused.status).toBe(400);
+        expect(refused.body.error).toBe('The draft is malformed.');
+    });
+
+    it('emails a resume link to the configured app', async () => {
+        const saved = await drafts({ action: 'save', draft, sendLink: true });
+
+        expect(saved.status).toBe(200);
+        expect(sent).toHaveLength(1);
+        expect(sent[0].to).toBe('alex@example.com');
+        expect(sent[0].text).toContain(`https://wellness.example.com/?resume=${saved.body.code}`);
+    });
+
+    it('sends no link without APP_URL, however the request names its host', async () => {
+        vi.stubEnv('APP_URL', '');
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const refused = await drafts({ action: 'save', draft, sendLink: true }, { host: 'attacker.example.com' });
+
+        expect(refused.status).toBe(500);
+        expect(sent).toEqual([]);
+    });
+
+    it('limits resume links per recipient and per client', async () => {
+        for (let i = 0; i < 3; i++) {
+            expect((await drafts({ action: 'save', draft, sendLink: true })).status).toBe(200);
+        }
+        expect((await drafts({ action: 'save', draft, sendLink: true })).status).toBe(429);
+        expect(sent).toHaveLength(3);
+
+        const other = { ...draft, email: 'sam@example.com' };
+        expect((await drafts({ action: 'save', draft: other, sendLink: true })).status).toBe(200);
+        expect((await drafts({ action: 'save', draft: other, sendLink: true })).status).toBe(429);
+        expect((await drafts({ action: 'save', draft: other, sendLink: true }, { 'x-forwarded-for': '198.51.100.7' })).status).toBe(200);
+    });
+});
@@ -0,0 +1,48 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+// Calls API route handlers in tests with just enough of a Vercel request and response.
+
+export interface RouteRequest {
+    method?: string;
+    body?: unknown;
+    rawBody?: string; // Streamed to handlers that read the request themselves, such as multipart uploads
+    query?: { [name: string]: string };
+    headers?: { [name: string]: string };
+}
+
+export interface RouteResponse {
+    status: number;
+    headers: { [name: string]: unknown };
+    body: any; // The parsed JSON body, or the text written
+}
+
+type Handler = (request: VercelRequest, response: VercelResponse) => unknown;
+
+/**
+ * Runs a route handler to completion and returns what it responded with.
+ */
+export async function callRoute(handler: Handler, { method = 'POST', body, rawBody, query = {}, headers = {} }: RouteRequest): Promise<RouteResponse> {
+    const result: RouteResponse = { status: 200, headers: {}, body: undefined };
+    let text = '';
+    const response = {
+        status(code: number) { result.status = code; return response; },
+        setHeader(name: string, value: unknown) { result.headers[name.toLowerCase()] = value; return response; },
+        writeHead(code: number, writtenHeaders: { [name: string]: unknown } = {}) {
+            result.status = code;
+            for (const [name, value] of Object.entries(writtenHeaders)) result.headers[name.toLowerCase()] = value;
+            return response;
+        },
+        json(value: unknown) { result.body = JSON.parse(JSON.stringify(value)); return response; },
+        write(chunk: string) { text += chunk; return true; },
+        end(chunk?: string) { if (chunk) text += chunk; return response; },
+        send(value: string) { text += value; return response; },
+    };
+    const request = {
+        method, body, query, headers: { 'x-forwarded-for': '203.0.113.1', ...headers }, socket: {},
+        async *[Symbol.asyncIterator]() { if (rawBody !== undefined) yield new TextEncoder().encode(rawBody); },
+    };
+
+    await handler(request as unknown as VercelRequest, response as unknown as VercelResponse);
+    if (result.body === undefined) result.body = text;
+    return result;
+}
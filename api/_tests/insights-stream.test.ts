@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import streamHandler from '../insights-stream.js';
+import { issueAccessToken } from '../_lib/accessTokens.js';
+import { LlmProvider, LlmProviderError, setLlmProvider } from '../_lib/llm/index.js';
+import { getReportRepository, setReportRepository } from '../_lib/repository/index.js';
+import { InMemoryReportRepository } from '../_lib/repository/memory.js';
+import { buildReport } from './reports.js';
+import { callRoute } from './http.js';
+
+// Splits a server-sent event stream into its events, with their data parsed.
+const parseEvents = (text: string): { event: string; data: any }[] => text
+    .split('\n\n')
+    .filter(block => block.trim())
+    .map(block => {
+        const [eventLine, dataLine] = block.split('\n');
+        return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+    });
+
+const stream = (token: string, headers: { [name: string]: string } = {}) =>
+    callRoute(streamHandler, { method: 'GET', query: { token }, headers });
+
+const report = buildReport('report-1');
+
+beforeEach(async () => {
+    vi.stubEnv('REPORT_LINK_SECRET', 'test-secret');
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    setLlmProvider(null);
+    setReportRepository(new InMemoryReportRepository());
+    await getReportRepository().save(report);
+});
+
+afterEach(() => {
+    setLlmProvider(null);
+    setReportRepository(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+describe('/api/insights-stream', () => {
+    it('sends an insight event for every domain, then done', async () => {
+        const result = await stream(issueAccessToken('report-1', 'owner'));
+
+        expect(result.status).toBe(200);
+        expect(result.headers['content-type']).toBe('text/event-stream');
+        const events = parseEvents(result.body);
+        expect(events.filter(({ event }) => event === 'insight')).toHaveLength(report.domains.length);
+        expect(events[events.length - 1]).toMatchObject({ event: 'done', data: { version: 1, source: 'model', model: 'mock/mock' } });
+        expect(events[events.length - 1].data.insights).toBeUndefined();
+    });
+
+    it('sends the stored insights on the next load instead of writing new ones', async () => {
+        const token = issueAccessToken('report-1', 'owner');
+        const first = parseEvents((await stream(token)).body);
+        const generateJson = vi.fn();
+        setLlmProvider({ name: 'unused', model: 'unused', generateJson } as LlmProvider);
+
+        const second = parseEvents((await stream(token)).body);
+        expect(second).toEqual(first);
+        expect(generateJson).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the template insight of a domain the model fails on', async () => {
+        setLlmProvider({ name: 'down', model: 'down', generateJson: async () => { throw new LlmProviderError('Unavailable.'); } });
+        const events = parseEvents((await stream(issueAccessToken('report-1', 'owner'))).body);
+
+        expect(events.filter(({ event }) => event === 'insight').every(({ data }) => data.source === 'fallback')).toBe(true);
+        expect(events[events.length - 1].data).toMatchObject({ source: 'fallback' });
+    });
+
+    it('reports an error event if the stream fails part-way', async () => {
+        vi.spyOn(getReportRepository(), 'findInsights').mockRejectedValueOnce(new Error('Connection lost.'));
+        const result = await stream(issueAccessToken('report-1', 'owner'));
+
+        expect(result.status).toBe(200);
+        expect(parseEvents(result.body)).toEqual([
+            { event: 'error', data: { error: 'An internal server error occurred while generating insights.' } },
+        ]);
+    });
+
+    it('answers with JSON errors before the stream starts', async () => {
+        expect((await callRoute(streamHandler, { method: 'GET' })).status).toBe(400);
+        expect((await stream('not-a-token')).status).toBe(401);
+        expect((await stream(issueAccessToken('missing', 'owner'))).status).toBe(404);
+    });
+});
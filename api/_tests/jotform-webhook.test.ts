@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import webhookHandler from '../jotform-webhook.js';
+import { getReportRepository, setReportRepository } from '../_lib/repository/index.js';
+import { InMemoryReportRepository } from '../_lib/repository/memory.js';
+import { buildJotformDelivery } from './jotform.js';
+import { callRoute } from './http.js';
+
+const deliver = (secret: string | undefined, submissionID = '6012345678901234567') => {
+    const { body, contentType } = buildJotformDelivery(submissionID);
+    return callRoute(webhookHandler, {
+        rawBody: body,
+        headers: { 'content-type': contentType },
+        query: secret === undefined ? {} : { secret },
+    });
+};
+
+beforeEach(() => {
+    vi.stubEnv('JOTFORM_WEBHOOK_SECRET', 'webhook-secret');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    setReportRepository(new InMemoryReportRepository());
+});
+
+afterEach(() => {
+    setReportRepository(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+describe('/api/jotform-webhook', () => {
+    it('accepts nothing until a secret is configured', async () => {
+        vi.stubEnv('JOTFORM_WEBHOOK_SECRET', '');
+        expect((await deliver('webhook-secret')).status).toBe(503);
+    });
+
+    it('rejects a missing or wrong secret', async () => {
+        expect((await deliver(undefined)).status).toBe(401);
+        expect((await deliver('webhook-secreT')).status).toBe(401);
+        expect((await deliver('webhook-secret-and-more')).status).toBe(401);
+        expect(await getReportRepository().list()).toEqual([]);
+    });
+
+    it('scores and stores a multipart delivery once', async () => {
+        const stored = await deliver('webhook-secret');
+        expect(stored.status).toBe(200);
+        expect(stored.body).toEqual({ message: 'Report processed successfully.', submissionId: 'JF-6012345678901234567' });
+
+        const report = await getReportRepository().findById('JF-6012345678901234567');
+        expect(report?.email).toBe('alex@example.com');
+        expect(report?.domains.find(domain => domain.name === 'Depression')?.userInterpretation).toBe('Moderate');
+
+        const retried = await deliver('webhook-secret');
+        expect(retried.body.message).toBe('Submission already processed.');
+    });
+});
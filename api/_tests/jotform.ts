@@ -0,0 +1,43 @@
+// Jotform webhook deliveries for tests.
+
+// A delivery as the live form posts it: the answers to the depression screeners and short
+// form, the anger screener, and a metadata field that is not an item.
+export const liveFormRawRequest = {
+    slug: 'submit/241234567890123',
+    jsExecutionTracker: 'build-date-1729324800000=>init-started:1729324801000',
+    submitSource: 'form',
+    q3_name: { first: ' Alex ', last: 'Doe' },
+    q4_email: 'alex@example.com ',
+    q5_ltemgtinTheltemgtltstronggtItemgt: 'Several days',
+    q6_ltemgtinTheltemgtltstronggtItemgt5: 'Nearly every day',
+    q7_ltemgtinTheltemgtltstronggtItemgt6: 'Often',
+    q8_ltemgtinTheltemgtltstronggtItemgt7: 'Sometimes',
+    q9_ltemgtinTheltemgtltstronggtltemgt8: 'Often',
+    q10_ltemgtinTheltemgtltstronggtItemgt9: 'Always',
+    q11_ltemgtinTheltemgtltstronggtitemgt10: 'Sometimes',
+    q12_ltemgtinTheltemgtltstronggtitemgt11: 'Often',
+    q13_ltemgtinTheltemgtltstronggtitemgt13: 'Often',
+    q14_ltemgtinTheltemgtltstronggtltemgt14: 'Rarely',
+    q15_ltemgtinTheltemgtltstronggtItemgt15: 'Not at all',
+    q90_howDid: 'A friend',
+    event_id: '1729324801000_241234567890123_abcdefg',
+};
+
+export const BOUNDARY = '------------------------8f2c1d6e4b3a5f70';
+
+/**
+ * Builds a multipart/form-data body the way Jotform's webhook sends it.
+ */
+export const buildJotformDelivery = (submissionID: string, request: object = liveFormRawRequest): { body: string; contentType: string } => {
+    const field = (name: string, value: string) =>
+        `--${BOUNDARY}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`;
+    const body = field('action', '')
+        + field('webhookURL', 'https://example.com/api/jotform-webhook')
+        + field('formID', '241234567890123')
+        + field('submissionID', submissionID)
+        + field('pretty', 'Name:Alex Doe, Email:alex@example.com')
+        + field('rawRequest', JSON.stringify(request))
+        + `--${BOUNDARY}\r\nContent-Disposition: form-data; name="upload"; filename="notes.txt"\r\nContent-Type: text/plain\r\n\r\nignored\r\n`
+        + `--${BOUNDARY}--\r\n`;
+    return { body, contentType: `multipart/form-data; boundary=${BOUNDARY}` };
+};
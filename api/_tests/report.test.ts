@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import submitHandler from '../submit-assessment.js';
+import reportHandler from '../report.js';
+import { getReportRepository, setReportRepository } from '../_lib/repository/index.js';
+import { InMemoryReportRepository } from '../_lib/repository/memory.js';
+import { completeAnswers, depressionAnswers } from './reports.js';
+import { callRoute } from './http.js';
+
+beforeEach(() => {
+    vi.stubEnv('REPORT_LINK_SECRET', 'test-secret');
+    vi.stubEnv('STORAGE_BACKEND', 'memory');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    setReportRepository(null);
+});
+
+afterEach(() => {
+    setReportRepository(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+describe('submitting an assessment and opening its report', () => {
+    it('serves the stored report with the link the submission returned', async () => {
+        const submitted = await callRoute(submitHandler, {
+            body: { firstName: 'Alex', lastName: 'Doe', email: 'alex@example.com', answers: completeAnswers(depressionAnswers(5)) },
+        });
+        expect(submitted.status).toBe(200);
+        expect(getReportRepository()).toBeInstanceOf(InMemoryReportRepository);
+
+        const served = await callRoute(reportHandler, { method: 'GET', query: { token: submitted.body.accessToken } });
+        expect(served.status).toBe(200);
+        const report = JSON.parse(served.body);
+        expect(report.individualId).toBe(submitted.body.submissionId);
+        expect(report.domains.find((domain: { name: string }) => domain.name === 'Depression').userInterpretation).toBe('Severe');
+    });
+
+    it('builds the executive summary and template insights when serving the report, without storing them', async () => {
+        const submitted = await callRoute(submitHandler, {
+            body: { firstName: 'Alex', lastName: 'Doe', email: 'alex@example.com', answers: completeAnswers(depressionAnswers(3)) },
+        });
+        const report = JSON.parse((await callRoute(reportHandler, { method: 'GET', query: { token: submitted.body.accessToken } })).body);
+
+        expect(report.executiveSummary).toMatchObject({
+            overview: 'Alex, the area that stands out most in your results is Depression.',
+            careTier: 'counsellor',
+        });
+        expect(report.domains.every((domain: { insightsAndSupport?: string }) => domain.insightsAndSupport)).toBe(true);
+
+        const stored = await getReportRepository().findById(submitted.body.submissionId);
+        expect(stored?.executiveSummary).toBeUndefined();
+        expect(stored?.domains.some(domain => domain.insightsAndSupport)).toBe(false);
+    });
+
+    it('refuses a submission with field errors and stores nothing', async () => {
+        const refused = await callRoute(submitHandler, {
+            body: { firstName: '', email: 'alex@example.com', answers: completeAnswers({}) },
+        });
+
+        expect(refused.status).toBe(400);
+        expect(refused.body.fieldErrors).toEqual([{ field: 'firstName', message: 'Your first name is required.' }]);
+        expect(await getReportRepository().list()).toEqual([]);
+    });
+
+    it('does not serve a report without a valid link', async () => {
+        expect((await callRoute(reportHandler, { method: 'GET' })).status).toBe(400);
+        expect((await callRoute(reportHandler, { method: 'GET', query: { token: 'not-a-token' } })).status).toBe(401);
+    });
+});
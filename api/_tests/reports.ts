@@ -0,0 +1,78 @@
+import { generateReportFromJotform, JotformSubmission } from '../_lib/logic.js';
+import { currentInstrument } from '../_lib/instruments/index.js';
+import { getItemResponseScale, getShownAnswers } from '../_lib/instrument.js';
+import type { Domain, IndividualData } from '../_lib/types.js';
+
+// Submissions and reports for tests, answered on the current instrument.
+
+const findDomain = (name: string) => currentInstrument.domains.find(domain => domain.name === name)!;
+
+const depression = findDomain('Depression');
+
+/**
+ * Answers the Depression screeners so the short form is shown, and every short-form item
+ * with the same option (1 to 5; 3 is Moderate, 5 is Severe).
+ */
+export const depressionAnswers = (value: number): { [itemId: string]: number } => Object.fromEntries(depression.items
+    .map(item => [item.id, item.scored === false ? 2 : value]));
+
+/**
+ * Answers the first item of a single-threshold screening domain, such as Suicidal Ideation
+ * or Psychosis; anything above 0 indicates further inquiry.
+ */
+export const screeningAnswers = (domainName: string, value: number): { [itemId: string]: number } =>
+    ({ [findDomain(domainName).items[0].id]: value });
+
+/**
+ * Completes answers the way the form would accept them: every other required question gets
+ * its lowest option, and answers to questions that end up hidden are dropped.
+ */
+export const completeAnswers = (answers: { [itemId: string]: number }): { [itemId: string]: number } => {
+    const completed = { ...answers };
+    for (const domain of currentInstrument.domains) {
+        for (const item of domain.items) {
+            if (!item.mandatory || completed[item.id] !== undefined) continue;
+            completed[item.id] = Math.min(...getItemResponseScale(currentInstrument, domain, item).options.map(option => option.value));
+        }
+    }
+    return getShownAnswers(currentInstrument, completed);
+};
+
+export const buildSubmission = (
+    submissionId: string,
+    answers: JotformSubmission['answers'] = {},
+    extra: Partial<JotformSubmission> = {},
+): JotformSubmission => ({
+    submissionId,
+    firstName: 'Alex',
+    lastName: 'Doe',
+    email: 'alex@example.com',
+    assessmentDate: '2026-10-19',
+    answers,
+    ...extra,
+});
+
+export const buildReport = (
+    submissionId: string,
+    answers: JotformSubmission['answers'] = {},
+    extra: Partial<JotformSubmission> = {},
+): IndividualData => generateReportFromJotform(buildSubmission(submissionId, answers, extra));
+
+/**
+ * A domain result with just a name and interpretation, for rules that read nothing else.
+ * A null score marks the domain as unscored.
+ */
+export const buildDomain = (name: string, userInterpretation: string, score: number | null = 1): Domain => ({
+    name,
+    about: '',
+    aboutLink: '',
+    result: userInterpretation,
+    score,
+    tScore: null,
+    standardError: null,
+    percentile: null,
+    userInterpretation,
+    referenceIntervals: [],
+    insightsAndSupport: '',
+    individualsExperienced: [],
+});
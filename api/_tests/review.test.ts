@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import reviewHandler from '../review.js';
+import { loadReport } from '../_lib/reportVersions.js';
+import { getReportRepository, setReportRepository } from '../_lib/repository/index.js';
+import { InMemoryReportRepository } from '../_lib/repository/memory.js';
+import { buildReport } from './reports.js';
+import { callRoute } from './http.js';
+
+const clinician = { authorization: 'Bearer mehta-token' };
+const review = (body: object, headers = clinician) => callRoute(reviewHandler, { headers, body });
+
+beforeEach(async () => {
+    vi.stubEnv('CLINICIAN_TOKENS', 'dr.mehta:mehta-token,dr.rao:rao-token');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    setReportRepository(new InMemoryReportRepository());
+    const repository = getReportRepository();
+    await repository.save(buildReport('report-1'));
+    await repository.saveReviewer({
+        name: 'dr.mehta',
+        displayName: 'Dr. Asha Mehta',
+        credentials: 'M.Phil. Clinical Psychology',
+        registrationNumber: 'A12345',
+        registrationBody: 'Rehabilitation Council of India',
+    });
+});
+
+afterEach(() => {
+    setReportRepository(null);
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+});
+
+describe('/api/review', () => {
+    it('signs a report once', async () => {
+        const signed = await review({ submissionId: 'report-1', action: 'sign', comments: 'Reviewed.' });
+        expect(signed.status).toBe(200);
+        expect((await loadReport('report-1'))?.signOff?.reviewer.displayName).toBe('Dr. Asha Mehta');
+
+        const again = await review({ submissionId: 'report-1', action: 'sign' });
+        expect(again.status).toBe(409);
+    });
+
+    it('stores amendments as new versions and keeps every signed version', async () => {
+        await review({ submissionId: 'report-1', action: 'sign', comments: 'First review.' });
+        const amended = await review({ submissionId: 'report-1', action: 'amend', reason: 'New information.', comments: 'Second review.' });
+        expect(amended.status).toBe(200);
+        await review({ submissionId: 'report-1', action: 'amend', reason: 'More information.', comments: 'Third review.' });
+
+        expect((await loadReport('report-1'))?.version).toBe(3);
+        expect((await loadReport('report-1', 1))?.signOff?.comments).toBe('First review.');
+        expect((await loadReport('report-1', 2))?.signOff?.comments).toBe('Second review.');
+        expect((await loadReport('report-1', 3))?.amendment).toEqual({ previousVersion: 2, reason: 'More information.' });
+        expect(await loadReport('report-1', 4)).toBeNull();
+    });
+
+    it('refuses to amend an unsigned report', async () => {
+        const amended = await review({ submissionId: 'report-1', action: 'amend', reason: 'New information.' });
+        expect(amended.status).toBe(409);
+    });
+
+    it('only lets clinicians with a reviewer record sign', async () => {
+        expect((await review({ submissionId: 'report-1', action: 'sign' }, { authorization: 'Bearer wrong' })).status).toBe(401);
+        expect((await review({ submissionId: 'report-1', action: 'sign' }, { authorization: 'Bearer rao-token' })).status).toBe(403);
+    });
+});
@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import triageHandler from '../triage.js';
+import { getReportRepository, setReportRepository } from '../_lib/repository/index.js';
+import { InMemoryReportRepository } from '../_lib/repository/memory.js';
+import { buildReport, depressionAnswers } from './reports.js';
+import { callRoute } from './http.js';
+
+const clinician = { authorization: 'Bearer mehta-token' };
+
+beforeEach(async () => {
+    vi.stubEnv('REPORT_LINK_SECRET', 'test-secret');
+    vi.stubEnv('CLINICIAN_TOKENS', 'dr.mehta:mehta-token');
+    setReportRepository(new InMemoryReportRepository());
+    await getReportRepository().save(buildReport('report-1', depressionAnswers(5)));
+});
+
+afterEach(() => {
+    setReportRepository(null);
+    vi.unstubAllEnvs();
+});
+
+describe('/api/triage', () => {
+    it('requires a clinician token', async () => {
+        expect((await callRoute(triageHandler, { method: 'GET' })).status).toBe(401);
+        expect((await callRoute(triageHandler, { method: 'GET', headers: { authorization: 'Bearer wrong' } })).status).toBe(401);
+    });
+
+    it('keeps a case and its audit trail in the repository', async () => {
+        const assigned = await callRoute(triageHandler, {
+            headers: clinician,
+            body: { submissionId: 'report-1', action: 'assign', assignee: 'dr.rao' },
+        });
+        expect(assigned.status).toBe(200);
+
+        const queue = await callRoute(triageHandler, { method: 'GET', headers: clinician });
+        expect(queue.body).toHaveLength(1);
+        expect(queue.body[0]).toMatchObject({ submissionId: 'report-1', priority: 'high', status: 'acknowledged', assignee: 'dr.rao' });
+        expect(queue.body[0].audit).toEqual([expect.objectContaining({ action: 'assign', actor: 'dr.mehta', assignee: 'dr.rao' })]);
+
+        const resolved = await callRoute(triageHandler, {
+            headers: clinician,
+            body: { submissionId: 'report-1', action: 'resolve', note: 'Seen in clinic.' },
+        });
+        expect(resolved.status).toBe(200);
+        expect((await callRoute(triageHandler, { method: 'GET', headers: clinician })).body).toEqual([]);
+        expect((await callRoute(triageHandler, { method: 'GET', headers: clinician, query: { status: 'all' } })).body).toHaveLength(1);
+    });
+
+    it('refuses an action the case does not allow', async () => {
+        const resolve = { submissionId: 'report-1', action: 'resolve', note: 'Seen in clinic.' };
+        await callRoute(triageHandler, { headers: clinician, body: resolve });
+
+        const again = await callRoute(triageHandler, { headers: clinician, body: resolve });
+        expect(again.status).toBe(409);
+        expect(again.body.error).toBe('This case has already been resolved.');
+    });
+
+    it('refuses actions on reports that do not exist', async () => {
+        const missing = await callRoute(triageHandler, { headers: clinician, body: { submissionId: 'missing', action: 'acknowledge' } });
+        expect(missing.status).toBe(404);
+    });
+});
@@ -0,0 +1,201 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getReportRepository } from './_lib/repository/index.js';
+import { derivePersonId, normalizeEmail } from './_lib/identity.js';
+import { ACCESS_CODE_TTL_MS, checkAccessCode, createAccessCode } from './_lib/accessCodes.js';
+import { authorizeReportAccess, issueAccessToken } from './_lib/accessTokens.js';
+import { getMailer } from './_lib/mailer.js';
+import { getClientIp, isRateLimited, RateLimit } from './_lib/rateLimit.js';
+import type { ReportRepository } from './_lib/repository/index.js';
+import type { ReportLink } from './_lib/types.js';
+
+// Actions:
+//   request-code          { email }         Emails a one-time code if any reports exist for the address.
+//   verify-code           { email, code }   Exchanges the code for fresh links to every report of that person.
+//                                           The code proves they own the address, so every report
+//                                           taken with it is confirmed and joins their history.
+//   request-confirmation  { token }         Emails a one-time code to the address the token's report was taken with.
+//   confirm-email         { token, code }   Confirms that address, linking the report into the person's
+//                                           history, and returns a fresh link to it.
+//   revoke                { token }         Invalidates every link issued so far to the token holder's reports.
+
+// Codes are emailed to the person's own address, but each one is an email they did not
+// necessarily ask for, so how many may be sent is limited both per client and per person.
+const CODES_PER_CLIENT: RateLimit = { max: 10, windowMs: 60 * 60 * 1000 }; // 10 an hour
+const CODES_PER_PERSON: RateLimit = { max: 5, windowMs: 60 * 60 * 1000 }; // 5 an hour
+// Each code allows a few attempts, and a new code would bring new ones, so every code entered
+// for a person also counts against a daily budget that outlasts the codes.
+const CODE_CHECKS_PER_PERSON: RateLimit = { max: 10, windowMs: 24 * 60 * 60 * 1000 }; // 10 a day
+
+const TOO_MANY_CODES = 'Too many codes have been requested. Please try again later.';
+const TOO_MANY_CHECKS = 'Too many codes have been entered. Please try again tomorrow.';
+
+// Records a request for a code from the client for the person, and checks both limits.
+const isCodeRequestLimited = async (request: VercelRequest, personId: string): Promise<boolean> =>
+  await isRateLimited(`access-code:client:${getClientIp(request)}`, CODES_PER_CLIENT)
+  || await isRateLimited(`access-code:person:${personId}`, CODES_PER_PERSON);
+
+// Emails a new one-time code for the person to the address.
+async function sendAccessCode(repository: ReportRepository, email: string, personId: string): Promise<void> {
+  const { code: oneTimeCode, record } = createAccessCode(personId);
+  await repository.saveAccessCode(record);
+  await getMailer().send({
+    to: normalizeEmail(email),
+    subject: 'Your code to view your Mental Wellness Report',
+    text: `Your one-time code is ${oneTimeCode}. It expires in ${ACCESS_CODE_TTL_MS / 60000} minutes.\n\n`
+      + 'If you did not ask for this code, you can ignore this email.',
+  });
+}
+
+// Checks a code entered for a person, using up an attempt if it is wrong and the code if it is right.
+// Returns the status and error to respond with, or null if the code is valid.
+async function redeemAccessCode(repository: ReportRepository, personId: string, code: string): Promise<{ status: number; error: string } | null> {
+  // The check is recorded before the code is looked at, so simultaneous guesses each use up
+  // part of the budget even though the per-code count below is read and written separately.
+  // Once the budget is used, the code is withdrawn; a correct guess would still be refused.
+  if (await isRateLimited(`access-code-check:person:${personId}`, CODE_CHECKS_PER_PERSON)) {
+    await repository.deleteAccessCode(personId);
+    return { status: 429, error: TOO_MANY_CHECKS };
+  }
+
+  const stored = await repository.findAccessCode(personId);
+  const result = stored ? checkAccessCode(stored, personId, code) : 'expired';
+
+  if (result === 'expired') {
+    if (stored) await repository.deleteAccessCode(personId);
+    return { status: 400, error: 'This code has expired. Please request a new one.' };
+  }
+  if (result === 'invalid') {
+    await repository.saveAccessCode({ ...stored!, attemptsLeft: stored!.attemptsLeft - 1 });
+    return { status: 400, error: 'That code is not correct.' };
+  }
+  await repository.deleteAccessCode(personId);
+  return null;
+}
+
+export default async function handler(
+  request: VercelRequest,
+  response: VercelResponse,
+) {
+  if (request.method !== 'POST') {
+    response.setHeader('Allow', ['POST']);
+    return response.status(405).end('Method Not Allowed');
+  }
+
+  const { action, email, code, token } = request.body || {};
+
+  try {
+    const repository = getReportRepository();
+
+    if (action === 'request-code') {
+      if (!email || typeof email !== 'string') {
+        return response.status(400).json({ error: 'Email is required.' });
+      }
+
+      // The response is the same whether or not the address has reports, so it cannot be
+      // used to find out who has taken the assessment. Requests are limited before the
+      // reports are looked up, so the limits do not tell either.
+      const personId = derivePersonId(email);
+      if (await isCodeRequestLimited(request, personId)) {
+        return response.status(429).json({ error: TOO_MANY_CODES });
+      }
+      const reports = await repository.listByPerson(personId);
+      if (reports.length > 0) {
+        await sendAccessCode(repository, email, personId);
+      }
+      return response.status(200).json({ message: 'If reports exist for this email, a code has been sent to it.' });
+    }
+
+    if (action === 'verify-code') {
+      if (!email || typeof email !== 'string' || !code || typeof code !== 'string') {
+        return response.status(400).json({ error: 'Email and code are required.' });
+      }
+
+      const personId = derivePersonId(email);
+      const codeRejection = await redeemAccessCode(repository, personId, code);
+      if (codeRejection) return response.status(codeRejection.status).json({ error: codeRejection.error });
+
+      const reports = await repository.listByPerson(personId);
+      const verifiedAt = new Date().toISOString();
+      for (const report of reports) {
+        await repository.markEmailVerified(report.individualId, verifiedAt);
+      }
+      const links: ReportLink[] = reports
+        .map(report => ({
+          submissionId: report.individualId,
+          assessmentDate: report.assessmentDate,
+          accessToken: issueAccessToken(report.individualId, 'owner', undefined, true),
+        }))
+        .reverse(); // Newest first
+      return response.status(200).json(links);
+    }
+
+    if (action === 'request-confirmation' || action === 'confirm-email') {
+      if (!token || typeof token !== 'string' || (action === 'confirm-email' && (!code || typeof code !== 'string'))) {
+        return response.status(400).json({ error: action === 'confirm-email' ? 'A report access token and code are required.' : 'A report access token is required.' });
+      }
+
+      const access = await authorizeReportAccess(token);
+      if (!access) {
+        return response.status(401).json({ error: 'This report link is invalid, has expired or has been revoked.' });
+      }
+      if (access.scope !== 'owner') {
+        return response.status(403).json({ error: 'Only the person a report belongs to can confirm its email.' });
+      }
+      const report = await repository.findById(access.sub);
+      if (!report?.personId) {
+        return response.status(400).json({ error: 'This report cannot be linked to your other assessments.' });
+      }
+
+      if (action === 'request-confirmation') {
+        if (await isCodeRequestLimited(request, report.personId)) {
+          return response.status(429).json({ error: TOO_MANY_CODES });
+        }
+        await sendAccessCode(repository, report.email, report.personId);
+        return response.status(200).json({ message: 'A code has been sent to the email this assessment was taken with.' });
+      }
+
+      const codeRejection = await redeemAccessCode(repository, report.personId, code);
+      if (codeRejection) return response.status(codeRejection.status).json({ error: codeRejection.error });
+
+      await repository.markEmailVerified(report.individualId, new Date().toISOString());
+      const link: ReportLink = {
+        submissionId: report.individualId,
+        assessmentDate: report.assessmentDate,
+        accessToken: issueAccessToken(report.individualId, 'owner', undefined, true),
+      };
+      return response.status(200).json(link);
+    }
+
+    if (action === 'revoke') {
+      if (!token || typeof token !== 'string') {
+        return response.status(400).json({ error: 'A report access token is required.' });
+      }
+
+      const access = await authorizeReportAccess(token);
+      if (!access) {
+        return response.status(401).json({ error: 'This report link is invalid, has expired or has been revoked.' });
+      }
+      if (access.scope !== 'owner') {
+        return response.status(403).json({ error: 'Only the person a report belongs to can revoke its links.' });
+      }
+
+      // Links to a confirmed report lead to all the person's other confirmed reports through the
+      // history, so all are revoked together. An unconfirmed report leads nowhere, and its holder
+      // may not own the email, so only its own links are revoked.
+      const report = await repository.findById(access.sub);
+      const confirmed = report?.personId ? await repository.listVerifiedByPerson(report.personId) : [];
+      const reports = confirmed.some(owned => owned.individualId === access.sub) ? confirmed : report ? [report] : [];
+      const revokedAt = new Date().toISOString();
+      for (const owned of reports) {
+        await repository.revokeAccess(owned.individualId, revokedAt);
+      }
+      return response.status(200).json({ message: 'All links to your reports have been revoked.' });
+    }
+
+    return response.status(400).json({ error: 'Action must be one of: request-code, verify-code, request-confirmation, confirm-email, revoke.' });
+
+  } catch (e: any) {
+    console.error('Unexpected error handling report access:', e);
+    return response.status(500).json({ error: 'An internal server error occurred.' });
+  }
+}
@@ -0,0 +1,54 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { currentInstrument } from './_lib/instruments/index.js';
+import { getItemBank, getItemBanks, ItemBankError } from './_lib/itemBanks.js';
+import { defaultStoppingRule, getBankItemScale, nextAdaptiveStep } from './_lib/irt.js';
+import { checkAdaptiveAnswers } from './_lib/answerValidation.js';
+
+// GET                          Lists the domains adaptive testing is available for.
+// POST { domain, answers }     Returns the next item to ask, given the answers so far in the
+//                              order they were given, or done once testing has stopped.
+// Scores are not returned; the domain is scored when the assessment is submitted.
+export default async function handler(
+  request: VercelRequest,
+  response: VercelResponse,
+) {
+  if (request.method !== 'GET' && request.method !== 'POST') {
+    response.setHeader('Allow', ['GET', 'POST']);
+    return response.status(405).end('Method Not Allowed');
+  }
+
+  try {
+    if (request.method === 'GET') {
+      return response.status(200).json({ domains: getItemBanks().map(bank => bank.domain) });
+    }
+
+    const { domain, answers } = request.body || {};
+    const bank = typeof domain === 'string' ? getItemBank(domain) : null;
+    if (!bank) {
+      return response.status(404).json({ error: 'Adaptive questions are not available for this section.' });
+    }
+    if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+      return response.status(400).json({ error: 'Answers must be an object keyed by question.' });
+    }
+
+    const { categories, error } = checkAdaptiveAnswers(currentInstrument, bank, answers);
+    if (error) return response.status(400).json({ error });
+
+    const step = nextAdaptiveStep(bank, categories);
+    const item = bank.items.find(i => i.id === step.nextItemId);
+    return response.status(200).json({
+      done: !item,
+      item: item ? { id: item.id, text: item.text, options: getBankItemScale(currentInstrument, bank, item).options } : null,
+      answeredCount: Object.keys(categories).length,
+      maxItems: Math.min((bank.stoppingRule ?? defaultStoppingRule).maxItems, bank.items.length),
+    });
+
+  } catch (e: any) {
+    if (e instanceof ItemBankError) {
+      console.error('Item bank configuration error:', e.message);
+      return response.status(500).json({ error: 'Adaptive questions are not available right now.' });
+    }
+    console.error('Error in /api/adaptive-items:', e);
+    return response.status(500).json({ error: 'An internal server error occurred.' });
+  }
+}
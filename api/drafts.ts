@@ -0,0 +1,95 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getReportRepository } from './_lib/repository/index.js';
+import { createResumeCode, getDraftTtlMs, hashResumeCode, isAssessmentDraft, isDraftExpired, normalizeResumeCode } from './_lib/drafts.js';
+import { derivePersonId, normalizeEmail } from './_lib/identity.js';
+import { getMailer } from './_lib/mailer.js';
+import { getClientIp, isRateLimited, RateLimit } from './_lib/rateLimit.js';
+
+// Resume links can be sent to any address, so how many may be sent is limited both per
+// client and per recipient.
+const LINKS_PER_CLIENT: RateLimit = { max: 5, windowMs: 60 * 60 * 1000 }; // 5 an hour
+const LINKS_PER_RECIPIENT: RateLimit = { max: 3, windowMs: 24 * 60 * 60 * 1000 }; // 3 a day
+
+// Actions:
+//   save    { draft, code?, sendLink? }  Stores a draft under its resume code, or a new one if it
+//                                        has none or it expired; with sendLink, emails a resume link.
+//   load    { code }                     Returns the draft stored under a resume code.
+//   delete  { code }                     Removes a draft once the assessment has been submitted.
+export default async function handler(
+  request: VercelRequest,
+  response: VercelResponse,
+) {
+  if (request.method !== 'POST') {
+    response.setHeader('Allow', ['POST']);
+    return response.status(405).end('Method Not Allowed');
+  }
+
+  const { action, draft, code, sendLink } = request.body || {};
+
+  if (code !== undefined && (typeof code !== 'string' || !normalizeResumeCode(code))) {
+    return response.status(400).json({ error: 'The resume code must be text.' });
+  }
+
+  try {
+    const repository = getReportRepository();
+
+    if (action === 'save') {
+      if (!isAssessmentDraft(draft)) {
+        return response.status(400).json({ error: 'The draft is malformed.' });
+      }
+      if (sendLink && !draft.email.trim()) {
+        return response.status(400).json({ error: 'An email address is needed to send a resume link.' });
+      }
+      // Links always point at the configured app, never at a host named by the request.
+      const appUrl = process.env.APP_URL;
+      if (sendLink && !appUrl) {
+        console.error('APP_URL is not defined in environment variables; resume links cannot be sent.');
+        return response.status(500).json({ error: 'Resume links cannot be emailed right now. Please note down your resume code instead.' });
+      }
+      if (sendLink && (await isRateLimited(`draft-link:client:${getClientIp(request)}`, LINKS_PER_CLIENT)
+        || await isRateLimited(`draft-link:recipient:${derivePersonId(draft.email)}`, LINKS_PER_RECIPIENT))) {
+        return response.status(429).json({ error: 'Too many resume links have been requested. Please try again later.' });
+      }
+
+      const existing = code ? await repository.findDraft(hashResumeCode(code)) : null;
+      const resumeCode = existing && !isDraftExpired(existing) ? normalizeResumeCode(code) : createResumeCode();
+      const now = new Date();
+      const expiresAt = new Date(now.getTime() + getDraftTtlMs()).toISOString();
+      await repository.saveDraft({ codeHash: hashResumeCode(resumeCode), draft, expiresAt, updatedAt: now.toISOString() });
+
+      if (sendLink) {
+        await getMailer().send({
+          to: normalizeEmail(draft.email),
+          subject: 'Continue your Mental Wellness Assessment',
+          text: `You can pick up your assessment where you left off at ${appUrl!.replace(/\/$/, '')}/?resume=${resumeCode}\n\n`
+            + `Your resume code is ${resumeCode}. It expires on ${expiresAt.slice(0, 10)}.\n\n`
+            + 'If you did not start this assessment, you can ignore this email.',
+        });
+      }
+      return response.status(200).json({ code: resumeCode, expiresAt });
+    }
+
+    if (action === 'load') {
+      if (!code) return response.status(400).json({ error: 'A resume code is required.' });
+
+      const stored = await repository.findDraft(hashResumeCode(code));
+      if (!stored || isDraftExpired(stored)) {
+        if (stored) await repository.deleteDraft(stored.codeHash);
+        return response.status(404).json({ error: 'This resume code is not valid or has expired.' });
+      }
+      return response.status(200).json({ draft: stored.draft, code: normalizeResumeCode(code), expiresAt: stored.expiresAt });
+    }
+
+    if (action === 'delete') {
+      if (!code) return response.status(400).json({ error: 'A resume code is required.' });
+      await repository.deleteDraft(hashResumeCode(code));
+      return response.status(200).json({ message: 'Draft deleted.' });
+    }
+
+    return response.status(400).json({ error: 'Action must be one of: save, load, delete.' });
+
+  } catch (e: any) {
+    console.error('Error in /api/drafts:', e);
+    return response.status(500).json({ error: 'An internal server error occurred.' });
+  }
+}
@@ -0,0 +1,71 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getReportRepository } from './_lib/repository/index.js';
+import { toHistoryEntry } from './_lib/history.js';
+import { getReliableChanges } from './_lib/reliableChange.js';
+import { authorizeReportAccess, issueLinkedToken } from './_lib/accessTokens.js';
+import type { AssessmentHistory } from './_lib/types.js';
+
+export default async function handler(
+  request: VercelRequest,
+  response: VercelResponse,
+) {
+  if (request.method !== 'GET') {
+    response.setHeader('Allow', ['GET']);
+    return response.status(405).end('Method Not Allowed');
+  }
+
+  const { token } = request.query;
+
+  if (!token || typeof token !== 'string') {
+    return response.status(400).json({ error: 'A report access token is required.' });
+  }
+
+  try {
+    const access = await authorizeReportAccess(token);
+    if (!access) {
+      return response.status(401).json({ error: 'This report link is invalid, has expired or has been revoked.' });
+    }
+    const id = access.sub;
+
+    const repository = getReportRepository();
+    const currentReport = await repository.findById(id);
+
+    if (!currentReport) {
+      return response.status(404).json({ error: `Report with Submission ID "${id}" not found.` });
+    }
+
+    // Reports stored before person IDs were recorded, and reports whose email has not been
+    // confirmed, have no history beyond themselves.
+    const personReports = currentReport.personId ? await repository.listVerifiedByPerson(currentReport.personId) : [];
+    if (!personReports.some(report => report.individualId === id)) {
+      const history: AssessmentHistory = {
+        personId: currentReport.personId ?? null,
+        emailVerified: false,
+        entries: [toHistoryEntry(currentReport)],
+        reliableChanges: [],
+      };
+      return response.status(200).json(history);
+    }
+
+    const personId = currentReport.personId!;
+    // Each past report gets its own link, on the same terms as the one used to get here, but
+    // only for a clinician or an owner who has proved the email by one-time code. Anyone can
+    // submit an assessment under someone else's email, and its link must not lead to theirs.
+    const canFollowLinks = access.scope === 'clinician' || access.verified === true;
+    const entries = personReports.map(report => ({
+      ...toHistoryEntry(report),
+      ...(canFollowLinks && { accessToken: issueLinkedToken(access, report.individualId) }),
+    }));
+
+    // Change is measured against the assessment taken immediately before the requested one.
+    const currentIndex = entries.findIndex(entry => entry.submissionId === id);
+    const reliableChanges = currentIndex > 0 ? getReliableChanges(entries[currentIndex - 1], entries[currentIndex]) : [];
+
+    const history: AssessmentHistory = { personId, emailVerified: true, entries, reliableChanges };
+    return response.status(200).json(history);
+
+  } catch (e: any) {
+    console.error('Unexpected error fetching assessment history:', e);
+    return response.status(500).json({ error: 'An internal server error occurred.' });
+  }
+}
@@ -0,0 +1,67 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authorizeReportAccess } from './_lib/accessTokens.js';
+import { authenticateClinician } from './_lib/auth.js';
+import { loadReport } from './_lib/reportVersions.js';
+import { streamInsights } from './_lib/insights.js';
+
+// Streams the insights for the report a link token points to as server-sent events:
+//   event: insight  one domain's InsightUpdate, as soon as it is ready
+//   event: done     the InsightSet without its text, once every domain has been sent
+//   event: error    { error } if the stream fails part-way
+// Errors before the stream starts are returned as ordinary JSON responses.
+export default async function handler(
+  request: VercelRequest,
+  response: VercelResponse,
+) {
+  if (request.method !== 'GET') {
+    response.setHeader('Allow', ['GET']);
+    return response.status(405).end('Method Not Allowed');
+  }
+
+  const { token } = request.query;
+
+  if (!token || typeof token !== 'string') {
+    return response.status(400).json({ error: 'A report access token is required.' });
+  }
+
+  let streaming = false;
+  const send = (event: string, data: unknown) => {
+    response.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    const access = await authorizeReportAccess(token);
+    if (!access) {
+      return response.status(401).json({ error: 'This report link is invalid, has expired or has been revoked.' });
+    }
+
+    // Insights follow the latest version; amendments change the review, never the scores.
+    const report = await loadReport(access.sub);
+    if (!report) {
+      return response.status(404).json({ error: `Report with Submission ID "${access.sub}" not found.` });
+    }
+
+    response.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    });
+    streaming = true;
+
+    const insightSet = await streamInsights(report, update => send('insight', update));
+
+    // What the safety checks removed is for clinical review only.
+    const { insights, guardrailFindings, ...summary } = insightSet;
+    const isClinician = access.scope === 'clinician' || !!authenticateClinician(request);
+    send('done', isClinician && guardrailFindings ? { ...summary, guardrailFindings } : summary);
+    response.end();
+
+  } catch (error: any) {
+    console.error("Error in /api/insights-stream:", error);
+    if (!streaming) {
+      return response.status(500).json({ error: 'An internal server error occurred while generating insights.' });
+    }
+    send('error', { error: 'An internal server error occurred while generating insights.' });
+    response.end();
+  }
+}
@@ -0,0 +1,109 @@
+import { timingSafeEqual } from 'node:crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { JotformWebhookPayload, mapJotformSubmission, parseMultipartFields } from './_lib/jotform.js';
+import { ReportStorageError, storeSubmission } from './_lib/submission.js';
+import { DuplicateReportError } from './_lib/repository/index.js';
+import { loadReport } from './_lib/reportVersions.js';
+
+// Vercel's body parser does not handle multipart/form-data, so those bodies are read from the stream.
+const readRawBody = async (request: VercelRequest): Promise<string> => {
+  const decoder = new TextDecoder();
+  let body = '';
+  for await (const chunk of request) {
+    body += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+  }
+  return body + decoder.decode();
+};
+
+const readPayload = async (request: VercelRequest): Promise<Partial<JotformWebhookPayload>> => {
+  const contentType = request.headers['content-type'] || '';
+  if (contentType.startsWith('multipart/form-data')) {
+    return parseMultipartFields(await readRawBody(request), contentType);
+  }
+  // Jotform can also be configured to post urlencoded or JSON bodies, which Vercel parses.
+  return request.body || {};
+};
+
+// Compared in constant time, so response timing does not reveal how much of a guess was right.
+const secretsMatch = (presented: string, expected: string): boolean => {
+  const presentedBytes = new TextEncoder().encode(presented);
+  const expectedBytes = new TextEncoder().encode(expected);
+  return presentedBytes.length === expectedBytes.length && timingSafeEqual(presentedBytes, expectedBytes);
+};
+
+// POST /api/jotform-webhook?secret=...   Scores and stores a Jotform submission.
+// Jotform does not sign its webhooks, so the webhook URL registered with each form carries a
+// shared secret in its query string. Query strings end up in access logs (Vercel's, Jotform's
+// and any proxy's), so treat the secret as exposed to anyone who can read them: keep it out of
+// every other use, and rotate it if those logs are shared.
+export default async function handler(
+  request: VercelRequest,
+  response: VercelResponse,
+) {
+  if (request.method !== 'POST') {
+    response.setHeader('Allow', ['POST']);
+    return response.status(405).end('Method Not Allowed');
+  }
+
+  // Without a configured secret, nothing is accepted.
+  const expectedSecret = process.env.JOTFORM_WEBHOOK_SECRET;
+  if (!expectedSecret) {
+    console.error('JOTFORM_WEBHOOK_SECRET is not defined in environment variables; rejecting webhook.');
+    return response.status(503).json({ error: 'The webhook is not configured.' });
+  }
+  const { secret } = request.query;
+  if (typeof secret !== 'string' || !secretsMatch(secret, expectedSecret)) {
+    return response.status(401).json({ error: 'Invalid webhook secret.' });
+  }
+
+  try {
+    const payload = await readPayload(request);
+
+    if (!payload.submissionID || !payload.rawRequest) {
+      return response.status(400).json({ error: 'Missing required fields: submissionID and rawRequest are required.' });
+    }
+
+    let mapped;
+    try {
+      mapped = mapJotformSubmission(payload as JotformWebhookPayload);
+    } catch (parseError: any) {
+      console.error('Invalid Jotform rawRequest:', parseError);
+      return response.status(400).json({ error: 'rawRequest is not valid JSON.' });
+    }
+
+    const { submission, unmappedFields, unrecognisedAnswers } = mapped;
+
+    if (!submission.firstName || !submission.email) {
+      return response.status(400).json({ error: 'The submission has no name or email field.' });
+    }
+    if (unmappedFields.length > 0) {
+      console.warn(`Jotform submission ${payload.submissionID} has fields that are not instrument items:`, unmappedFields);
+    }
+    if (unrecognisedAnswers.length > 0) {
+      console.warn(`Jotform submission ${payload.submissionID} has answers that match no response option:`, unrecognisedAnswers);
+    }
+
+    // Jotform retries deliveries it considers failed; a submission that is already stored is
+    // acknowledged without being scored or stored again.
+    if (await loadReport(submission.submissionId, 1)) {
+      console.log(`Jotform submission ${payload.submissionID} was already processed.`);
+      return response.status(200).json({ message: 'Submission already processed.', submissionId: submission.submissionId });
+    }
+
+    await storeSubmission(submission);
+
+    console.log(`Successfully processed and stored Jotform submission as ${submission.submissionId}`);
+    return response.status(200).json({ message: 'Report processed successfully.', submissionId: submission.submissionId });
+
+  } catch (e: any) {
+    // A concurrent retry stored the same submission between the check and the insert.
+    if (e instanceof DuplicateReportError) {
+      return response.status(200).json({ message: 'Submission already processed.' });
+    }
+    if (e instanceof ReportStorageError) {
+      return response.status(500).json({ error: 'Failed to save report to database.', details: e.message });
+    }
+    console.error('Jotform webhook processing error:', e);
+    return response.status(500).json({ error: 'An internal server error occurred while processing the submission.' });
+  }
+}
@@ -1,17 +1,13 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { createClient } from '@supabase/supabase-js';
+import { loadReport } from './_lib/reportVersions.js';
+import { authorizeReportAccess } from './_lib/accessTokens.js';
+import { authenticateClinician } from './_lib/auth.js';
+import { withClientPatternFlags } from './_lib/patterns.js';
+import { withoutValidityIndicators } from './_lib/validity.js';
+import { buildExecutiveSummary } from './_lib/executiveSummary.js';
+import { buildTemplateInsights } from './_lib/insightTemplates.js';
 import type { IndividualData } from './_lib/types.js';
 
-// Initialize Supabase client
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseKey = process.env.SUPABASE_SERVICE_KEY;
-
-if (!supabaseUrl || !supabaseKey) {
-  throw new Error("Supabase URL or service key is not defined in environment variables.");
-}
-
-const supabase = createClient(supabaseUrl, supabaseKey);
-
 export default async function handler(
   request: VercelRequest,
   response: VercelResponse,
@@ -21,37 +17,48 @@ export default async function handler(
     return response.status(405).end('Method Not Allowed');
   }
 
-  const { id } = request.query;
+  const { token } = request.query;
 
-  if (!id || typeof id !== 'string') {
-    return response.status(400).json({ error: 'Submission ID is required.' });
+  if (!token || typeof token !== 'string') {
+    return response.status(400).json({ error: 'A report access token is required.' });
   }
 
-  try {
-    // When selecting a JSONB column, TypeScript's type inference within the Supabase
-    // client can become excessively deep. To avoid this, we fetch the data without
-    // using .returns() and then apply our 'IndividualData' type via a direct cast.
-    // Selecting '*' instead of just 'data' is a workaround for this TS issue.
-    const { data: reports, error } = await supabase
-      .from('reports')
-      .select('*')
-      .eq('submissionId', id)
-      .limit(1);
+  const { version } = request.query;
+  const requestedVersion = typeof version === 'string' ? Number(version) : undefined;
 
-    if (error) {
-      console.error('Supabase query error:', error);
-      return response.status(500).json({ error: 'Database query failed.' });
+  if (requestedVersion !== undefined && (!Number.isInteger(requestedVersion) || requestedVersion < 1)) {
+    return response.status(400).json({ error: 'Version must be a positive whole number.' });
+  }
+
+  try {
+    const access = await authorizeReportAccess(token);
+    if (!access) {
+      return response.status(401).json({ error: 'This report link is invalid, has expired or has been revoked.' });
     }
+    const id = access.sub;
 
-    if (!reports || reports.length === 0) {
+    // Amended reports are stored as new versions; the latest is served unless one is requested.
+    const reportPayload = await loadReport(id, requestedVersion);
+
+    if (!reportPayload) {
       console.error('No report found for submission ID:', id);
-      return response.status(404).json({ error: `Report with Submission ID "${id}" not found.` });
+      const versionSuffix = requestedVersion ? ` at version ${requestedVersion}` : '';
+      return response.status(404).json({ error: `Report with Submission ID "${id}"${versionSuffix} not found.` });
     }
-    
-    // The report data is nested inside the 'data' property of the first record.
-    const reportPayload = reports[0].data as IndividualData;
 
-    const responseBody = JSON.stringify(reportPayload);
+    // The summary and template insights are built here, so their rules and text stay on the
+    // server. Each domain's template stands in until its insight streams in, and stays if the
+    // stream fails.
+    const templates = buildTemplateInsights(reportPayload);
+    const served: IndividualData = {
+      ...reportPayload,
+      domains: reportPayload.domains.map((domain, index) => ({ ...domain, insightsAndSupport: domain.insightsAndSupport || templates[index] })),
+      executiveSummary: buildExecutiveSummary(reportPayload),
+    };
+
+    // Validity indicators, and pattern flags without a message for the person, are for clinical review only.
+    const isClinician = access.scope === 'clinician' || !!authenticateClinician(request);
+    const responseBody = JSON.stringify(isClinician ? served : withoutValidityIndicators(withClientPatternFlags(served)));
 
     response.setHeader('Content-Type', 'application/json');
     response.writeHead(200);
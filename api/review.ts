@@ -0,0 +1,70 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { DuplicateReportError, getReportRepository } from './_lib/repository/index.js';
+import { authenticateClinician } from './_lib/auth.js';
+import { loadReport } from './_lib/reportVersions.js';
+import { amendReport, ReviewError, signOffReport } from './_lib/review.js';
+
+export default async function handler(
+  request: VercelRequest,
+  response: VercelResponse,
+) {
+  if (request.method !== 'POST') {
+    response.setHeader('Allow', ['POST']);
+    return response.status(405).end('Method Not Allowed');
+  }
+
+  const clinician = authenticateClinician(request);
+  if (!clinician) {
+    return response.status(401).json({ error: 'A valid clinician token is required.' });
+  }
+
+  const { submissionId, action, comments, reason } = request.body || {};
+
+  if (!submissionId || typeof submissionId !== 'string') {
+    return response.status(400).json({ error: 'Submission ID is required.' });
+  }
+  if (action !== 'sign' && action !== 'amend') {
+    return response.status(400).json({ error: 'Action must be "sign" or "amend".' });
+  }
+
+  try {
+    // Only clinicians with a reviewer record (credentials and registration) may sign reports.
+    const reviewer = await getReportRepository().findReviewer(clinician.name);
+    if (!reviewer) {
+      return response.status(403).json({ error: `No reviewer record exists for "${clinician.name}".` });
+    }
+
+    const latest = await loadReport(submissionId);
+    if (!latest) {
+      return response.status(404).json({ error: `Report with Submission ID "${submissionId}" not found.` });
+    }
+
+    const reviewerComments = typeof comments === 'string' ? comments.trim() : '';
+
+    if (action === 'sign') {
+      const signed = signOffReport(latest, reviewer, reviewerComments);
+
+      if (!await getReportRepository().saveSignOff(signed)) {
+        return response.status(409).json({ error: 'This report has already been signed off.' });
+      }
+
+      console.log(`Report ${submissionId} signed off by ${reviewer.name}`);
+      return response.status(200).json(signed);
+    }
+
+    const amended = amendReport(latest, reviewer, typeof reason === 'string' ? reason.trim() : '', reviewerComments);
+
+    // A concurrent amendment of the same version is rejected as a duplicate.
+    await getReportRepository().saveVersion(amended);
+
+    console.log(`Report ${submissionId} amended to version ${amended.version} by ${reviewer.name}`);
+    return response.status(200).json(amended);
+
+  } catch (e: any) {
+    if (e instanceof ReviewError || e instanceof DuplicateReportError) {
+      return response.status(409).json({ error: e.message });
+    }
+    console.error('Unexpected error reviewing report:', e);
+    return response.status(500).json({ error: 'An internal server error occurred.' });
+  }
+}
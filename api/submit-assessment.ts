@@ -1,18 +1,15 @@
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { createClient } from '@supabase/supabase-js';
-import { generateReportFromJotform } from './_lib/logic.js';
-import type { IndividualData } from './_lib/logic.js';
+import { ReportStorageError, storeSubmission } from './_lib/submission.js';
+import { issueAccessToken } from './_lib/accessTokens.js';
+import type { SectionTimings } from './_lib/validity.js';
+import { validateSubmissionFields } from './_lib/answerValidation.js';
+import { currentInstrument } from './_lib/instruments/index.js';
+import { getItemBanks } from './_lib/itemBanks.js';
 
-// Initialize Supabase client
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseKey = process.env.SUPABASE_SERVICE_KEY;
-
-if (!supabaseUrl || !supabaseKey) {
-  throw new Error("Supabase URL or service key is not defined in environment variables.");
-}
-
-const supabase = createClient(supabaseUrl, supabaseKey);
+const isSectionTimings = (value: unknown): value is SectionTimings =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+  && Object.values(value).every(seconds => typeof seconds === 'number' && Number.isFinite(seconds) && seconds >= 0);
 
 export default async function handler(
   request: VercelRequest,
@@ -24,10 +21,13 @@ export default async function handler(
   }
 
   try {
-    const { firstName, lastName, email, answers } = request.body;
+    const { firstName, lastName, email, answers, adaptiveAnswers, sectionTimings } = request.body || {};
 
-    if (!firstName || !email || !answers) {
-        return response.status(400).json({ error: 'Missing required fields: firstName, email, and answers are required.' });
+    // Every problem is reported against its field so the form can point the person to it.
+    const itemBanks = adaptiveAnswers !== undefined ? getItemBanks() : [];
+    const fieldErrors = validateSubmissionFields(currentInstrument, { firstName, lastName, email, answers, adaptiveAnswers }, itemBanks);
+    if (fieldErrors.length > 0) {
+        return response.status(400).json({ error: 'Some of the details or answers could not be accepted.', fieldErrors });
     }
 
     // Generate a unique submission ID
@@ -36,34 +36,27 @@ export default async function handler(
     // Adapt the incoming data to the format expected by the scoring logic function
     const submissionData = {
         submissionId,
-        firstName,
-        lastName: lastName || '',
-        email,
+        firstName: firstName.trim(),
+        lastName: lastName?.trim() || '',
+        email: email.trim(),
         assessmentDate: new Date().toISOString(),
         answers,
+        adaptiveAnswers,
+        // Timings only feed the fast-completion check, so malformed ones are dropped rather than rejected.
+        sectionTimings: isSectionTimings(sectionTimings) ? sectionTimings : undefined,
     };
 
-    const reportData: IndividualData = generateReportFromJotform(submissionData);
-
-    const { error: dbError } = await supabase
-      .from('reports')
-      .insert([
-        {
-          submissionId: reportData.individualId,
-          data: reportData,
-          createdAt: new Date().toISOString(),
-        }
-      ] as any);
-
-    if (dbError) {
-      console.error('Supabase insert error:', dbError);
-      return response.status(500).json({ error: 'Failed to save report to database.', details: dbError.message });
-    }
+    await storeSubmission(submissionData);
 
     console.log(`Successfully processed and stored report for submission ID: ${submissionId}`);
-    return response.status(200).json({ message: 'Report processed successfully.', submissionId: submissionId });
+    // The submission ID alone never grants access; the person is sent to their report with a signed link.
+    const accessToken = issueAccessToken(submissionId, 'owner');
+    return response.status(200).json({ message: 'Report processed successfully.', submissionId: submissionId, accessToken });
 
   } catch (e: any) {
+    if (e instanceof ReportStorageError) {
+      return response.status(500).json({ error: 'Failed to save report to database.', details: e.message });
+    }
     console.error('Assessment submission processing error:', e);
     return response.status(500).json({ error: 'An internal server error occurred while processing the assessment.', details: e.message });
   }
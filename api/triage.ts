@@ -0,0 +1,78 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getReportRepository } from './_lib/repository/index.js';
+import { authenticateClinician } from './_lib/auth.js';
+import { issueAccessToken } from './_lib/accessTokens.js';
+import { applyTriageAction, buildTriageQueue, TriageActionError } from './_lib/triage.js';
+import type { TriageAction } from './_lib/types.js';
+
+const triageActions: TriageAction[] = ['acknowledge', 'assign', 'resolve'];
+
+export default async function handler(
+  request: VercelRequest,
+  response: VercelResponse,
+) {
+  if (request.method !== 'GET' && request.method !== 'POST') {
+    response.setHeader('Allow', ['GET', 'POST']);
+    return response.status(405).end('Method Not Allowed');
+  }
+
+  const clinician = authenticateClinician(request);
+  if (!clinician) {
+    return response.status(401).json({ error: 'A valid clinician token is required.' });
+  }
+
+  try {
+    if (request.method === 'GET') {
+      // Reports are filtered for flagged domains here rather than in the store, because the
+      // interpretations live inside the report data.
+      const repository = getReportRepository();
+      const [reports, cases, audit] = await Promise.all([
+        repository.list(),
+        repository.listTriageCases(),
+        repository.listTriageAudit(),
+      ]);
+
+      const queue = buildTriageQueue(
+        reports,
+        cases,
+        audit,
+        submissionId => issueAccessToken(submissionId, 'clinician', clinician.name),
+        request.query.status === 'all',
+      );
+      return response.status(200).json(queue);
+    }
+
+    const { submissionId, action, assignee, note } = request.body || {};
+
+    if (!submissionId || typeof submissionId !== 'string') {
+      return response.status(400).json({ error: 'Submission ID is required.' });
+    }
+    if (!triageActions.includes(action)) {
+      return response.status(400).json({ error: `Action must be one of: ${triageActions.join(', ')}.` });
+    }
+
+    const repository = getReportRepository();
+    if (!await repository.findById(submissionId)) {
+      return response.status(404).json({ error: `Report with Submission ID "${submissionId}" not found.` });
+    }
+
+    const { triageCase, auditEntry } = applyTriageAction(
+      await repository.findTriageCase(submissionId),
+      submissionId,
+      action,
+      clinician.name,
+      typeof assignee === 'string' && assignee.trim() ? assignee.trim() : null,
+      typeof note === 'string' ? note.trim() : '',
+    );
+
+    await repository.saveTriageAction(triageCase, auditEntry);
+    return response.status(200).json({ triageCase, auditEntry });
+
+  } catch (e: any) {
+    if (e instanceof TriageActionError) {
+      return response.status(409).json({ error: e.message });
+    }
+    console.error('Unexpected error in triage queue:', e);
+    return response.status(500).json({ error: 'An internal server error occurred.' });
+  }
+}
@@ -1,7 +1,7 @@
 
 import React, { useRef, useState, useCallback, useEffect } from 'react';
-import { IndividualData } from './types';
-import { fetchDynamicReportData, fetchInsights } from './services/api';
+import { HistoryEntry, IndividualData, InsightGuardrailFinding, InsightSet, ReliableChange } from './types';
+import { CLINICIAN_TOKEN_STORAGE_KEY, REPORT_TOKEN_STORAGE_KEY, ReportAccessError, fetchAssessmentHistory, fetchDynamicReportData, revokeReportLinks, streamInsights } from './services/api';
 import { globalResources } from './data/globalData';
 
 import Header from './components/Header';
@@ -11,11 +11,25 @@ import GlobalResources from './components/GlobalResources';
 import { GeneralDisclaimer, IndividualsDisclaimer } from './components/Disclaimer';
 import DownloadButton from './components/DownloadButton';
 import AtAGlance from './components/AtAGlance';
+import ExecutiveSummary from './components/ExecutiveSummary';
 import VerificationSeal from './components/VerificationSeal';
 import AssessmentForm from './components/AssessmentForm';
+import AssessmentHistory from './components/AssessmentHistory';
+import ConfirmEmail from './components/ConfirmEmail';
+import TriageQueue from './components/TriageQueue';
+import ReviewPanel from './components/ReviewPanel';
+import ReportAccess from './components/ReportAccess';
 
 declare const html2pdf: any;
 
+const withInsights = (report: IndividualData, insights: string[]): IndividualData => ({
+    ...report,
+    domains: report.domains.map((domain, index) => ({
+        ...domain,
+        insightsAndSupport: insights[index] || domain.insightsAndSupport,
+    })),
+});
+
 const App: React.FC = () => {
     const reportRef = useRef<HTMLDivElement>(null);
     const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
@@ -23,43 +37,89 @@ const App: React.FC = () => {
     const [isLoading, setIsLoading] = useState(false);
     const [loadingMessage, setLoadingMessage] = useState('Generating your personalized report...');
     const [error, setError] = useState<string | null>(null);
+    const [isLinkExpired, setIsLinkExpired] = useState(false);
     const [reportData, setReportData] = useState<IndividualData | null>(null);
+    const [history, setHistory] = useState<HistoryEntry[]>([]);
+    const [reliableChanges, setReliableChanges] = useState<ReliableChange[]>([]);
+    const [canConfirmEmail, setCanConfirmEmail] = useState(false);
+    const [insightFindings, setInsightFindings] = useState<InsightGuardrailFinding[]>([]);
+    const [pendingInsights, setPendingInsights] = useState<Set<number>>(new Set());
+    const clinicianToken = sessionStorage.getItem(CLINICIAN_TOKEN_STORAGE_KEY);
+
+    // Insights never stop the report from showing. If the stream fails, every domain still
+    // waiting keeps the curated template insight the report was served with.
+    const loadInsights = useCallback((token: string) => {
+        streamInsights(token, update => {
+            setReportData(current => current && {
+                ...current,
+                domains: current.domains.map((domain, index) =>
+                    index === update.index ? { ...domain, insightsAndSupport: update.insight } : domain),
+            });
+            setPendingInsights(current => {
+                const next = new Set(current);
+                next.delete(update.index);
+                return next;
+            });
+        })
+            .then(summary => setInsightFindings(summary.guardrailFindings ?? []))
+            .catch(insightError => {
+                console.error("Failed to stream insights; using template insights:", insightError);
+                setPendingInsights(new Set());
+            });
+    }, []);
 
-    const handleGenerateReport = useCallback(async (id: string) => {
-        if (!id) return;
+    const handleGenerateReport = useCallback(async (token: string) => {
+        if (!token) return;
         setIsLoading(true);
         setError(null);
+        setIsLinkExpired(false);
         setReportData(null);
+        setHistory([]);
+        setReliableChanges([]);
+        setCanConfirmEmail(false);
+
+        // History is supplementary, so it loads alongside the report and never blocks or fails it.
+        fetchAssessmentHistory(token)
+            .then(result => {
+                setHistory(result.entries);
+                setReliableChanges(result.reliableChanges);
+                setCanConfirmEmail(!result.emailVerified && result.personId !== null);
+            })
+            .catch(historyError => console.error("Failed to load assessment history:", historyError));
 
         try {
             setLoadingMessage('Fetching your assessment results...');
-            const userData = await fetchDynamicReportData(id);
-
-            setLoadingMessage('Generating AI-powered insights...');
-            const insights = await fetchInsights(userData);
-            
-            const updatedDomains = userData.domains.map((domain, index) => ({
-                ...domain,
-                insightsAndSupport: insights[index] || domain.insightsAndSupport,
-            }));
-            
-            const finalReportData = { ...userData, domains: updatedDomains };
-            setReportData(finalReportData);
+            const userData = await fetchDynamicReportData(token);
+
+            // The scored report shows straight away; each card's insight fills in as it streams.
+            setPendingInsights(new Set(userData.domains.map((_, index) => index)));
+            setReportData(userData);
+            loadInsights(token);
         } catch (apiError: any) {
             console.error("Failed to generate report:", apiError);
+            setIsLinkExpired(apiError instanceof ReportAccessError);
             setError(apiError.message || "An unexpected error occurred. Please try again later.");
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [loadInsights]);
 
     // This useEffect hook runs once when the component mounts.
     // It's the key to the automatic report generation.
     useEffect(() => {
         const params = new URLSearchParams(window.location.search);
-        const submissionId = params.get('submissionId');
-        if (submissionId) {
-            handleGenerateReport(submissionId);
+
+        // A token arriving in a link is moved out of the URL, so it is not left in the
+        // address bar or the browser history.
+        const linkToken = params.get('token');
+        if (linkToken) {
+            sessionStorage.setItem(REPORT_TOKEN_STORAGE_KEY, linkToken);
+            window.history.replaceState(null, '', `${window.location.pathname}?view=report`);
+        }
+
+        const token = sessionStorage.getItem(REPORT_TOKEN_STORAGE_KEY);
+        if (token && (linkToken || params.get('view') === 'report')) {
+            handleGenerateReport(token);
         }
     }, [handleGenerateReport]);
 
@@ -85,11 +145,44 @@ const App: React.FC = () => {
         }
     }, [reportData]);
 
+    const handleInsightsRegenerated = (insightSet: InsightSet) => {
+        setReportData(current => current && withInsights(current, insightSet.insights));
+        setInsightFindings(insightSet.guardrailFindings ?? []);
+    };
+
+    // Only the review stamp changes on sign-off or amendment; the insights already shown are kept.
+    const handleReviewed = (reviewed: IndividualData) => {
+        setReportData(current => current && {
+            ...current,
+            version: reviewed.version,
+            signOff: reviewed.signOff,
+            amendment: reviewed.amendment,
+        });
+    };
+
     const handleStartOver = () => {
-        // Clear the URL parameter and reload the page to the welcome screen
+        // Forget the report link and reload the page to the welcome screen
+        sessionStorage.removeItem(REPORT_TOKEN_STORAGE_KEY);
         window.location.href = window.location.pathname;
     };
 
+    const handleEmailConfirmed = (token: string) => {
+        sessionStorage.setItem(REPORT_TOKEN_STORAGE_KEY, token);
+        handleGenerateReport(token);
+    };
+
+    const handleRevokeLinks = async () => {
+        const token = sessionStorage.getItem(REPORT_TOKEN_STORAGE_KEY);
+        if (!token || !window.confirm('This will stop every link to your reports from working, including this one. You can get a new link by email at any time. Continue?')) return;
+        try {
+            await revokeReportLinks(token);
+            handleStartOver();
+        } catch (apiError: any) {
+            console.error("Failed to revoke report links:", apiError);
+            window.alert(apiError.message);
+        }
+    };
+
     if (isLoading) {
         return (
              <div className="flex flex-col items-center justify-center min-h-screen bg-gradient-to-br from-stone-50 to-stone-100 p-4 font-inter">
@@ -115,6 +208,14 @@ const App: React.FC = () => {
                         <div className="p-4 bg-rose-50 border border-rose-300 text-rose-800 rounded-lg" role="alert">
                            <strong>Error:</strong> {error}
                         </div>
+                         {isLinkExpired && (
+                            <a
+                                href="?view=access"
+                                className="inline-block mt-6 mr-3 px-6 py-3 bg-teal-700 text-white font-bold rounded-full shadow-lg hover:bg-teal-800 transition-all duration-300"
+                            >
+                                Email Me a New Link
+                            </a>
+                         )}
                          <button 
                             onClick={handleStartOver}
                             className="mt-6 px-6 py-3 bg-teal-700 text-white font-bold rounded-full shadow-lg hover:bg-teal-800 transition-all duration-300"
@@ -138,17 +239,40 @@ const App: React.FC = () => {
                         >
                             &larr; Start New Assessment
                         </button>
+                        {!clinicianToken && (
+                            <button
+                                onClick={handleRevokeLinks}
+                                className="px-4 py-2 text-sm text-gray-600 font-semibold hover:underline"
+                            >
+                                Revoke links to my reports
+                            </button>
+                        )}
                     </div>
+                    {!clinicianToken && canConfirmEmail && (
+                        <ConfirmEmail token={sessionStorage.getItem(REPORT_TOKEN_STORAGE_KEY) ?? ''} onConfirmed={handleEmailConfirmed} />
+                    )}
+                    {clinicianToken && <ReviewPanel report={reportData} token={clinicianToken} onReviewed={handleReviewed} insightFindings={insightFindings} onInsightsRegenerated={handleInsightsRegenerated} />}
                     <div ref={reportRef} className="bg-white shadow-2xl rounded-3xl p-6 sm:p-8 lg:p-12 border border-blue-200">
                         <Header />
                         <IndividualInfo data={reportData} />
-                        <AtAGlance domains={reportData.domains} />
+                        <AtAGlance domains={reportData.domains} reliableChanges={reliableChanges} />
+                        {reportData.executiveSummary && <ExecutiveSummary summary={reportData.executiveSummary} patternFlags={reportData.patternFlags} />}
+                        <AssessmentHistory entries={history} currentSubmissionId={reportData.individualId} />
 
                         <div className="mt-12">
                             <h2 className="text-3xl font-bold text-blue-800 mb-6 border-b pb-3 border-blue-300">Your Detailed Results</h2>
                             <div className="space-y-8 mt-8">
                                 {reportData.domains.map((domain, index) => (
-                                    <DomainCard key={index} domain={domain} index={index} firstName={reportData.firstName} />
+                                    <DomainCard
+                                        key={index}
+                                        domain={domain}
+                                        index={index}
+                                        firstName={reportData.firstName}
+                                        submissionId={reportData.individualId}
+                                        history={history}
+                                        reliableChange={reliableChanges.find(change => change.domainName === domain.name)}
+                                        isInsightLoading={pendingInsights.has(index)}
+                                    />
                                 ))}
                             </div>
                             <IndividualsDisclaimer />
@@ -158,7 +282,7 @@ const App: React.FC = () => {
                         
                         {/* Report Footer */}
                         <div className="mt-12 pt-8 border-t border-gray-200 flex flex-col sm:flex-row items-stretch sm:justify-between gap-8">
-                            <VerificationSeal />
+                            <VerificationSeal report={reportData} />
                             <div className="flex-1">
                                  <GeneralDisclaimer />
                             </div>
@@ -170,6 +294,16 @@ const App: React.FC = () => {
         );
     }
 
+    // Clinician View: the risk triage queue, reached at ?view=triage.
+    if (new URLSearchParams(window.location.search).get('view') === 'triage') {
+        return <TriageQueue />;
+    }
+
+    // Report Access: request fresh report links by email, reached at ?view=access.
+    if (new URLSearchParams(window.location.search).get('view') === 'access') {
+        return <ReportAccess />;
+    }
+
     // Default View: The new integrated assessment form.
     return <AssessmentForm />;
 };
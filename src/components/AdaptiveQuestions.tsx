@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { AdaptiveProgress, fetchNextAdaptiveItem } from '../services/api';
+
+interface AdaptiveQuestionsProps {
+    domain: string;
+    firstNumber: number; // Number shown on the first adaptive question, after the section's fixed ones
+    answers: { [itemId: string]: number }; // In the order the questions were asked
+    onAnswer: (itemId: string, value: number) => void;
+    onRestart: () => void;
+    onDoneChange: (done: boolean) => void;
+}
+
+// Asks a section's questions one at a time, each chosen by the server from the answers so far.
+// Earlier answers cannot be changed on their own, as every later question depends on them.
+const AdaptiveQuestions: React.FC<AdaptiveQuestionsProps> = ({ domain, firstNumber, answers, onAnswer, onRestart, onDoneChange }) => {
+    const [progress, setProgress] = useState<AdaptiveProgress | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [attempt, setAttempt] = useState(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        setProgress(null);
+        setError(null);
+        fetchNextAdaptiveItem(domain, answers)
+            .then(next => {
+                if (cancelled) return;
+                setProgress(next);
+                onDoneChange(next.done);
+            })
+            .catch(err => !cancelled && setError(err.message));
+        return () => { cancelled = true; };
+    }, [domain, answers, attempt]);
+
+    const answeredCount = Object.keys(answers).length;
+
+    return (
+        <div className="space-y-6">
+            <p className="text-sm text-stone-500">
+                These questions are chosen one at a time based on your answers, so you only need to answer as many as it takes to get an accurate result.
+            </p>
+
+            {error && (
+                <div className="p-4 rounded-xl bg-rose-50 border border-rose-200 text-rose-800">
+                    <p>{error}</p>
+                    <button type="button" onClick={() => setAttempt(a => a + 1)} className="mt-2 font-semibold underline">Try again</button>
+                </div>
+            )}
+
+            {!error && !progress && <p className="text-stone-500 italic">Loading the next question...</p>}
+
+            {progress?.item && (
+                <fieldset className="p-4 border-l-4 border-stone-200">
+                    <legend className="text-lg font-semibold text-stone-800">{`${firstNumber + answeredCount}. ${progress.item.text}`}</legend>
+                    <p className="mt-1 text-xs text-stone-500">At most {progress.maxItems} questions in this section.</p>
+                    <div className="mt-4 space-y-3">
+                        {progress.item.options.map(opt => (
+                            <button
+                                key={opt.value}
+                                type="button"
+                                onClick={() => onAnswer(progress.item!.id, opt.value)}
+                                className="w-full flex items-center p-4 rounded-xl border-2 border-stone-200 hover:border-stone-400 text-left text-base text-stone-700 transition-all"
+                            >
+                                {opt.label}
+                            </button>
+                        ))}
+                    </div>
+                </fieldset>
+            )}
+
+            {progress?.done && (
+                <p className="p-4 rounded-xl bg-teal-50 border border-teal-200 text-teal-800 font-semibold">
+                    Thank you, that's everything we need for this section ({answeredCount} {answeredCount === 1 ? 'question' : 'questions'}).
+                </p>
+            )}
+
+            {answeredCount > 0 && (
+                <button type="button" onClick={onRestart} className="text-sm font-semibold text-stone-600 underline">
+                    Start this section again
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default AdaptiveQuestions;
@@ -1,14 +1,13 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { assessmentSections } from '../data/assessmentQuestions';
+import { currentInstrument, getInstrumentVersionTag } from '../../api/_lib/instruments';
+import { getEndorsedCrisisItems, getShownAnswers, isItemVisible, isScoredItem } from '../../api/_lib/instrument';
+import { AdaptiveAnswers, AssessmentDraft, FieldError } from '../types';
+import { DRAFT_STORAGE_KEY, deleteDraftFromServer, fetchAdaptiveDomains, loadDraftFromServer, saveDraftOnServer } from '../services/api';
 import { FeatherIcon } from './icons';
-
-const answerOptions = [
-    'Not at all',
-    'Several days',
-    'More than half the days',
-    'Nearly every day'
-];
+import CrisisInterstitial from './CrisisInterstitial';
+import AdaptiveQuestions from './AdaptiveQuestions';
 
 const ProgressTracker = ({ current, total }: { current: number, total: number }) => {
     const percentage = ((current + 1) / total) * 100;
@@ -19,44 +18,187 @@ const ProgressTracker = ({ current, total }: { current: number, total: number })
     );
 };
 
+// A draft kept only in this browser is dropped after a week, like the server's default.
+// Once saved on the server, the server's expiry is used instead.
+const LOCAL_DRAFT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// A stable empty answer set, so a section with no adaptive answers does not refetch on every render.
+const noAdaptiveAnswers: { [itemId: string]: number } = {};
+
+interface LocalDraft {
+    draft: AssessmentDraft;
+    resumeCode: string | null;
+    expiresAt: string;
+}
+
+// Returns the draft saved in this browser, unless it expired or was for another version of the instrument.
+const readLocalDraft = (): LocalDraft | null => {
+    try {
+        const saved: LocalDraft | null = JSON.parse(localStorage.getItem(DRAFT_STORAGE_KEY) || 'null');
+        if (saved && saved.draft.instrumentVersion === getInstrumentVersionTag() && new Date(saved.expiresAt).getTime() > Date.now()) {
+            return saved;
+        }
+    } catch {
+        // A draft that cannot be read is treated as no draft.
+    }
+    localStorage.removeItem(DRAFT_STORAGE_KEY);
+    return null;
+};
+
 const AssessmentForm: React.FC = () => {
-    const [step, setStep] = useState(0); // 0 = user details, 1+ = assessment sections
-    const [userDetails, setUserDetails] = useState({ firstName: '', lastName: '', email: '' });
-    const [answers, setAnswers] = useState<{ [key: string]: string }>({});
+    const [restored] = useState(readLocalDraft);
+    const [step, setStep] = useState(restored?.draft.step ?? 0); // 0 = user details, 1+ = assessment sections
+    const [userDetails, setUserDetails] = useState({
+        firstName: restored?.draft.firstName ?? '',
+        lastName: restored?.draft.lastName ?? '',
+        email: restored?.draft.email ?? '',
+    });
+    const [answers, setAnswers] = useState<{ [key: string]: number }>(restored?.draft.answers ?? {}); // Coded option values
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [showCrisisSupport, setShowCrisisSupport] = useState(false);
+    const [fieldErrors, setFieldErrors] = useState<{ [field: string]: string }>({}); // From the server, keyed by field or item ID
+    // Seconds spent on each section, sent with the answers for the fast-completion check.
+    const sectionTimings = useRef<{ [sectionTitle: string]: number }>(restored?.draft.sectionTimings ?? {});
+    const sectionStartedAt = useRef(Date.now());
+    // Set once the draft has been saved on the server.
+    const [resumeCode, setResumeCode] = useState<string | null>(restored?.resumeCode ?? null);
+    const [draftExpiresAt, setDraftExpiresAt] = useState(restored?.expiresAt ?? null);
+    const [draftMessage, setDraftMessage] = useState<string | null>(null);
+    const [isSavingDraft, setIsSavingDraft] = useState(false);
+    const [resumeCodeInput, setResumeCodeInput] = useState('');
+    // Sections with a calibrated item bank can be answered adaptively instead of with their fixed items.
+    const [adaptiveDomains, setAdaptiveDomains] = useState<string[]>([]);
+    const [useAdaptive, setUseAdaptive] = useState(!!restored?.draft.adaptiveAnswers);
+    const [adaptiveAnswers, setAdaptiveAnswers] = useState<AdaptiveAnswers>(restored?.draft.adaptiveAnswers ?? {});
+    const [adaptiveDone, setAdaptiveDone] = useState<{ [domain: string]: boolean }>({});
+
+    useEffect(() => {
+        fetchAdaptiveDomains().then(setAdaptiveDomains);
+    }, []);
+
+    const clearFieldError = (field: string) => {
+        if (!fieldErrors[field]) return;
+        const { [field]: _cleared, ...rest } = fieldErrors;
+        setFieldErrors(rest);
+    };
 
     const handleUserDetailChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         setUserDetails({ ...userDetails, [e.target.name]: e.target.value });
+        clearFieldError(e.target.name);
     };
 
-    const handleAnswerChange = (questionId: string, value: string) => {
-        setAnswers({ ...answers, [questionId]: value });
+    const handleAnswerChange = (questionId: string, value: number) => {
+        const updatedAnswers = { ...answers, [questionId]: value };
+        setAnswers(updatedAnswers);
+        clearFieldError(questionId);
+
+        // Interrupt with crisis support as soon as a crisis item is newly endorsed, not after submission.
+        const wasEndorsed = getEndorsedCrisisItems(currentInstrument, answers).includes(questionId);
+        if (!wasEndorsed && getEndorsedCrisisItems(currentInstrument, updatedAnswers).includes(questionId)) {
+            setShowCrisisSupport(true);
+        }
     };
 
-    const visibleSections = useMemo(() => {
-        return assessmentSections.filter(section => {
-            const hasVisibleQuestions = section.questions.some(q => {
-                 if (!q.condition) return true;
-                 const { triggerIds, requiredValues } = q.condition;
-                 // A conditional question is visible if ANY of its triggers have been answered with a required value
-                 return triggerIds.some(id => requiredValues.includes(answers[id]));
-            });
-            // A section is visible if it has ANY visible questions (initial screeners count)
-            return hasVisibleQuestions;
-       });
-    }, [answers]);
-    
-    // This is a more complex version to determine visibility based on answers
+    const handleAdaptiveAnswer = (domain: string, itemId: string, value: number) => {
+        setAdaptiveAnswers(current => ({ ...current, [domain]: { ...(current[domain] ?? {}), [itemId]: value } }));
+        clearFieldError(domain);
+    };
+
+    const restartAdaptiveSection = (domain: string) => {
+        setAdaptiveAnswers(current => ({ ...current, [domain]: {} }));
+        setAdaptiveDone(current => ({ ...current, [domain]: false }));
+        clearFieldError(domain);
+    };
+
+    const hasEndorsedCrisisItems = getEndorsedCrisisItems(currentInstrument, answers).length > 0;
+
+    // Display logic is evaluated by the instrument, exactly as the server evaluates it, against
+    // the answers to questions that are still shown.
+    const shownAnswers = useMemo(() => getShownAnswers(currentInstrument, answers), [answers]);
+
     const getVisibleQuestionsForSection = (section: (typeof assessmentSections)[0]) => {
         if (!section) return [];
-        return section.questions.filter(q => {
-            if (!q.condition) return true;
-            const { triggerIds, requiredValues } = q.condition;
-            return triggerIds.some(id => requiredValues.includes(answers[id]));
-        });
+        return section.questions.filter(q => isItemVisible(currentInstrument, section, q, shownAnswers));
+    };
+
+    // A section is visible if it has ANY visible questions (initial screeners count)
+    const visibleSections = useMemo(() => {
+        return assessmentSections.filter(section => getVisibleQuestionsForSection(section).length > 0);
+    }, [shownAnswers]);
+
+    // In adaptive mode, a section's scored items are replaced by adaptive questions once they would be shown.
+    const isAdaptiveSection = (section: (typeof assessmentSections)[0]) =>
+        useAdaptive && adaptiveDomains.includes(section.title) && getVisibleQuestionsForSection(section).some(isScoredItem);
+
+    const buildDraft = (): AssessmentDraft => ({
+        instrumentVersion: getInstrumentVersionTag(),
+        step,
+        ...userDetails,
+        answers,
+        adaptiveAnswers: useAdaptive ? adaptiveAnswers : undefined,
+        sectionTimings: sectionTimings.current,
+    });
+
+    // Keeps the latest progress in this browser, so a closed tab or a reload loses nothing.
+    useEffect(() => {
+        if (step === 0 && Object.keys(answers).length === 0 && !userDetails.firstName && !userDetails.email && !resumeCode) return;
+        const expiresAt = draftExpiresAt ?? new Date(Date.now() + LOCAL_DRAFT_TTL_MS).toISOString();
+        const saved: LocalDraft = { draft: buildDraft(), resumeCode, expiresAt };
+        localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(saved));
+    }, [step, userDetails, answers, useAdaptive, adaptiveAnswers, resumeCode, draftExpiresAt]);
+
+    // Picks up a draft saved on the server. Its answers bring back the same visible sections,
+    // and the step puts the person on the section they left.
+    const resumeFromCode = async (code: string) => {
+        setError(null);
+        setDraftMessage(null);
+        try {
+            const saved = await loadDraftFromServer(code);
+            if (saved.draft.instrumentVersion !== getInstrumentVersionTag()) {
+                throw new Error('The assessment has changed since this draft was saved, so it cannot be resumed.');
+            }
+            setUserDetails({ firstName: saved.draft.firstName, lastName: saved.draft.lastName, email: saved.draft.email });
+            setAnswers(saved.draft.answers);
+            setUseAdaptive(!!saved.draft.adaptiveAnswers);
+            setAdaptiveAnswers(saved.draft.adaptiveAnswers ?? {});
+            sectionTimings.current = saved.draft.sectionTimings;
+            sectionStartedAt.current = Date.now();
+            setResumeCode(saved.code);
+            setDraftExpiresAt(saved.expiresAt);
+            setStep(saved.draft.step);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    // A resume code arriving in an emailed link is moved out of the URL once read.
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.search);
+        const linkCode = params.get('resume');
+        if (linkCode) {
+            window.history.replaceState(null, '', window.location.pathname);
+            resumeFromCode(linkCode);
+        }
+    }, []);
+
+    const handleSaveForLater = async (sendLink: boolean) => {
+        setIsSavingDraft(true);
+        setDraftMessage(null);
+        setError(null);
+        recordSectionTime();
+        try {
+            const saved = await saveDraftOnServer(buildDraft(), resumeCode, sendLink);
+            setResumeCode(saved.code);
+            setDraftExpiresAt(saved.expiresAt);
+            setDraftMessage(`${sendLink ? `A link has been sent to ${userDetails.email}. ` : ''}Your resume code is ${saved.code}. It works until ${new Date(saved.expiresAt).toLocaleDateString()}.`);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setIsSavingDraft(false);
+        }
     };
-    
+
     // Recalculate current step if visible sections change to prevent out-of-bounds errors
     useEffect(() => {
         if (step > 0 && step > visibleSections.length) {
@@ -65,33 +207,72 @@ const AssessmentForm: React.FC = () => {
     }, [visibleSections, step]);
 
 
-    const nextStep = () => setStep(s => s + 1);
+    // Adds the time since the current section was opened to its total.
+    const recordSectionTime = () => {
+        const section = visibleSections[step - 1];
+        if (section) {
+            const seconds = (Date.now() - sectionStartedAt.current) / 1000;
+            sectionTimings.current[section.title] = (sectionTimings.current[section.title] ?? 0) + seconds;
+        }
+        sectionStartedAt.current = Date.now();
+    };
+
+    const nextStep = () => {
+        recordSectionTime();
+        setStep(s => s + 1);
+    };
     const prevStep = () => {
+       recordSectionTime();
        setStep(s => Math.max(0, s - 1));
     };
 
+    // Highlights the fields the server rejected and goes back to the first of them.
+    const showFieldErrors = (errors: FieldError[]) => {
+        setFieldErrors(Object.fromEntries(errors.map(fieldError => [fieldError.field, fieldError.message])));
+        const sectionIndex = visibleSections.findIndex(section => errors.some(fieldError =>
+            fieldError.field === section.title || section.questions.some(q => fieldError.field === q.id)));
+        const detailsRejected = errors.some(fieldError => fieldError.field in userDetails);
+        setStep(detailsRejected || sectionIndex < 0 ? 0 : sectionIndex + 1);
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsSubmitting(true);
         setError(null);
+        recordSectionTime();
 
+        // Answers to follow-up questions hidden again by a changed screener answer are not sent.
         try {
             const response = await fetch('/api/submit-assessment', {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({ ...userDetails, answers }),
+                body: JSON.stringify({
+                    ...userDetails,
+                    answers: shownAnswers,
+                    adaptiveAnswers: useAdaptive
+                        ? Object.fromEntries(visibleSections.filter(isAdaptiveSection).map(section => [section.title, adaptiveAnswers[section.title] ?? {}]))
+                        : undefined,
+                    sectionTimings: sectionTimings.current,
+                }),
             });
 
             const result = await response.json();
 
             if (!response.ok) {
+                if (Array.isArray(result.fieldErrors) && result.fieldErrors.length > 0) {
+                    showFieldErrors(result.fieldErrors);
+                }
                 throw new Error(result.error || 'An unexpected error occurred during submission.');
             }
 
+            // The draft is no longer needed once submitted; a server copy left behind simply expires.
+            localStorage.removeItem(DRAFT_STORAGE_KEY);
+            if (resumeCode) deleteDraftFromServer(resumeCode).catch(() => {});
+
             // Redirect to the newly created report page
-            window.location.href = `${window.location.pathname}?submissionId=${result.submissionId}`;
+            window.location.href = `${window.location.pathname}?token=${encodeURIComponent(result.accessToken)}`;
 
         } catch (err: any) {
             console.error("Submission failed:", err);
@@ -107,6 +288,10 @@ const AssessmentForm: React.FC = () => {
         const currentSection = visibleSections[step - 1];
         if (!currentSection) return false;
         
+        if (isAdaptiveSection(currentSection)) {
+            return getVisibleQuestionsForSection(currentSection).every(q => isScoredItem(q) || answers[q.id] !== undefined)
+                && !!adaptiveDone[currentSection.title];
+        }
         const visibleQuestions = getVisibleQuestionsForSection(currentSection);
         return visibleQuestions.every(q => answers[q.id] !== undefined);
     };
@@ -121,13 +306,31 @@ const AssessmentForm: React.FC = () => {
                      <p className="text-lg text-stone-600 font-light mb-8">Please provide your details to begin this confidential assessment. Your personalized report will be generated upon completion.</p>
 
                     <form onSubmit={e => { e.preventDefault(); nextStep(); }} className="space-y-6">
-                        <input type="text" name="firstName" placeholder="First Name (Required)" value={userDetails.firstName} onChange={handleUserDetailChange} required className="w-full px-5 py-3 text-lg border-2 border-stone-300 rounded-full focus:ring-teal-500 focus:border-teal-500"/>
-                        <input type="text" name="lastName" placeholder="Last Name" value={userDetails.lastName} onChange={handleUserDetailChange} className="w-full px-5 py-3 text-lg border-2 border-stone-300 rounded-full focus:ring-teal-500 focus:border-teal-500"/>
-                        <input type="email" name="email" placeholder="Email (Required)" value={userDetails.email} onChange={handleUserDetailChange} required className="w-full px-5 py-3 text-lg border-2 border-stone-300 rounded-full focus:ring-teal-500 focus:border-teal-500"/>
+                        <input type="text" name="firstName" placeholder="First Name (Required)" value={userDetails.firstName} onChange={handleUserDetailChange} required className={`w-full px-5 py-3 text-lg border-2 ${fieldErrors.firstName ? 'border-rose-500' : 'border-stone-300'} rounded-full focus:ring-teal-500 focus:border-teal-500`}/>
+                        {fieldErrors.firstName && <p className="text-sm text-rose-700 text-left px-5">{fieldErrors.firstName}</p>}
+                        <input type="text" name="lastName" placeholder="Last Name" value={userDetails.lastName} onChange={handleUserDetailChange} className={`w-full px-5 py-3 text-lg border-2 ${fieldErrors.lastName ? 'border-rose-500' : 'border-stone-300'} rounded-full focus:ring-teal-500 focus:border-teal-500`}/>
+                        {fieldErrors.lastName && <p className="text-sm text-rose-700 text-left px-5">{fieldErrors.lastName}</p>}
+                        <input type="email" name="email" placeholder="Email (Required)" value={userDetails.email} onChange={handleUserDetailChange} required className={`w-full px-5 py-3 text-lg border-2 ${fieldErrors.email ? 'border-rose-500' : 'border-stone-300'} rounded-full focus:ring-teal-500 focus:border-teal-500`}/>
+                        {fieldErrors.email && <p className="text-sm text-rose-700 text-left px-5">{fieldErrors.email}</p>}
+                        {adaptiveDomains.length > 0 && (
+                            <label className="flex items-start gap-3 text-left text-stone-700 px-2">
+                                <input type="checkbox" checked={useAdaptive} onChange={e => setUseAdaptive(e.target.checked)} className="mt-1 h-5 w-5 text-teal-600 focus:ring-teal-500 border-gray-300 rounded" />
+                                <span>Ask me fewer questions where possible. Questions about {adaptiveDomains.join(', ')} will be chosen one at a time based on my answers.</span>
+                            </label>
+                        )}
                         <button type="submit" disabled={!isCurrentSectionAnswered()} className="px-8 py-4 bg-teal-700 text-white font-bold rounded-full shadow-lg hover:bg-teal-800 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed">
                             Start Assessment
                         </button>
                     </form>
+                    <form onSubmit={e => { e.preventDefault(); resumeFromCode(resumeCodeInput); }} className="mt-8 flex flex-col sm:flex-row gap-3 items-center justify-center">
+                        <label htmlFor="resumeCode" className="text-sm text-stone-600">Saved your progress?</label>
+                        <input id="resumeCode" type="text" placeholder="Resume code" value={resumeCodeInput} onChange={e => setResumeCodeInput(e.target.value)} className="px-4 py-2 border-2 border-stone-300 rounded-full uppercase tracking-widest focus:ring-teal-500 focus:border-teal-500" />
+                        <button type="submit" disabled={!resumeCodeInput.trim()} className="px-5 py-2 bg-stone-200 text-stone-800 font-semibold rounded-full hover:bg-stone-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Resume</button>
+                    </form>
+                    {error && <p className="text-red-600 mt-4">{error}</p>}
+                    <p className="mt-8 text-sm text-stone-500">
+                        Already taken the assessment? <a href="?view=access" className="font-semibold text-teal-700 hover:underline">Get a link to your report</a>
+                    </p>
                 </div>
             </div>
         );
@@ -135,36 +338,56 @@ const AssessmentForm: React.FC = () => {
 
     const currentSectionIndex = step - 1;
     const currentVisibleSection = visibleSections[currentSectionIndex];
-    const visibleQuestions = getVisibleQuestionsForSection(currentVisibleSection);
+    const adaptiveSection = isAdaptiveSection(currentVisibleSection);
+    const visibleQuestions = getVisibleQuestionsForSection(currentVisibleSection).filter(q => !adaptiveSection || !isScoredItem(q));
 
     return (
         <div className="flex flex-col items-center min-h-screen bg-gradient-to-br from-stone-50 to-stone-100 p-4 font-inter">
+            {showCrisisSupport && <CrisisInterstitial onContinue={() => setShowCrisisSupport(false)} />}
             <div className="max-w-4xl w-full bg-white p-8 sm:p-12 my-8 rounded-3xl shadow-2xl border border-stone-200">
+                {hasEndorsedCrisisItems && (
+                    <div className="mb-6 p-3 rounded-xl bg-rose-50 border border-rose-200 text-sm text-rose-800 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                        <span>If you need to talk to someone, support is available right now.</span>
+                        <button type="button" onClick={() => setShowCrisisSupport(true)} className="font-semibold underline text-left">Show crisis lines</button>
+                    </div>
+                )}
                 <ProgressTracker current={currentSectionIndex} total={visibleSections.length} />
                 <h2 className="text-3xl font-bold text-stone-800 mb-2">{currentVisibleSection.title}</h2>
                 <p className="text-stone-600 mb-8">{currentVisibleSection.description}</p>
                 <form onSubmit={handleSubmit} className="space-y-10">
                     {visibleQuestions.map((q, index) => (
-                        <fieldset key={q.id} className="p-4 border-l-4 border-stone-200">
+                        <fieldset key={q.id} className={`p-4 border-l-4 ${fieldErrors[q.id] ? 'border-rose-500 bg-rose-50' : 'border-stone-200'}`}>
                             <legend className="text-lg font-semibold text-stone-800">{`${index + 1}. ${q.text}`}</legend>
+                            {fieldErrors[q.id] && <p className="mt-2 text-sm text-rose-700" role="alert">{fieldErrors[q.id]}</p>}
                             <div className="mt-4 space-y-3">
-                                {answerOptions.map(opt => (
-                                    <label key={opt} className={`flex items-center p-4 rounded-xl border-2 transition-all cursor-pointer ${answers[q.id] === opt ? 'bg-teal-50 border-teal-500 shadow-sm' : 'border-stone-200 hover:border-stone-400'}`}>
+                                {q.options.map(opt => (
+                                    <label key={opt.value} className={`flex items-center p-4 rounded-xl border-2 transition-all cursor-pointer ${answers[q.id] === opt.value ? 'bg-teal-50 border-teal-500 shadow-sm' : 'border-stone-200 hover:border-stone-400'}`}>
                                         <input
                                             type="radio"
                                             name={q.id}
-                                            value={opt}
-                                            checked={answers[q.id] === opt}
-                                            onChange={() => handleAnswerChange(q.id, opt)}
+                                            value={opt.value}
+                                            checked={answers[q.id] === opt.value}
+                                            onChange={() => handleAnswerChange(q.id, opt.value)}
                                             className="h-5 w-5 text-teal-600 focus:ring-teal-500 border-gray-300"
                                             required={q.mandatory}
                                         />
-                                        <span className={`ml-4 text-base ${answers[q.id] === opt ? 'font-semibold text-stone-800' : 'text-stone-700'}`}>{opt}</span>
+                                        <span className={`ml-4 text-base ${answers[q.id] === opt.value ? 'font-semibold text-stone-800' : 'text-stone-700'}`}>{opt.label}</span>
                                     </label>
                                 ))}
                             </div>
                         </fieldset>
                     ))}
+                    {adaptiveSection && (
+                        <AdaptiveQuestions
+                            domain={currentVisibleSection.title}
+                            firstNumber={visibleQuestions.length + 1}
+                            answers={adaptiveAnswers[currentVisibleSection.title] ?? noAdaptiveAnswers}
+                            onAnswer={(itemId, value) => handleAdaptiveAnswer(currentVisibleSection.title, itemId, value)}
+                            onRestart={() => restartAdaptiveSection(currentVisibleSection.title)}
+                            onDoneChange={done => setAdaptiveDone(current => ({ ...current, [currentVisibleSection.title]: done }))}
+                        />
+                    )}
+                    {fieldErrors[currentVisibleSection.title] && <p className="text-sm text-rose-700" role="alert">{fieldErrors[currentVisibleSection.title]}</p>}
                     <div className="flex justify-between mt-12 pt-6 border-t border-stone-200">
                         <button type="button" onClick={prevStep} className="px-6 py-3 bg-stone-200 text-stone-800 font-semibold rounded-full hover:bg-stone-300 transition-colors">Back</button>
                         {currentSectionIndex < visibleSections.length - 1 ? (
@@ -177,6 +400,14 @@ const AssessmentForm: React.FC = () => {
                     </div>
                      {error && <p className="text-red-600 mt-4 text-center">{error}</p>}
                 </form>
+                <div className="mt-8 pt-6 border-t border-stone-200 text-center text-sm text-stone-600">
+                    <p>Need a break? Your progress is kept in this browser. To continue on another device, save it under a resume code.</p>
+                    <div className="mt-3 flex flex-wrap gap-3 justify-center">
+                        <button type="button" onClick={() => handleSaveForLater(false)} disabled={isSavingDraft} className="px-5 py-2 bg-stone-200 text-stone-800 font-semibold rounded-full hover:bg-stone-300 transition-colors disabled:opacity-50">Save and continue later</button>
+                        <button type="button" onClick={() => handleSaveForLater(true)} disabled={isSavingDraft} className="px-5 py-2 bg-stone-200 text-stone-800 font-semibold rounded-full hover:bg-stone-300 transition-colors disabled:opacity-50">Email me a link</button>
+                    </div>
+                    {draftMessage && <p className="mt-3 font-semibold text-teal-800" role="status">{draftMessage}</p>}
+                </div>
             </div>
         </div>
     );
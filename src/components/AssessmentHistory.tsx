@@ -0,0 +1,51 @@
+import React from 'react';
+import { HistoryEntry } from '../types';
+import { formatAssessmentDate, getIntervalScore, getStylesForScore } from '../utils/helpers';
+
+interface AssessmentHistoryProps {
+    entries: HistoryEntry[];
+    currentSubmissionId: string;
+}
+
+const AssessmentHistory: React.FC<AssessmentHistoryProps> = ({ entries, currentSubmissionId }) => {
+    if (entries.length < 2) return null;
+
+    // Newest first, so the most recent retakes are at the top of the list.
+    const ordered = [...entries].reverse();
+
+    return (
+        <div className="mb-10 p-6 bg-white rounded-2xl border border-blue-200">
+            <h2 className="text-2xl sm:text-3xl font-bold text-blue-800 mb-5 border-b pb-3 border-blue-300">Your Assessment History</h2>
+            <ul className="divide-y divide-gray-200">
+                {ordered.map(entry => {
+                    const isCurrent = entry.submissionId === currentSubmissionId;
+                    return (
+                        <li key={entry.submissionId} className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                            <div>
+                                {isCurrent || !entry.accessToken ? (
+                                    <span className="font-semibold text-gray-800">{formatAssessmentDate(entry.assessmentDate)}</span>
+                                ) : (
+                                    <a href={`?token=${encodeURIComponent(entry.accessToken)}`} className="font-semibold text-blue-600 hover:underline">
+                                        {formatAssessmentDate(entry.assessmentDate)}
+                                    </a>
+                                )}
+                                {isCurrent && <span className="ml-2 text-xs font-semibold text-teal-700 bg-teal-50 px-2 py-0.5 rounded-full">This report</span>}
+                            </div>
+                            <div className="flex flex-wrap gap-1">
+                                {entry.domains.map(domain => (
+                                    <span
+                                        key={domain.name}
+                                        title={`${domain.name}: ${domain.userInterpretation}`}
+                                        className={`w-3 h-3 rounded-full ${getStylesForScore(getIntervalScore(domain), domain.referenceIntervals).bgColor}`}
+                                    />
+                                ))}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+export default AssessmentHistory;
@@ -1,18 +1,25 @@
 
 
 import React from 'react';
-import { Domain } from '../types';
-import { getStylesForScore } from '../utils/helpers';
+import { Domain, ReliableChange } from '../types';
+import { getIntervalScore, getStylesForScore } from '../utils/helpers';
 import { domainIcons } from './icons';
+import ReliableChangeBadge from './ReliableChangeBadge';
 
-const AtAGlance: React.FC<{ domains: Domain[] }> = ({ domains }) => {
+interface AtAGlanceProps {
+    domains: Domain[];
+    reliableChanges?: ReliableChange[];
+}
+
+const AtAGlance: React.FC<AtAGlanceProps> = ({ domains, reliableChanges = [] }) => {
     return (
         <div className="mb-10 p-6 bg-blue-50 rounded-2xl border border-blue-200 shadow-inner">
             <h2 className="text-2xl sm:text-3xl font-bold text-blue-800 mb-5 border-b pb-3 border-blue-300">Results Summary</h2>
             <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-y-6 gap-x-4 text-center">
                 {domains.map((domain, index) => {
                     const IconComponent = domainIcons[domain.name];
-                    const { bgColor, textColor, iconTextColor } = getStylesForScore(domain.score, domain.referenceIntervals);
+                    const { bgColor, textColor, iconTextColor } = getStylesForScore(getIntervalScore(domain), domain.referenceIntervals);
+                    const change = reliableChanges.find(c => c.domainName === domain.name);
                     
                     return (
                         <div key={index} title={`${domain.name}: ${domain.userInterpretation}`} className="flex flex-col items-center">
@@ -21,6 +28,7 @@ const AtAGlance: React.FC<{ domains: Domain[] }> = ({ domains }) => {
                             </div>
                             <p className="mt-2 text-xs font-semibold text-gray-800 leading-tight w-full">{domain.name}</p>
                             <p className={`text-xs font-medium ${textColor}`}>{domain.userInterpretation}</p>
+                            {change && <div className="mt-1"><ReliableChangeBadge change={change} /></div>}
                         </div>
                     )
                 })}
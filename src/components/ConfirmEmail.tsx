@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { confirmReportEmail, requestEmailConfirmation } from '../services/api';
+
+interface ConfirmEmailProps {
+    token: string;
+    onConfirmed: (token: string) => void; // Receives a fresh link that also leads to the person's history
+}
+
+// Reports only join a person's history once the email they were taken with is confirmed, as
+// anyone could have typed the address. Shown on a report that has not been confirmed yet.
+const ConfirmEmail: React.FC<ConfirmEmailProps> = ({ token, onConfirmed }) => {
+    const [code, setCode] = useState('');
+    const [codeSent, setCodeSent] = useState(false);
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleRequestCode = async () => {
+        setIsWorking(true);
+        setError(null);
+        try {
+            await requestEmailConfirmation(token);
+            setCodeSent(true);
+        } catch (apiError: any) {
+            console.error('Failed to request confirmation code:', apiError);
+            setError(apiError.message);
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleConfirm = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsWorking(true);
+        setError(null);
+        try {
+            const link = await confirmReportEmail(token, code.trim());
+            onConfirmed(link.accessToken);
+        } catch (apiError: any) {
+            console.error('Failed to confirm email:', apiError);
+            setError(apiError.message);
+            setIsWorking(false);
+        }
+    };
+
+    return (
+        <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-2xl text-sm text-blue-900">
+            <p className="font-semibold">See this report alongside your earlier assessments</p>
+            {error && <p className="mt-2 text-rose-700" role="alert">{error}</p>}
+            {codeSent ? (
+                <form onSubmit={handleConfirm} className="mt-3 flex flex-wrap items-center gap-2">
+                    <span>Enter the 6-digit code we emailed you:</span>
+                    <input type="text" inputMode="numeric" autoComplete="one-time-code" value={code} onChange={e => setCode(e.target.value)} required className="w-32 px-3 py-1.5 tracking-widest text-center border-2 border-blue-200 rounded-full" />
+                    <button type="submit" disabled={isWorking} className="px-4 py-1.5 bg-blue-700 text-white font-semibold rounded-full hover:bg-blue-800 disabled:opacity-50">Confirm</button>
+                </form>
+            ) : (
+                <p className="mt-1">
+                    Confirm the email you took this assessment with and we'll link it to your history.{' '}
+                    <button type="button" onClick={handleRequestCode} disabled={isWorking} className="font-semibold underline disabled:opacity-50">Email me a code</button>
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default ConfirmEmail;
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { crisisRegions, detectCrisisRegion, getCrisisRegion, internationalCrisisRegion } from '../data/crisisResources';
+
+interface CrisisInterstitialProps {
+    onContinue: () => void;
+}
+
+const CrisisInterstitial: React.FC<CrisisInterstitialProps> = ({ onContinue }) => {
+    const [regionCode, setRegionCode] = useState(detectCrisisRegion);
+    const region = getCrisisRegion(regionCode);
+    const primaryLine = region.lines.find(line => line.phone);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-stone-900/60 p-4" role="dialog" aria-modal="true" aria-labelledby="crisis-title">
+            <div className="max-w-xl w-full max-h-full overflow-y-auto bg-white rounded-3xl shadow-2xl border border-stone-200 p-8">
+                <h2 id="crisis-title" className="text-2xl font-bold text-stone-800 mb-3">You don't have to go through this alone</h2>
+                <p className="text-stone-700 mb-6">
+                    You mentioned having thoughts of hurting yourself. Thank you for being honest. Talking to someone right now can help, and it's free and confidential.
+                    If you are in immediate danger, please call {region.emergencyNumber}.
+                </p>
+
+                {primaryLine && (
+                    <a
+                        href={`tel:${primaryLine.phone}`}
+                        className="block w-full text-center px-6 py-4 mb-6 bg-teal-700 text-white text-lg font-bold rounded-full shadow-lg hover:bg-teal-800 transition-colors"
+                    >
+                        Talk to someone now: call {primaryLine.name} ({primaryLine.displayPhone})
+                    </a>
+                )}
+
+                <label className="block text-sm font-semibold text-stone-600 mb-1" htmlFor="crisis-region">Where are you?</label>
+                <select
+                    id="crisis-region"
+                    value={region.code}
+                    onChange={e => setRegionCode(e.target.value)}
+                    className="w-full mb-4 px-4 py-2 border-2 border-stone-300 rounded-full focus:ring-teal-500 focus:border-teal-500"
+                >
+                    {[...crisisRegions, internationalCrisisRegion].map(r => (
+                        <option key={r.code} value={r.code}>{r.name}</option>
+                    ))}
+                </select>
+
+                <ul className="space-y-3 mb-8">
+                    {region.lines.map(line => (
+                        <li key={line.name} className="p-4 rounded-xl border-2 border-stone-200">
+                            <p className="font-semibold text-stone-800">{line.name}</p>
+                            <p className="text-sm text-stone-600">{line.description}</p>
+                            <div className="mt-1 flex flex-wrap gap-x-4 text-sm font-medium">
+                                {line.phone && <a href={`tel:${line.phone}`} className="text-teal-700 hover:underline">Call {line.displayPhone}</a>}
+                                {line.link && <a href={line.link} target="_blank" rel="noopener noreferrer" className="text-teal-700 hover:underline">Website</a>}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+
+                <button
+                    type="button"
+                    onClick={onContinue}
+                    className="w-full px-6 py-3 bg-stone-200 text-stone-800 font-semibold rounded-full hover:bg-stone-300 transition-colors"
+                >
+                    I'm safe right now, continue the assessment
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default CrisisInterstitial;
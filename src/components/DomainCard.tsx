@@ -1,21 +1,30 @@
 
 
 import React from 'react';
-import { Domain } from '../types';
-import { getStylesForScore } from '../utils/helpers';
+import { Domain, HistoryEntry, ReliableChange } from '../types';
+import { formatPercentile, getDomainTrend, getIntervalScore, getStylesForScore } from '../utils/helpers';
 import { InformationCircleIcon, LightbulbIcon, UsersIcon, domainIcons } from './icons';
 import ScoreBar from './ScoreBar';
+import ReliableChangeBadge from './ReliableChangeBadge';
+import ScoringTracePanel from './ScoringTracePanel';
+import TrendChart from './TrendChart';
 
 interface DomainCardProps {
   domain: Domain;
   index: number;
   firstName: string;
+  submissionId: string;
+  history?: HistoryEntry[];
+  reliableChange?: ReliableChange;
+  isInsightLoading?: boolean;
 }
 
-const DomainCard: React.FC<DomainCardProps> = ({ domain, index, firstName }) => {
+const DomainCard: React.FC<DomainCardProps> = ({ domain, index, firstName, submissionId, history = [], reliableChange, isInsightLoading = false }) => {
   // Get all style classes from the centralized helper function
-  const { textColor, borderColor } = getStylesForScore(domain.score, domain.referenceIntervals);
+  const intervalScore = getIntervalScore(domain);
+  const { textColor, borderColor } = getStylesForScore(intervalScore, domain.referenceIntervals);
   const IconComponent = domainIcons[domain.name];
+  const trend = getDomainTrend(domain, history, submissionId);
 
   return (
     <div id={`domain-${index}`} className={`bg-white rounded-2xl shadow-lg border-l-8 transition-shadow duration-300 hover:shadow-xl ${borderColor}`}>
@@ -34,14 +43,51 @@ const DomainCard: React.FC<DomainCardProps> = ({ domain, index, firstName }) =>
             </div>
 
             {/* Score Visualization */}
-             {domain.score !== null && domain.referenceIntervals.length > 0 ? (
+             {intervalScore !== null && domain.referenceIntervals.length > 0 ? (
                 <div className="mb-6">
-                    <ScoreBar score={domain.score} intervals={domain.referenceIntervals} />
+                    <ScoreBar
+                        score={intervalScore}
+                        intervals={domain.referenceIntervals}
+                        scoreLabel={domain.tScore != null ? 'Your T-Score' : 'Your Score'}
+                    />
+                    {domain.tScore != null && (
+                        <p className="mt-3 text-sm text-gray-600 text-center">
+                            PROMIS T-score {domain.tScore.toFixed(1)}
+                            {domain.standardError != null && <> (&plusmn; {domain.standardError.toFixed(1)} SE)</>}
+                            {domain.percentile != null && <> &middot; {formatPercentile(domain.percentile)} percentile of the general population</>}
+                        </p>
+                    )}
                 </div>
             ) : (
                  <div className="mb-6 p-3 bg-gray-50 rounded-lg text-center text-gray-600 italic">Score not available</div>
             )}
 
+            {/* Change Since Last Assessment */}
+            {reliableChange && (
+                <div className="mb-6">
+                    <ReliableChangeBadge change={reliableChange} showDetails />
+                </div>
+            )}
+
+            {/* Progress Over Time */}
+            {trend.length >= 2 && (
+                <div className="mb-6">
+                    <h4 className="text-lg font-semibold text-gray-800 mb-2">Your Progress Over Time</h4>
+                    <TrendChart
+                        points={trend}
+                        intervals={domain.referenceIntervals}
+                        scoreLabel={domain.tScore != null ? 'T-score' : 'Score'}
+                    />
+                </div>
+            )}
+
+            {/* Scoring Explanation */}
+            {domain.scoringTrace && (
+                <div className="mb-6">
+                    <ScoringTracePanel trace={domain.scoringTrace} score={domain.score} tScore={domain.tScore} />
+                </div>
+            )}
+
 
             {/* Details Sections */}
             <div className="space-y-6">
@@ -65,7 +111,15 @@ const DomainCard: React.FC<DomainCardProps> = ({ domain, index, firstName }) =>
                         <LightbulbIcon className="h-6 w-6 text-yellow-500 mr-2" />
                         <h4 className="text-lg font-semibold text-gray-800">Insights & Support</h4>
                     </div>
-                    <p className="text-gray-700 text-base leading-relaxed pl-8 whitespace-pre-wrap">{domain.insightsAndSupport}</p>
+                    {isInsightLoading ? (
+                        <div className="pl-8 space-y-2 animate-pulse" aria-label="Writing your personalized insight">
+                            <div className="h-3 bg-gray-200 rounded w-full" />
+                            <div className="h-3 bg-gray-200 rounded w-11/12" />
+                            <div className="h-3 bg-gray-200 rounded w-3/4" />
+                        </div>
+                    ) : (
+                        <p className="text-gray-700 text-base leading-relaxed pl-8 whitespace-pre-wrap">{domain.insightsAndSupport}</p>
+                    )}
                 </div>
 
                 {/* Individuals Who Experienced This */}
@@ -0,0 +1,73 @@
+import React from 'react';
+import { CareTier, ExecutiveSummary as ExecutiveSummaryData, PatternFlag } from '../types';
+import { careTierLabels } from '../../api/_lib/careTier';
+
+interface ExecutiveSummaryProps {
+    summary: ExecutiveSummaryData;
+    patternFlags?: PatternFlag[];
+}
+
+const careStyles: { [key in CareTier]: string } = {
+    urgent: 'bg-red-50 border-red-300 text-red-800',
+    psychiatrist: 'bg-orange-50 border-orange-300 text-orange-800',
+    therapist: 'bg-amber-50 border-amber-300 text-amber-800',
+    counsellor: 'bg-yellow-50 border-yellow-300 text-yellow-800',
+    self_help: 'bg-green-50 border-green-300 text-green-800',
+};
+
+const ExecutiveSummary: React.FC<ExecutiveSummaryProps> = ({ summary, patternFlags = [] }) => {
+    // Only flags with a message written for the person belong in their report.
+    const patternMessages = patternFlags.filter(flag => flag.clientMessage);
+
+    return (
+        <div className="mb-10 p-6 bg-white rounded-2xl border border-blue-200 shadow-inner">
+            <h2 className="text-2xl sm:text-3xl font-bold text-blue-800 mb-5 border-b pb-3 border-blue-300">Your Overall Picture</h2>
+            <p className="text-gray-700 mb-5">{summary.overview}</p>
+
+            {summary.priorityAreas.length > 0 && (
+                <div className="mb-5">
+                    <h3 className="text-lg font-semibold text-gray-800 mb-2">Areas to focus on</h3>
+                    <ol className="flex flex-wrap gap-2">
+                        {summary.priorityAreas.map((area, index) => (
+                            <li key={area.domainName} className="rounded-full border border-blue-300 bg-blue-50 px-3 py-1 text-sm text-blue-900">
+                                <span className="font-semibold">{index + 1}. {area.domainName}</span> &middot; {area.interpretation}
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            )}
+
+            {(summary.interactions.length > 0 || patternMessages.length > 0) && (
+                <div className="mb-5">
+                    <h3 className="text-lg font-semibold text-gray-800 mb-2">How these areas may connect</h3>
+                    <ul className="list-disc pl-5 space-y-1 text-gray-700">
+                        {summary.interactions.map(interaction => (
+                            <li key={interaction.domainNames.join('|')}>
+                                <span className="font-semibold">{interaction.domainNames.join(' and ')}:</span> {interaction.description}
+                            </li>
+                        ))}
+                        {patternMessages.map(flag => (
+                            <li key={flag.id}>{flag.clientMessage}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <div className={`mb-5 rounded-lg border p-4 ${careStyles[summary.careTier]}`}>
+                <p className="font-bold">Recommended level of care: {careTierLabels[summary.careTier]}</p>
+                <p className="text-sm mt-1">{summary.careRecommendation}</p>
+            </div>
+
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">Your action plan</h3>
+            <ol className="list-decimal pl-5 space-y-2 text-gray-700">
+                {summary.actionPlan.map(step => (
+                    <li key={step.title}>
+                        <span className="font-semibold">{step.title}.</span> {step.detail}
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
+export default ExecutiveSummary;
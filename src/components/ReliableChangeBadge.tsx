@@ -0,0 +1,44 @@
+import React from 'react';
+import { ReliableChange, ReliableChangeStatus } from '../types';
+import { formatAssessmentDate } from '../utils/helpers';
+
+interface ReliableChangeBadgeProps {
+    change: ReliableChange;
+    showDetails?: boolean;
+}
+
+const badgeStyles: { [key in ReliableChangeStatus]: { label: string; className: string; arrow: string } } = {
+    reliably_improved: { label: 'Reliably improved', className: 'bg-green-100 text-green-800 border-green-300', arrow: '↓' },
+    no_reliable_change: { label: 'No reliable change', className: 'bg-gray-100 text-gray-700 border-gray-300', arrow: '→' },
+    reliably_worsened: { label: 'Reliably worsened', className: 'bg-red-100 text-red-800 border-red-300', arrow: '↑' },
+};
+
+const ReliableChangeBadge: React.FC<ReliableChangeBadgeProps> = ({ change, showDetails = false }) => {
+    const style = badgeStyles[change.status];
+    const sign = change.difference > 0 ? '+' : '';
+
+    return (
+        <div className={showDetails ? 'space-y-1' : ''}>
+            <span
+                className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-semibold ${style.className}`}
+                title={`Change of ${sign}${change.difference} since ${formatAssessmentDate(change.previousAssessmentDate)} (RCI ${change.rci})`}
+            >
+                <span aria-hidden="true">{style.arrow}</span>
+                {style.label}
+            </span>
+            {showDetails && (
+                <p className="text-sm text-gray-600">
+                    Since your assessment on {formatAssessmentDate(change.previousAssessmentDate)}, your score changed from {change.previousScore} to {change.currentScore} ({sign}{change.difference}).
+                    {change.status === 'no_reliable_change'
+                        ? ' This is within the range expected from measurement error alone, so it should not be read as a real change.'
+                        : ' This is larger than measurement error alone would explain.'}
+                    {change.crossedThreshold && change.previousInterval && change.currentInterval && (
+                        <> Your result moved from the "{change.previousInterval}" range to the "{change.currentInterval}" range.</>
+                    )}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default ReliableChangeBadge;
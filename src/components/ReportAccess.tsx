@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { ReportLink } from '../types';
+import { requestAccessCode, verifyAccessCode } from '../services/api';
+import { formatAssessmentDate } from '../utils/helpers';
+
+// Lets a person get fresh links to their reports by proving they own the email address
+// they took the assessment with, through a one-time code sent to it.
+const ReportAccess: React.FC = () => {
+    const [email, setEmail] = useState('');
+    const [code, setCode] = useState('');
+    const [codeSent, setCodeSent] = useState(false);
+    const [links, setLinks] = useState<ReportLink[] | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleRequestCode = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsWorking(true);
+        setError(null);
+        try {
+            await requestAccessCode(email.trim());
+            setCodeSent(true);
+        } catch (apiError: any) {
+            console.error('Failed to request access code:', apiError);
+            setError(apiError.message);
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleVerifyCode = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsWorking(true);
+        setError(null);
+        try {
+            setLinks(await verifyAccessCode(email.trim(), code.trim()));
+        } catch (apiError: any) {
+            console.error('Failed to verify access code:', apiError);
+            setError(apiError.message);
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-col items-center justify-center min-h-screen bg-gradient-to-br from-stone-50 to-stone-100 p-4 font-inter">
+            <div className="max-w-md w-full bg-white p-8 rounded-3xl shadow-2xl border border-stone-200 text-center">
+                <h1 className="text-3xl font-extrabold text-stone-800 mb-2">Find Your Report</h1>
+
+                {error && <div className="my-4 p-3 bg-rose-50 border border-rose-300 text-rose-800 rounded-lg text-sm" role="alert">{error}</div>}
+
+                {links ? (
+                    links.length === 0 ? (
+                        <p className="text-stone-600">No reports were found for this email.</p>
+                    ) : (
+                        <>
+                            <p className="text-stone-600 mb-4">Your reports are below. These links are private to you and expire in 30 days.</p>
+                            <ul className="divide-y divide-stone-200 text-left">
+                                {links.map(link => (
+                                    <li key={link.submissionId} className="py-3">
+                                        <a href={`?token=${encodeURIComponent(link.accessToken)}`} className="font-semibold text-teal-700 hover:underline">
+                                            Assessment of {formatAssessmentDate(link.assessmentDate)}
+                                        </a>
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )
+                ) : codeSent ? (
+                    <form onSubmit={handleVerifyCode} className="space-y-4">
+                        <p className="text-stone-600">If we have reports for <strong>{email}</strong>, we've emailed a 6-digit code to it. Enter it below.</p>
+                        <input type="text" inputMode="numeric" autoComplete="one-time-code" value={code} onChange={e => setCode(e.target.value)} placeholder="6-digit code" required className="w-full px-5 py-3 text-lg tracking-widest text-center border-2 border-stone-300 rounded-full focus:ring-teal-500 focus:border-teal-500" />
+                        <button type="submit" disabled={isWorking} className="px-8 py-3 bg-teal-700 text-white font-bold rounded-full shadow-lg hover:bg-teal-800 disabled:opacity-50">Show My Reports</button>
+                        <button type="button" onClick={() => { setCodeSent(false); setCode(''); }} className="block mx-auto text-sm text-stone-600 hover:underline">Use a different email</button>
+                    </form>
+                ) : (
+                    <form onSubmit={handleRequestCode} className="space-y-4">
+                        <p className="text-stone-600">Enter the email you took the assessment with and we'll send you a one-time code to get a new link to your report.</p>
+                        <input type="email" value={email} onChange={e => setEmail(e.target.value)} placeholder="Email" required className="w-full px-5 py-3 text-lg border-2 border-stone-300 rounded-full focus:ring-teal-500 focus:border-teal-500" />
+                        <button type="submit" disabled={isWorking} className="px-8 py-3 bg-teal-700 text-white font-bold rounded-full shadow-lg hover:bg-teal-800 disabled:opacity-50">Email Me a Code</button>
+                    </form>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ReportAccess;
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { IndividualData, InsightGuardrailFinding, InsightSet, InsightViolation, ValidityIndicatorKind } from '../types';
+import { REPORT_TOKEN_STORAGE_KEY, regenerateInsights, submitReview } from '../services/api';
+import { careTierLabels } from '../../api/_lib/careTier';
+
+interface ReviewPanelProps {
+    report: IndividualData;
+    token: string;
+    onReviewed: (report: IndividualData) => void;
+    insightFindings: InsightGuardrailFinding[];
+    onInsightsRegenerated: (insightSet: InsightSet) => void;
+}
+
+const violationLabels: { [key in InsightViolation]: string } = {
+    diagnostic_language: 'diagnostic language',
+    medication_advice: 'medication advice',
+    alarmist_language: 'alarmist language',
+    missing_professional_help: 'no professional-help recommendation',
+    too_long: 'too long',
+};
+
+const validityLabels: { [key in ValidityIndicatorKind]: string } = {
+    straight_lining: 'Same answer throughout',
+    inconsistent_pairs: 'Contradictory answers',
+    fast_completion: 'Completed very quickly',
+    missing_items: 'Many items skipped',
+};
+
+// Shown to signed-in clinicians above the report; never part of the downloaded PDF.
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ report, token, onReviewed, insightFindings, onInsightsRegenerated }) => {
+    const [comments, setComments] = useState(report.signOff?.comments ?? '');
+    const [reason, setReason] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [isRegenerating, setIsRegenerating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const isSigned = !!report.signOff;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setError(null);
+        try {
+            const reviewed = await submitReview(token, report.individualId, isSigned ? 'amend' : 'sign', comments, reason);
+            setReason('');
+            onReviewed(reviewed);
+        } catch (apiError: any) {
+            console.error('Review failed:', apiError);
+            setError(apiError.message);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRegenerate = async () => {
+        const reportToken = sessionStorage.getItem(REPORT_TOKEN_STORAGE_KEY);
+        if (!reportToken) return;
+        setIsRegenerating(true);
+        setError(null);
+        try {
+            const insightSet = await regenerateInsights(token, reportToken);
+            onInsightsRegenerated(insightSet);
+        } catch (apiError: any) {
+            console.error('Regenerating insights failed:', apiError);
+            setError(apiError.message);
+        } finally {
+            setIsRegenerating(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="mb-4 p-4 bg-white rounded-2xl border border-teal-200 shadow space-y-3">
+            <h2 className="text-lg font-bold text-teal-800">
+                {isSigned ? `Amend signed report (currently version ${report.version ?? 1})` : 'Clinician review'}
+            </h2>
+            <textarea
+                value={comments}
+                onChange={e => setComments(e.target.value)}
+                placeholder="Reviewer comments shown on the report"
+                rows={3}
+                className="w-full px-3 py-2 border-2 border-stone-300 rounded-lg focus:ring-teal-500 focus:border-teal-500"
+            />
+            {isSigned && (
+                <input
+                    type="text"
+                    value={reason}
+                    onChange={e => setReason(e.target.value)}
+                    placeholder="Reason for the amendment (required)"
+                    required
+                    className="w-full px-3 py-2 border-2 border-stone-300 rounded-lg focus:ring-teal-500 focus:border-teal-500"
+                />
+            )}
+            <div className="flex flex-wrap gap-3">
+                <button type="submit" disabled={isSaving || (isSigned && !reason.trim())} className="px-6 py-2 bg-teal-700 text-white font-bold rounded-full hover:bg-teal-800 disabled:opacity-50">
+                    {isSaving ? 'Saving...' : isSigned ? 'Save as new version' : 'Sign off report'}
+                </button>
+                <button type="button" onClick={handleRegenerate} disabled={isRegenerating} className="px-6 py-2 border-2 border-teal-700 text-teal-800 font-bold rounded-full hover:bg-teal-50 disabled:opacity-50">
+                    {isRegenerating ? 'Regenerating...' : 'Regenerate insights'}
+                </button>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {report.validityIndicators && report.validityIndicators.length > 0 && (
+                <div className="text-sm text-rose-900 bg-rose-50 border border-rose-200 rounded-lg p-3" role="alert">
+                    <p className="font-semibold">Check these answers before relying on the scores</p>
+                    <ul className="mt-2 list-disc pl-5 space-y-1">
+                        {report.validityIndicators.map(indicator => (
+                            <li key={indicator.kind}>
+                                <strong>{validityLabels[indicator.kind]}</strong>: {indicator.detail}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            {report.careTier && (
+                <p className="text-sm text-stone-700">
+                    Recommended care: <strong>{careTierLabels[report.careTier.tier]}</strong> &middot; {report.careTier.reason}
+                </p>
+            )}
+            {report.patternFlags && report.patternFlags.length > 0 && (
+                <div className="text-sm text-indigo-900 bg-indigo-50 border border-indigo-200 rounded-lg p-3">
+                    <p className="font-semibold">Cross-domain patterns</p>
+                    <ul className="mt-2 space-y-2">
+                        {report.patternFlags.map(flag => (
+                            <li key={flag.id}>
+                                <strong>{flag.name}</strong> ({flag.domainNames.join(', ')}){flag.clientMessage ? ' · shown to the client' : ''}
+                                <p className="mt-1 text-stone-700">{flag.rationale}</p>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            {insightFindings.length > 0 && (
+                <details className="text-sm text-amber-900 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                    <summary className="font-semibold cursor-pointer">
+                        Safety checks changed {insightFindings.length} AI insight{insightFindings.length === 1 ? '' : 's'}
+                    </summary>
+                    <ul className="mt-2 space-y-2">
+                        {insightFindings.map(finding => (
+                            <li key={finding.domainName}>
+                                <strong>{finding.domainName}</strong>: {finding.action} ({finding.violations.map(violation => violationLabels[violation]).join(', ')})
+                                <p className="mt-1 text-stone-600 italic">{finding.original}</p>
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+        </form>
+    );
+};
+
+export default ReviewPanel;
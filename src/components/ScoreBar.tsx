@@ -1,9 +1,11 @@
 import React, { useMemo } from 'react';
 import { ReferenceInterval } from '../types';
+import { getIntervalScaleMax, intervalHexColors } from '../utils/helpers';
 
 interface ScoreBarProps {
     score: number | null;
     intervals: ReferenceInterval[];
+    scoreLabel?: string;
 }
 
 interface DisplaySegment {
@@ -13,38 +15,26 @@ interface DisplaySegment {
     range?: string;
 }
 
-const ScoreBar: React.FC<ScoreBarProps> = ({ score, intervals }) => {
+const ScoreBar: React.FC<ScoreBarProps> = ({ score, intervals, scoreLabel = 'Your Score' }) => {
     const { scorePercentage, gradient, displaySegments, gridTemplateColumns } = useMemo(() => {
         if (intervals.length === 0) {
             return { scorePercentage: 0, gradient: '', displaySegments: [], gridTemplateColumns: '' };
         }
 
-        const validIntervals = intervals.filter(i => i.max !== null);
-        if (validIntervals.length === 0) {
-             const singlePointMax = Math.max(...intervals.map(i => i.min));
-             validIntervals.push({label: 'All Perfect', min: 0, max: singlePointMax, color: 'bg-green-500'});
-        }
-
-        const maxVal = Math.max(...validIntervals.map(i => i.max as number), ...intervals.map(i => i.min));
-        const totalScoreRange = maxVal > 0 ? maxVal : 1; // e.g. 0-40 scale has range of 40
+        const maxVal = getIntervalScaleMax(intervals, score !== null ? [score] : []);
+        // Raw scales start at 0, but T-score scales start well above it; the bar begins at the lowest interval.
+        const minVal = Math.min(...intervals.map(i => i.min));
+        const totalScoreRange = maxVal - minVal > 0 ? maxVal - minVal : 1; // e.g. 0-40 scale has range of 40
 
-        const percentage = score !== null ? (score / totalScoreRange) * 100 : 0;
+        const percentage = score !== null ? ((score - minVal) / totalScoreRange) * 100 : 0;
         const scorePerc = Math.max(0, Math.min(100, percentage));
 
         const sortedIntervals = [...intervals].sort((a, b) => a.min - b.min);
 
-        const colorMap: { [key: string]: string } = {
-            'bg-green-500': '#22c55e',
-            'bg-yellow-500': '#eab308',
-            'bg-orange-500': '#f97316',
-            'bg-red-500': '#ef4444',
-            'bg-amber-400': '#fbbd23', 
-        };
-
         const colorStops = sortedIntervals.flatMap((interval) => {
-            const color = colorMap[interval.color] || '#d1d5db';
-            const startPercent = (interval.min / totalScoreRange) * 100;
-            const endPercent = ((interval.max ?? totalScoreRange) / totalScoreRange) * 100;
+            const color = intervalHexColors[interval.color] || '#d1d5db';
+            const startPercent = ((interval.min - minVal) / totalScoreRange) * 100;
+            const endPercent = ((interval.max ?? maxVal) - minVal) / totalScoreRange * 100;
             
             if (startPercent === endPercent) {
                  return [`${color} ${startPercent}%`, `${color} ${startPercent + 0.1}%`];
@@ -56,7 +46,7 @@ const ScoreBar: React.FC<ScoreBarProps> = ({ score, intervals }) => {
 
         // --- New Grid Calculation Logic ---
         const segments: DisplaySegment[] = [];
-        let lastMax = -1;
+        let lastMax = minVal - 1;
 
         for (const interval of sortedIntervals) {
             // Check for a gap before this interval
@@ -72,7 +62,7 @@ const ScoreBar: React.FC<ScoreBarProps> = ({ score, intervals }) => {
             const rangeLabel = interval.min === interval.max ? `${interval.min}` : `${interval.min}${maxLabel}`;
             segments.push({
                 type: 'interval',
-                width: (interval.max ?? totalScoreRange) - interval.min + (interval.max === null ? 0 : 1),
+                width: (interval.max ?? maxVal) - interval.min + (interval.max === null ? 0 : 1),
                 label: interval.label,
                 range: rangeLabel,
             });
@@ -102,7 +92,7 @@ const ScoreBar: React.FC<ScoreBarProps> = ({ score, intervals }) => {
                             left: `clamp(4em, ${scorePercentage}%, calc(100% - 4em))`, 
                             transform: 'translateX(-50%)' 
                          }}>
-                        <span className="text-sm font-bold text-gray-700 whitespace-nowrap">Your Score ({score})</span>
+                        <span className="text-sm font-bold text-gray-700 whitespace-nowrap">{scoreLabel} ({score})</span>
                         <div className="w-0 h-0 border-l-[6px] border-r-[6px] border-t-[6px] border-l-transparent border-r-transparent border-t-gray-700 mt-1" />
                     </div>
                 )}
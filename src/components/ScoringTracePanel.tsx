@@ -0,0 +1,105 @@
+import React from 'react';
+import { ScoringTrace } from '../types';
+
+interface ScoringTracePanelProps {
+    trace: ScoringTrace;
+    score: number | null;
+    tScore: number | null;
+}
+
+const methodDescriptions: { [key in ScoringTrace['method']]: string } = {
+    SUM: 'Sum of the item values',
+    AVERAGE: 'Average of the item values, rounded to one decimal place',
+    MAX_THRESHOLD: 'Highest value given to any item',
+};
+
+const shortFormNames: { [key: string]: string } = {
+    DEPRESSION_8A: 'PROMIS Depression Short Form 8a',
+    ANGER_5A: 'PROMIS Anger Short Form 5a',
+    ANXIETY_7A: 'PROMIS Anxiety Short Form 7a',
+    SLEEP_DISTURBANCE_8A: 'PROMIS Sleep Disturbance Short Form 8a',
+};
+
+const stopReasonDescriptions: { [key in NonNullable<NonNullable<ScoringTrace['adaptive']>['stopReason']>]: string } = {
+    precision: 'the score was precise enough',
+    max_items: 'the maximum number of questions was reached',
+    bank_exhausted: 'every question in the item bank had been asked',
+};
+
+const ScoringTracePanel: React.FC<ScoringTracePanelProps> = ({ trace, score, tScore }) => {
+    const missingCount = trace.items.filter(item => item.missing).length;
+    const interval = trace.matchedInterval;
+
+    return (
+        <details className="mt-4 rounded-lg border border-gray-200 bg-gray-50 text-sm text-gray-700">
+            <summary className="cursor-pointer select-none px-4 py-2 font-semibold text-blue-700 hover:text-blue-900">
+                How was this calculated?
+            </summary>
+            <div className="px-4 pb-4 space-y-3">
+                {trace.adaptive ? (
+                    <p><span className="font-semibold">Method:</span> Adaptive testing with the {trace.adaptive.itemBank}. Each question was chosen from your earlier answers, and the score was estimated with the graded response model.</p>
+                ) : (
+                    <p><span className="font-semibold">Method:</span> {methodDescriptions[trace.method]}.</p>
+                )}
+
+                <table className="w-full text-left border-collapse">
+                    <thead>
+                        <tr className="border-b border-gray-300 text-gray-600">
+                            <th className="py-1 pr-2 font-semibold">Question</th>
+                            <th className="py-1 pr-2 font-semibold">Your answer</th>
+                            <th className="py-1 font-semibold text-right">Value</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {trace.items.map(item => (
+                            <tr key={item.itemId} className="border-b border-gray-200 align-top">
+                                <td className="py-1 pr-2">{item.text}</td>
+                                <td className="py-1 pr-2">{item.missing ? <span className="italic text-gray-500">Not answered</span> : item.answerLabel}</td>
+                                <td className="py-1 text-right whitespace-nowrap">
+                                    {item.mappedValue ?? '—'}
+                                    {item.reversed && !item.missing && <span className="ml-1 text-xs text-gray-500">(reverse-scored)</span>}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                <ul className="list-disc pl-5 space-y-1">
+                    {trace.adaptive ? (
+                        <>
+                            {trace.adaptive.stopReason ? (
+                                <>
+                                    <li>{trace.answeredCount} questions were asked before testing stopped, because {stopReasonDescriptions[trace.adaptive.stopReason]}.</li>
+                                    <li>The estimate of {trace.adaptive.theta} on the item bank's scale is a T-score of {tScore}. Item parameters: {trace.adaptive.source}.</li>
+                                </>
+                            ) : (
+                                <li>Only {trace.answeredCount} questions were answered, too few for adaptive testing to stop, so this section was not scored.</li>
+                            )}
+                        </>
+                    ) : (
+                        <li>{trace.answeredCount} of {trace.expectedCount} items answered{missingCount > 0 ? `; ${missingCount} missing` : ''}.</li>
+                    )}
+                    {trace.completenessRule === 'not_met' && (
+                        <li>Fewer than 75% of the items were answered, so no score was calculated.</li>
+                    )}
+                    {trace.completenessRule === 'met' && trace.prorated && trace.rawSum !== null && (
+                        <li>At least 75% of the items were answered. The raw sum of {trace.rawSum} was prorated to {score} to account for the missing items.</li>
+                    )}
+                    {trace.completenessRule === 'met' && !trace.prorated && trace.rawSum !== null && (
+                        <li>All items were answered, giving a raw sum of {trace.rawSum}.</li>
+                    )}
+                    {trace.tScoreConversion && tScore !== null && (
+                        <li>The raw score of {score} was converted to a T-score of {tScore} using the {shortFormNames[trace.tScoreConversion] || trace.tScoreConversion} conversion table.</li>
+                    )}
+                    {interval && (
+                        <li>
+                            This falls in the "{interval.label}" range ({interval.min}{interval.max === null ? '+' : interval.max === interval.min ? '' : `–${interval.max}`}).
+                        </li>
+                    )}
+                </ul>
+            </div>
+        </details>
+    );
+};
+
+export default ScoringTracePanel;
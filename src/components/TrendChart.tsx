@@ -0,0 +1,96 @@
+import React from 'react';
+import { ReferenceInterval } from '../types';
+import { formatAssessmentDate, getIntervalScaleMax, intervalHexColors } from '../utils/helpers';
+
+export interface TrendPoint {
+    submissionId: string;
+    assessmentDate: string;
+    score: number;
+    isCurrent: boolean;
+}
+
+interface TrendChartProps {
+    points: TrendPoint[];
+    intervals: ReferenceInterval[];
+    scoreLabel?: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PADDING = { top: 12, right: 16, bottom: 28, left: 36 };
+
+const TrendChart: React.FC<TrendChartProps> = ({ points, intervals, scoreLabel = 'Score' }) => {
+    if (points.length < 2 || intervals.length === 0) return null;
+
+    const minVal = Math.min(...intervals.map(i => i.min));
+    const maxVal = getIntervalScaleMax(intervals, points.map(p => p.score));
+    const range = maxVal - minVal || 1;
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+    const x = (index: number) => PADDING.left + (plotWidth * index) / (points.length - 1);
+    const y = (value: number) => {
+        const clamped = Math.min(Math.max(value, minVal), maxVal);
+        return PADDING.top + plotHeight - ((clamped - minVal) / range) * plotHeight;
+    };
+
+    const linePath = points.map((point, index) => `${index === 0 ? 'M' : 'L'}${x(index)},${y(point.score)}`).join(' ');
+
+    return (
+        <figure>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${scoreLabel} across ${points.length} assessments`}>
+                {/* Severity bands */}
+                {intervals.map((interval, index) => {
+                    const top = y(interval.max ?? maxVal);
+                    const bottom = y(interval.min);
+                    return (
+                        <rect
+                            key={index}
+                            x={PADDING.left}
+                            y={top}
+                            width={plotWidth}
+                            height={Math.max(bottom - top, 1)}
+                            fill={intervalHexColors[interval.color] || '#d1d5db'}
+                            opacity={0.15}
+                        >
+                            <title>{interval.label}</title>
+                        </rect>
+                    );
+                })}
+
+                {/* Axis labels at the band boundaries */}
+                {intervals.map((interval, index) => (
+                    <text key={index} x={PADDING.left - 6} y={y(interval.min)} textAnchor="end" dominantBaseline="middle" className="fill-gray-500" fontSize={10}>
+                        {interval.min}
+                    </text>
+                ))}
+
+                <path d={linePath} fill="none" stroke="#1e40af" strokeWidth={2} />
+
+                {points.map((point, index) => (
+                    <g key={point.submissionId}>
+                        <circle
+                            cx={x(index)}
+                            cy={y(point.score)}
+                            r={point.isCurrent ? 6 : 4}
+                            fill={point.isCurrent ? '#1e40af' : '#ffffff'}
+                            stroke="#1e40af"
+                            strokeWidth={2}
+                        >
+                            <title>{`${formatAssessmentDate(point.assessmentDate)}: ${point.score}`}</title>
+                        </circle>
+                        <text x={x(index)} y={HEIGHT - 8} textAnchor="middle" className="fill-gray-600" fontSize={10}>
+                            {new Date(point.assessmentDate).toLocaleDateString('en-US', { day: '2-digit', month: 'short' })}
+                        </text>
+                    </g>
+                ))}
+            </svg>
+            <figcaption className="mt-1 text-xs text-gray-500 text-center">
+                {scoreLabel} across your assessments, oldest to newest. Shaded bands show the severity ranges.
+            </figcaption>
+        </figure>
+    );
+};
+
+export default TrendChart;
@@ -0,0 +1,216 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { TriageAction, TriageItem, TriagePriority } from '../types';
+import { CLINICIAN_TOKEN_STORAGE_KEY, fetchTriageQueue, submitTriageAction } from '../services/api';
+import { formatAssessmentDate } from '../utils/helpers';
+import { careTierLabels } from '../../api/_lib/careTier';
+
+const priorityStyles: { [key in TriagePriority]: string } = {
+    urgent: 'bg-red-100 text-red-800 border-red-300',
+    high: 'bg-orange-100 text-orange-800 border-orange-300',
+    elevated: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+};
+
+const actionLabels: { [key in TriageAction]: string } = {
+    acknowledge: 'Acknowledged',
+    assign: 'Assigned',
+    resolve: 'Resolved',
+};
+
+const formatAge = (dateTimeString: string): string => {
+    const hours = Math.floor((Date.now() - new Date(dateTimeString).getTime()) / (60 * 60 * 1000));
+    if (hours < 1) return 'less than an hour ago';
+    if (hours < 48) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+    return `${Math.floor(hours / 24)} days ago`;
+};
+
+const TriageCard: React.FC<{ item: TriageItem; onAction: (action: TriageAction, note: string, assignee?: string) => Promise<void> }> = ({ item, onAction }) => {
+    const [note, setNote] = useState('');
+    const [assignee, setAssignee] = useState(item.assignee ?? '');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleAction = async (action: TriageAction) => {
+        setIsSaving(true);
+        try {
+            await onAction(action, note, action === 'assign' ? assignee : undefined);
+            setNote('');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const isResolved = item.status === 'resolved';
+
+    return (
+        <li className="p-5 bg-white rounded-2xl border border-stone-200 shadow-sm">
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                <div>
+                    <a href={`?token=${encodeURIComponent(item.accessToken)}`} target="_blank" rel="noopener noreferrer" className="text-lg font-bold text-blue-700 hover:underline">
+                        {item.firstName} {item.lastName}
+                    </a>
+                    <p className="text-sm text-stone-600">{item.email} &middot; assessed {formatAssessmentDate(item.assessmentDate)} ({formatAge(item.assessmentDate)})</p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                    <span className={`rounded-full border px-2 py-0.5 text-xs font-semibold uppercase ${priorityStyles[item.priority]}`}>{item.priority}</span>
+                    <span className="rounded-full border border-stone-300 bg-stone-100 px-2 py-0.5 text-xs font-semibold text-stone-700 capitalize">{item.status}</span>
+                </div>
+            </div>
+
+            <ul className="mt-3 flex flex-wrap gap-2">
+                {item.flaggedDomains.map(domain => (
+                    <li key={domain.name} className="text-sm bg-rose-50 text-rose-800 border border-rose-200 rounded-lg px-2 py-1">
+                        {domain.name}: {domain.interpretation}
+                    </li>
+                ))}
+            </ul>
+
+            {item.careTier && <p className="mt-2 text-sm text-stone-700">Recommended care: <span className="font-semibold">{careTierLabels[item.careTier]}</span></p>}
+            {item.assignee && <p className="mt-2 text-sm text-stone-700">Assigned to <span className="font-semibold">{item.assignee}</span></p>}
+
+            {!isResolved && (
+                <div className="mt-4 space-y-2">
+                    <textarea
+                        value={note}
+                        onChange={e => setNote(e.target.value)}
+                        placeholder="Note (required to resolve)"
+                        rows={2}
+                        className="w-full px-3 py-2 border-2 border-stone-300 rounded-lg focus:ring-teal-500 focus:border-teal-500"
+                    />
+                    <div className="flex flex-wrap items-center gap-2">
+                        {item.status === 'open' && (
+                            <button type="button" disabled={isSaving} onClick={() => handleAction('acknowledge')} className="px-4 py-2 bg-stone-200 text-stone-800 font-semibold rounded-full hover:bg-stone-300 disabled:opacity-50">
+                                Acknowledge
+                            </button>
+                        )}
+                        <input
+                            type="text"
+                            value={assignee}
+                            onChange={e => setAssignee(e.target.value)}
+                            placeholder="Assignee"
+                            className="px-3 py-2 border-2 border-stone-300 rounded-full focus:ring-teal-500 focus:border-teal-500"
+                        />
+                        <button type="button" disabled={isSaving || !assignee.trim()} onClick={() => handleAction('assign')} className="px-4 py-2 bg-stone-200 text-stone-800 font-semibold rounded-full hover:bg-stone-300 disabled:opacity-50">
+                            Assign
+                        </button>
+                        <button type="button" disabled={isSaving || !note.trim()} onClick={() => handleAction('resolve')} className="px-4 py-2 bg-teal-700 text-white font-bold rounded-full hover:bg-teal-800 disabled:opacity-50">
+                            Resolve
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {item.audit.length > 0 && (
+                <details className="mt-4 text-sm text-stone-700">
+                    <summary className="cursor-pointer font-semibold text-blue-700">Audit trail ({item.audit.length})</summary>
+                    <ol className="mt-2 space-y-1 pl-4 list-decimal">
+                        {item.audit.map(entry => (
+                            <li key={entry.id}>
+                                {actionLabels[entry.action]}{entry.assignee ? ` to ${entry.assignee}` : ''} by <span className="font-semibold">{entry.actor}</span> on {new Date(entry.createdAt).toLocaleString('en-US')}
+                                {entry.note && <span className="block text-stone-600 italic">"{entry.note}"</span>}
+                            </li>
+                        ))}
+                    </ol>
+                </details>
+            )}
+        </li>
+    );
+};
+
+const TriageQueue: React.FC = () => {
+    const [token, setToken] = useState(() => sessionStorage.getItem(CLINICIAN_TOKEN_STORAGE_KEY) || '');
+    const [tokenInput, setTokenInput] = useState('');
+    const [includeResolved, setIncludeResolved] = useState(false);
+    const [items, setItems] = useState<TriageItem[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadQueue = useCallback(async () => {
+        if (!token) return;
+        setIsLoading(true);
+        setError(null);
+        try {
+            setItems(await fetchTriageQueue(token, includeResolved));
+        } catch (apiError: any) {
+            console.error('Failed to load triage queue:', apiError);
+            setError(apiError.message);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [token, includeResolved]);
+
+    useEffect(() => {
+        loadQueue();
+    }, [loadQueue]);
+
+    const handleSignIn = (e: React.FormEvent) => {
+        e.preventDefault();
+        sessionStorage.setItem(CLINICIAN_TOKEN_STORAGE_KEY, tokenInput.trim());
+        setToken(tokenInput.trim());
+    };
+
+    const handleSignOut = () => {
+        sessionStorage.removeItem(CLINICIAN_TOKEN_STORAGE_KEY);
+        setToken('');
+        setItems([]);
+    };
+
+    const handleAction = async (submissionId: string, action: TriageAction, note: string, assignee?: string) => {
+        try {
+            await submitTriageAction(token, submissionId, action, note, assignee);
+            await loadQueue();
+        } catch (apiError: any) {
+            console.error('Triage action failed:', apiError);
+            setError(apiError.message);
+        }
+    };
+
+    if (!token) {
+        return (
+            <div className="flex flex-col items-center justify-center min-h-screen bg-gradient-to-br from-stone-50 to-stone-100 p-4 font-inter">
+                <form onSubmit={handleSignIn} className="max-w-md w-full bg-white p-8 rounded-3xl shadow-2xl border border-stone-200 space-y-4 text-center">
+                    <h1 className="text-3xl font-extrabold text-stone-800">Clinician Triage</h1>
+                    <p className="text-stone-600">Enter your clinician access token to view flagged reports.</p>
+                    <input type="password" value={tokenInput} onChange={e => setTokenInput(e.target.value)} placeholder="Access token" required className="w-full px-5 py-3 border-2 border-stone-300 rounded-full focus:ring-teal-500 focus:border-teal-500" />
+                    <button type="submit" className="px-8 py-3 bg-teal-700 text-white font-bold rounded-full shadow-lg hover:bg-teal-800">Sign In</button>
+                </form>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-stone-50 to-stone-100 p-4 sm:p-8 font-inter">
+            <div className="max-w-5xl mx-auto">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+                    <h1 className="text-3xl font-extrabold text-stone-800">Risk Triage Queue</h1>
+                    <div className="flex items-center gap-4">
+                        <label className="flex items-center gap-2 text-sm text-stone-700">
+                            <input type="checkbox" checked={includeResolved} onChange={e => setIncludeResolved(e.target.checked)} />
+                            Show resolved
+                        </label>
+                        <button type="button" onClick={loadQueue} className="px-4 py-2 bg-stone-200 text-stone-800 font-semibold rounded-lg hover:bg-stone-300">Refresh</button>
+                        <button type="button" onClick={handleSignOut} className="px-4 py-2 text-stone-600 font-semibold hover:underline">Sign out</button>
+                    </div>
+                </div>
+
+                {error && <div className="mb-4 p-4 bg-rose-50 border border-rose-300 text-rose-800 rounded-lg" role="alert">{error}</div>}
+
+                {isLoading && items.length === 0 ? (
+                    <p className="text-stone-600">Loading the queue...</p>
+                ) : items.length === 0 ? (
+                    <p className="text-stone-600 italic">No flagged reports need follow-up.</p>
+                ) : (
+                    <ul className="space-y-4">
+                        {items.map(item => (
+                            <TriageCard
+                                key={item.submissionId}
+                                item={item}
+                                onAction={(action, note, assignee) => handleAction(item.submissionId, action, note, assignee)}
+                            />
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default TriageQueue;
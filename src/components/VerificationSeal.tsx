@@ -1,28 +1,65 @@
-
 import React from 'react';
+import { IndividualData } from '../types';
 import { ShieldCheckIcon } from './icons';
+import { formatAssessmentDate } from '../utils/helpers';
 
-const VerificationSeal: React.FC = () => (
-    <div className="p-4 bg-teal-50 rounded-2xl border border-teal-200 text-gray-800 shadow-inner w-full sm:max-w-sm lg:max-w-xs">
-        <h3 className="text-lg font-bold text-teal-800 mb-3 flex items-center">
-            <ShieldCheckIcon className="h-6 w-6 mr-2" />
-            Verified By
-        </h3>
-        <div className="space-y-1.5 text-sm">
-            <div className="flex justify-between items-center">
-                <span className="font-semibold text-gray-600">Name:</span>
-                <span className="text-right">Dr. Evelyn Reed</span>
-            </div>
-            <div className="flex justify-between items-center">
-                <span className="font-semibold text-gray-600">Qualification:</span>
-                <span className="text-right">Clinical Psychologist</span>
+interface VerificationSealProps {
+    report: Pick<IndividualData, 'signOff' | 'version' | 'amendment'>;
+}
+
+const VerificationSeal: React.FC<VerificationSealProps> = ({ report }) => {
+    const { signOff, amendment } = report;
+
+    if (!signOff) {
+        return (
+            <div className="p-4 bg-amber-50 rounded-2xl border border-amber-200 text-gray-800 shadow-inner w-full sm:max-w-sm lg:max-w-xs">
+                <h3 className="text-lg font-bold text-amber-800 mb-3 flex items-center">
+                    <ShieldCheckIcon className="h-6 w-6 mr-2" />
+                    Pending Review
+                </h3>
+                <p className="text-sm text-gray-700">This report has not yet been reviewed by a clinician. It is generated automatically from your answers.</p>
             </div>
-            <div className="flex justify-between items-center">
-                <span className="font-semibold text-gray-600">Date:</span>
-                <span className="text-right">July 26, 2024</span>
+        );
+    }
+
+    const { reviewer } = signOff;
+
+    return (
+        <div className="p-4 bg-teal-50 rounded-2xl border border-teal-200 text-gray-800 shadow-inner w-full sm:max-w-sm lg:max-w-xs">
+            <h3 className="text-lg font-bold text-teal-800 mb-3 flex items-center">
+                <ShieldCheckIcon className="h-6 w-6 mr-2" />
+                Verified By
+            </h3>
+            <div className="space-y-1.5 text-sm">
+                <div className="flex justify-between items-center">
+                    <span className="font-semibold text-gray-600">Name:</span>
+                    <span className="text-right">{reviewer.displayName}</span>
+                </div>
+                <div className="flex justify-between items-center">
+                    <span className="font-semibold text-gray-600">Qualification:</span>
+                    <span className="text-right">{reviewer.credentials}</span>
+                </div>
+                <div className="flex justify-between items-center gap-2">
+                    <span className="font-semibold text-gray-600">Registration:</span>
+                    <span className="text-right">{reviewer.registrationNumber} ({reviewer.registrationBody})</span>
+                </div>
+                <div className="flex justify-between items-center">
+                    <span className="font-semibold text-gray-600">Date:</span>
+                    <span className="text-right">{formatAssessmentDate(signOff.signedAt)}</span>
+                </div>
+                <div className="flex justify-between items-center">
+                    <span className="font-semibold text-gray-600">Version:</span>
+                    <span className="text-right">{report.version ?? 1}</span>
+                </div>
             </div>
+            {amendment && (
+                <p className="mt-3 text-xs text-gray-600">Amends version {amendment.previousVersion}: {amendment.reason}</p>
+            )}
+            {signOff.comments && (
+                <p className="mt-3 text-sm text-gray-700 whitespace-pre-wrap"><span className="font-semibold">Reviewer comments:</span> {signOff.comments}</p>
+            )}
         </div>
-    </div>
-);
+    );
+};
 
 export default VerificationSeal;
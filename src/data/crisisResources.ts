@@ -0,0 +1,114 @@
+// Crisis lines shown when suicidal ideation is endorsed during the assessment.
+// The first line of each region is the one offered for "talk to someone now".
+
+export interface CrisisLine {
+    name: string;
+    description: string;
+    phone?: string; // Dialable number, used for the tel: link
+    displayPhone?: string;
+    link?: string;
+}
+
+export interface CrisisRegion {
+    code: string;
+    name: string;
+    emergencyNumber: string;
+    lines: CrisisLine[];
+}
+
+export const crisisRegions: CrisisRegion[] = [
+    {
+        code: 'IN',
+        name: 'India',
+        emergencyNumber: '112',
+        lines: [
+            { name: 'Tele-MANAS', description: 'Free, 24/7 government mental health helpline in multiple Indian languages.', phone: '14416', displayPhone: '14416 or 1-800-891-4416', link: 'https://telemanas.mohfw.gov.in/' },
+            { name: 'AASRA', description: '24/7 helpline for people in emotional distress or having suicidal thoughts.', phone: '+919820466726', displayPhone: '+91-9820466726', link: 'http://www.aasra.info/' },
+        ],
+    },
+    {
+        code: 'US',
+        name: 'United States',
+        emergencyNumber: '911',
+        lines: [
+            { name: '988 Suicide & Crisis Lifeline', description: 'Free, confidential support 24/7. Call or text.', phone: '988', displayPhone: '988', link: 'https://988lifeline.org/' },
+        ],
+    },
+    {
+        code: 'CA',
+        name: 'Canada',
+        emergencyNumber: '911',
+        lines: [
+            { name: '9-8-8 Suicide Crisis Helpline', description: 'Free support 24/7. Call or text.', phone: '988', displayPhone: '988', link: 'https://988.ca/' },
+        ],
+    },
+    {
+        code: 'GB',
+        name: 'United Kingdom & Ireland',
+        emergencyNumber: '999 / 112',
+        lines: [
+            { name: 'Samaritans', description: 'Free support 24/7, whatever you are going through.', phone: '116123', displayPhone: '116 123', link: 'https://www.samaritans.org/' },
+        ],
+    },
+    {
+        code: 'AU',
+        name: 'Australia',
+        emergencyNumber: '000',
+        lines: [
+            { name: 'Lifeline', description: 'Crisis support and suicide prevention 24/7.', phone: '131114', displayPhone: '13 11 14', link: 'https://www.lifeline.org.au/' },
+        ],
+    },
+    {
+        code: 'SG',
+        name: 'Singapore',
+        emergencyNumber: '995',
+        lines: [
+            { name: 'Samaritans of Singapore (SOS)', description: '24-hour support for anyone in crisis.', phone: '1767', displayPhone: '1767', link: 'https://www.sos.org.sg/' },
+        ],
+    },
+];
+
+// Shown for any other region, with a directory of local helplines.
+export const internationalCrisisRegion: CrisisRegion = {
+    code: 'INTL',
+    name: 'Another country',
+    emergencyNumber: 'your local emergency number',
+    lines: [
+        { name: 'Find a Helpline', description: 'Free, confidential helplines in over 130 countries.', link: 'https://findahelpline.com/' },
+    ],
+};
+
+// Most people using the assessment are in India, so it is the fallback when the region is unknown.
+const DEFAULT_REGION_CODE = 'IN';
+
+const timeZoneRegions: { [timeZone: string]: string } = {
+    'Asia/Kolkata': 'IN',
+    'Asia/Calcutta': 'IN',
+    'Asia/Singapore': 'SG',
+    'Europe/London': 'GB',
+    'Europe/Dublin': 'GB',
+};
+
+/**
+ * Guesses the person's region from the browser's time zone and language settings.
+ * @returns A region code from crisisRegions, or the international region's code.
+ */
+export const detectCrisisRegion = (): string => {
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || '';
+    if (timeZoneRegions[timeZone]) return timeZoneRegions[timeZone];
+    if (timeZone.startsWith('Australia/')) return 'AU';
+
+    const languageRegion = (navigator.language || '').split('-')[1]?.toUpperCase();
+    if (languageRegion === 'IE') return 'GB';
+    if (languageRegion && crisisRegions.some(r => r.code === languageRegion)) return languageRegion;
+    if (timeZone.startsWith('America/')) return 'US';
+
+    return languageRegion ? internationalCrisisRegion.code : DEFAULT_REGION_CODE;
+};
+
+/**
+ * Looks up a region by code, falling back to the international directory.
+ */
+export const getCrisisRegion = (code: string): CrisisRegion => {
+    return crisisRegions.find(r => r.code === code) ?? internationalCrisisRegion;
+};
@@ -8,18 +8,23 @@ export const mockReportData: IndividualData = {
   lastName: 'Doe',
   email: 'john.doe@example.com',
   assessmentDate: new Date().toISOString(),
+  instrumentVersion: 'mental-wellness@1.0.1',
   domains: [
     {
       name: 'Depression',
-      about: 'Assesses core symptoms of depression. Score is based on the 8-item PROMIS Emotional Distress–Depression–Short Form, expanded with additional questions.',
+      about: 'Assesses core symptoms of depression. Score is reported as a T-score on the 8-item PROMIS Emotional Distress–Depression–Short Form.',
       aboutLink: 'https://www.who.int/news-room/fact-sheets/detail/depression',
       result: 'Moderate',
-      score: 30, // Corresponds to Moderate
+      score: 24,
+      tScore: 63.5, // Corresponds to Moderate
+      standardError: 1.9,
+      percentile: 91,
       userInterpretation: 'Moderate',
       referenceIntervals: [
-        { label: 'None to slight', min: 10, max: 27, color: 'bg-green-500' },
-        { label: 'Moderate', min: 28, max: 41, color: 'bg-orange-500' },
-        { label: 'Severe', min: 42, max: 50, color: 'bg-red-500' }
+        { label: 'None to slight', min: 10, max: 54.9, color: 'bg-green-500' },
+        { label: 'Mild', min: 55, max: 59.9, color: 'bg-yellow-500' },
+        { label: 'Moderate', min: 60, max: 69.9, color: 'bg-orange-500' },
+        { label: 'Severe', min: 70, max: null, color: 'bg-red-500' }
       ],
       insightsAndSupport: "John, it appears you're dealing with a noticeable level of depressive symptoms. This can sometimes make it challenging to find motivation or enjoy things as you used to. It may be beneficial to explore these feelings with a professional; a therapist can provide tools and strategies tailored specifically to you.",
       individualsExperienced: [
@@ -29,16 +34,19 @@ export const mockReportData: IndividualData = {
     },
     { 
       name: 'Anger', 
-      about: 'Measures feelings of anger and irritability. Score is based on the 5-item PROMIS Emotional Distress–Anger–Short Form, expanded with an additional question.', 
+      about: 'Measures feelings of anger and irritability. Score is reported as a T-score on the 5-item PROMIS Emotional Distress–Anger–Short Form.', 
       aboutLink: 'https://www.apa.org/topics/anger/control', 
       result: 'Mild',
-      score: 17, // Corresponds to Mild
+      score: 15,
+      tScore: 58.8, // Corresponds to Mild
+      standardError: 2.6,
+      percentile: 81,
       userInterpretation: 'Mild',
       referenceIntervals: [
-          { label: 'None to slight', min: 6, max: 15, color: 'bg-green-500' },
-          { label: 'Mild', min: 16, max: 18, color: 'bg-yellow-500' },
-          { label: 'Moderate', min: 19, max: 24, color: 'bg-orange-500' },
-          { label: 'Severe', min: 25, max: 30, color: 'bg-red-500' }
+        { label: 'None to slight', min: 10, max: 54.9, color: 'bg-green-500' },
+        { label: 'Mild', min: 55, max: 59.9, color: 'bg-yellow-500' },
+        { label: 'Moderate', min: 60, max: 69.9, color: 'bg-orange-500' },
+        { label: 'Severe', min: 70, max: null, color: 'bg-red-500' }
       ], 
       insightsAndSupport: "John, your results suggest you're navigating some mild feelings of irritability. This might show up as finding yourself more easily frustrated than usual. Exploring practices like taking a brief walk to cool down or noting your triggers can be a helpful next step.",
       individualsExperienced: [
@@ -52,10 +60,13 @@ export const mockReportData: IndividualData = {
       aboutLink: 'https://www.nimh.nih.gov/health/topics/bipolar-disorder', 
       result: 'Low Probability',
       score: 5, // Corresponds to Low Probability
+      tScore: null,
+      standardError: null,
+      percentile: null,
       userInterpretation: 'Low Probability',
       referenceIntervals: [
-          { label: 'Low Probability', min: 0, max: 8, color: 'bg-green-500' },
-          { label: 'High Probability', min: 9, max: 28, color: 'bg-red-500' }
+          { label: 'Low Probability', min: 0, max: 5, color: 'bg-green-500' },
+          { label: 'High Probability', min: 6, max: 20, color: 'bg-red-500' }
       ], 
       insightsAndSupport: "John, it's great that your mood and energy levels seem to be steady. Maintaining a stable routine, especially around sleep, is an excellent way to continue supporting this balance.",
       individualsExperienced: [
@@ -65,16 +76,19 @@ export const mockReportData: IndividualData = {
     },
     {
       name: 'Anxiety',
-      about: 'Evaluates common symptoms of anxiety. Score is based on the 7-item PROMIS Emotional Distress–Anxiety–Short Form, expanded with additional questions.',
+      about: 'Evaluates common symptoms of anxiety. Score is reported as a T-score on the 7-item PROMIS Emotional Distress–Anxiety–Short Form.',
       aboutLink: 'https://www.nimh.nih.gov/health/topics/anxiety-disorders',
       result: 'Moderate',
-      score: 30, // Corresponds to Moderate
+      score: 22,
+      tScore: 62.6, // Corresponds to Moderate
+      standardError: 2.2,
+      percentile: 90,
       userInterpretation: 'Moderate',
       referenceIntervals: [
-        { label: 'None to slight', min: 10, max: 21, color: 'bg-green-500' },
-        { label: 'Mild', min: 22, max: 27, color: 'bg-yellow-500' },
-        { label: 'Moderate', min: 28, max: 38, color: 'bg-orange-500' },
-        { label: 'Severe', min: 39, max: 50, color: 'bg-red-500' }
+        { label: 'None to slight', min: 10, max: 54.9, color: 'bg-green-500' },
+        { label: 'Mild', min: 55, max: 59.9, color: 'bg-yellow-500' },
+        { label: 'Moderate', min: 60, max: 69.9, color: 'bg-orange-500' },
+        { label: 'Severe', min: 70, max: null, color: 'bg-red-500' }
       ],
       insightsAndSupport: "John, it appears you're managing a moderate degree of anxiety. This can manifest as persistent worry that's hard to control. A therapist can help you understand these patterns and develop effective coping strategies.",
       individualsExperienced: [
@@ -88,12 +102,15 @@ export const mockReportData: IndividualData = {
       aboutLink: 'https://www.psychiatry.org/patients-families/somatic-symptom-disorder/what-is-somatic-symptom-disorder', 
       result: 'High',
       score: 18, // Corresponds to High
+      tScore: null,
+      standardError: null,
+      percentile: null,
       userInterpretation: 'High',
       referenceIntervals: [
-          { label: 'Minimal', min: 0, max: 5, color: 'bg-green-500' },
-          { label: 'Low', min: 6, max: 11, color: 'bg-yellow-500' },
-          { label: 'Medium', min: 12, max: 16, color: 'bg-orange-500' },
-          { label: 'High', min: 17, max: 34, color: 'bg-red-500' }
+          { label: 'Minimal', min: 0, max: 4, color: 'bg-green-500' },
+          { label: 'Low', min: 5, max: 9, color: 'bg-yellow-500' },
+          { label: 'Medium', min: 10, max: 14, color: 'bg-orange-500' },
+          { label: 'High', min: 15, max: 30, color: 'bg-red-500' }
       ], 
       insightsAndSupport: "John, the high level of physical symptoms you're reporting can be very challenging. Since these feelings can be tough to manage alone, we encourage you to connect with a doctor to discuss these results and rule out any other causes.",
       individualsExperienced: [
@@ -107,6 +124,9 @@ export const mockReportData: IndividualData = {
       aboutLink: 'https://988lifeline.org/', 
       result: 'Within normal limits',
       score: 0,
+      tScore: null,
+      standardError: null,
+      percentile: null,
       userInterpretation: 'Within normal limits',
       referenceIntervals: [
           { label: 'Within normal limits', min: 0, max: 0, color: 'bg-green-500' },
@@ -124,6 +144,9 @@ export const mockReportData: IndividualData = {
       aboutLink: 'https://www.nimh.nih.gov/health/topics/schizophrenia/raise/what-is-psychosis', 
       result: 'Within normal limits',
       score: 0,
+      tScore: null,
+      standardError: null,
+      percentile: null,
       userInterpretation: 'Within normal limits',
       referenceIntervals: [
           { label: 'Within normal limits', min: 0, max: 0, color: 'bg-green-500' },
@@ -137,16 +160,19 @@ export const mockReportData: IndividualData = {
     },
     { 
       name: 'Sleep Problems', 
-      about: 'Evaluates sleep quality based on the 8-item PROMIS Sleep Disturbance scale. Some questions are reverse-scored.', 
+      about: 'Evaluates sleep quality based on the 8-item PROMIS Sleep Disturbance scale, reported as a T-score. Some questions are reverse-scored.', 
       aboutLink: 'https://www.sleepfoundation.org/insomnia', 
       result: 'Severe',
-      score: 38, // Corresponds to Severe
+      score: 38,
+      tScore: 70.8, // Corresponds to Severe
+      standardError: 2.8,
+      percentile: 98,
       userInterpretation: 'Severe',
       referenceIntervals: [
-          { label: 'None to slight', min: 8, max: 25, color: 'bg-green-500' }, // T < 55
-          { label: 'Mild', min: 26, max: 28, color: 'bg-yellow-500' }, // T 55-59.9
-          { label: 'Moderate', min: 29, max: 36, color: 'bg-orange-500' }, // T 60-69.9
-          { label: 'Severe', min: 37, max: 40, color: 'bg-red-500' } // T >= 70
+        { label: 'None to slight', min: 10, max: 54.9, color: 'bg-green-500' },
+        { label: 'Mild', min: 55, max: 59.9, color: 'bg-yellow-500' },
+        { label: 'Moderate', min: 60, max: 69.9, color: 'bg-orange-500' },
+        { label: 'Severe', min: 70, max: null, color: 'bg-red-500' }
       ], 
       insightsAndSupport: "John, it seems you are facing severe challenges with your sleep, which can impact all areas of life. We strongly encourage you to discuss this with a doctor; they can help find the best path forward to achieve restful sleep.",
       individualsExperienced: [
@@ -159,6 +185,9 @@ export const mockReportData: IndividualData = {
       aboutLink: 'https://www.nia.nih.gov/health/memory-forgetfulness-and-aging-whats-normal-and-whats-not', 
       result: 'Within normal limits',
       score: 1, // Corresponds to mild concern
+      tScore: null,
+      standardError: null,
+      percentile: null,
       userInterpretation: 'Within normal limits',
       referenceIntervals: [
           { label: 'Within normal limits', min: 0, max: 1, color: 'bg-green-500' },
@@ -175,6 +204,9 @@ export const mockReportData: IndividualData = {
       aboutLink: 'https://iocdf.org/about-ocd/', 
       result: 'Moderate',
       score: 2.5, // Corresponds to Moderate
+      tScore: null,
+      standardError: null,
+      percentile: null,
       userInterpretation: 'Moderate',
       referenceIntervals: [
           { label: 'None', min: 0, max: 0.9, color: 'bg-green-500' },
@@ -194,6 +226,9 @@ export const mockReportData: IndividualData = {
       aboutLink: 'https://www.nami.org/About-Mental-Illness/Mental-Health-Conditions/Dissociative-Disorders', 
       result: 'Further inquiry indicated',
       score: 3, // Corresponds to high concern
+      tScore: null,
+      standardError: null,
+      percentile: null,
       userInterpretation: 'Further inquiry indicated',
       referenceIntervals: [
           { label: 'Within normal limits', min: 0, max: 1, color: 'bg-green-500' },
@@ -210,6 +245,9 @@ export const mockReportData: IndividualData = {
       aboutLink: 'https://www.nimh.nih.gov/health/topics/borderline-personality-disorder', 
       result: 'Further inquiry indicated',
       score: 2, // Corresponds to high concern
+      tScore: null,
+      standardError: null,
+      percentile: null,
       userInterpretation: 'Further inquiry indicated',
       referenceIntervals: [
           { label: 'Within normal limits', min: 0, max: 1, color: 'bg-green-500' },
@@ -1,18 +1,30 @@
-import { IndividualData } from '../types';
+import { AdaptiveAnswers, AssessmentDraft, AssessmentHistory, IndividualData, InsightSet, InsightUpdate, ReportLink, TriageAction, TriageItem } from '../types';
+
+/**
+ * --- Report Access Links ---
+ * Reports are fetched with a signed, expiring access token. The token arrives in the link's
+ * URL and is moved into session storage under this key, so it does not stay in the address
+ * bar or the browser history.
+ */
+export const REPORT_TOKEN_STORAGE_KEY = 'reportToken';
+
+// Raised when a report link is invalid, expired or revoked, so a fresh one can be offered.
+export class ReportAccessError extends Error {}
 
 /**
  * --- Live Backend Fetching ---
  * This function fetches the pre-calculated report data from our backend.
  */
-export const fetchDynamicReportData = async (submissionId: string): Promise<IndividualData> => {
-    console.log(`Fetching live report for Submission ID: ${submissionId}`);
-
+export const fetchDynamicReportData = async (token: string): Promise<IndividualData> => {
     // This is a relative URL that points to our Vercel backend function.
-    const response = await fetch(`/api/report?id=${submissionId}`);
+    const response = await fetch(`/api/report?token=${encodeURIComponent(token)}`);
 
     if (!response.ok) {
+        if (response.status === 401) {
+            throw new ReportAccessError('This report link is invalid, has expired or has been revoked. You can request a new link by email.');
+        }
         if (response.status === 404) {
-            throw new Error(`Submission ID "${submissionId}" not found in our records. Please check the ID and try again.`);
+            throw new Error('This report could not be found in our records.');
         }
         const errorData = await response.json().catch(() => ({}));
         const errorMessage = errorData.error || 'Failed to fetch the report from the server.';
@@ -25,34 +37,302 @@ export const fetchDynamicReportData = async (submissionId: string): Promise<Indi
 };
 
 
+/**
+ * --- Assessment History ---
+ * Fetches every report linked to the same person as the given submission, oldest first,
+ * so progress can be charted across retakes.
+ */
+export const fetchAssessmentHistory = async (token: string): Promise<AssessmentHistory> => {
+    const response = await fetch(`/api/history?token=${encodeURIComponent(token)}`);
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to fetch assessment history.');
+    }
+
+    return response.json();
+};
+
+
+const postAccessAction = async (body: object, fallbackError: string) => {
+    const response = await fetch('/api/access', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(result.error || fallbackError);
+    }
+    return result;
+};
+
+/**
+ * Emails a one-time code to the address, if it has any reports.
+ */
+export const requestAccessCode = async (email: string): Promise<void> => {
+    await postAccessAction({ action: 'request-code', email }, 'Failed to send the code.');
+};
+
+/**
+ * Exchanges a one-time code for fresh links to every report of that email, newest first.
+ */
+export const verifyAccessCode = async (email: string, code: string): Promise<ReportLink[]> =>
+    postAccessAction({ action: 'verify-code', email, code }, 'Failed to verify the code.');
+
+/**
+ * Emails a one-time code to the address the token's report was taken with.
+ */
+export const requestEmailConfirmation = async (token: string): Promise<void> => {
+    await postAccessAction({ action: 'request-confirmation', token }, 'Failed to send the code.');
+};
+
+/**
+ * Confirms the report's email with the one-time code, linking it into the person's history.
+ * @returns A fresh link to the report, which also leads to the person's other confirmed reports.
+ */
+export const confirmReportEmail = async (token: string, code: string): Promise<ReportLink> =>
+    postAccessAction({ action: 'confirm-email', token, code }, 'Failed to verify the code.');
+
+/**
+ * Invalidates every link issued so far to the reports of the token's owner.
+ */
+export const revokeReportLinks = async (token: string): Promise<void> => {
+    await postAccessAction({ action: 'revoke', token }, 'Failed to revoke the report links.');
+};
+
+
+/**
+ * --- Clinician Triage Queue ---
+ * Clinician calls authenticate with the clinician's personal token, which is kept in
+ * session storage under this key for the browser session only.
+ */
+export const CLINICIAN_TOKEN_STORAGE_KEY = 'clinicianToken';
+
+export const fetchTriageQueue = async (token: string, includeResolved = false): Promise<TriageItem[]> => {
+    const response = await fetch(`/api/triage${includeResolved ? '?status=all' : ''}`, {
+        headers: { Authorization: `Bearer ${token}` },
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to fetch the triage queue.');
+    }
+
+    return response.json();
+};
+
+export const submitTriageAction = async (
+    token: string,
+    submissionId: string,
+    action: TriageAction,
+    note: string,
+    assignee?: string,
+): Promise<void> => {
+    const response = await fetch('/api/triage', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ submissionId, action, note, assignee }),
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to update the triage case.');
+    }
+};
+
+
+/**
+ * --- Clinician Review and Sign-off ---
+ * Signs off a report, or amends a signed report as a new version.
+ * @returns The signed or amended report.
+ */
+export const submitReview = async (
+    token: string,
+    submissionId: string,
+    action: 'sign' | 'amend',
+    comments: string,
+    reason?: string,
+): Promise<IndividualData> => {
+    const response = await fetch('/api/review', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ submissionId, action, comments, reason }),
+    });
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to submit the review.');
+    }
+
+    return response.json();
+};
+
+
 /**
  * --- Secure AI Insight Generation ---
- * This function sends the report data to our secure backend endpoint, which then
- * communicates with the Gemini API. This prevents the API key from being exposed
- * in the user's browser.
+ * Insights are written on the server from the stored report the link token points to,
+ * and stored with it, so reloading the report does not call the model again. They are
+ * streamed as server-sent events, one domain at a time, so each card fills in as soon as
+ * its insight is ready.
  *
- * @param userData The full report data object.
- * @returns An array of strings, where each string is an AI-generated insight.
+ * @param token The report access token.
+ * @param onInsight Called with each domain's insight as it arrives, in any order.
+ * @returns The stored set's details once every domain has arrived.
+ */
+export const streamInsights = async (
+    token: string,
+    onInsight: (update: InsightUpdate) => void,
+): Promise<Omit<InsightSet, 'insights'>> => {
+    const response = await fetch(`/api/insights-stream?token=${encodeURIComponent(token)}`, {
+        headers: { Accept: 'text/event-stream' },
+    });
+
+    if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to generate AI insights.');
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        // Events are separated by a blank line; the last part may still be incomplete.
+        const events = buffer.split('\n\n');
+        buffer = events.pop() ?? '';
+        for (const rawEvent of events) {
+            const event = rawEvent.match(/^event: (.*)$/m)?.[1];
+            const data = JSON.parse(rawEvent.match(/^data: (.*)$/m)?.[1] ?? 'null');
+            if (event === 'insight') onInsight(data);
+            if (event === 'done') return data;
+            if (event === 'error') throw new Error(data?.error || 'Failed to generate AI insights.');
+        }
+    }
+    throw new Error('The insight stream ended before every insight arrived.');
+};
+
+/**
+ * Has a clinician write a new set of insights for a report. Earlier sets are kept.
  */
-export const fetchInsights = async (userData: IndividualData): Promise<string[]> => {
-    console.log('Requesting AI insights from secure backend endpoint...');
-    
+export const regenerateInsights = async (clinicianToken: string, reportToken: string): Promise<InsightSet> => {
     const response = await fetch('/api/generate-insights', {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
+            Authorization: `Bearer ${clinicianToken}`,
         },
-        body: JSON.stringify(userData), // Send the full user data to the backend
+        body: JSON.stringify({ token: reportToken, regenerate: true }),
     });
 
     if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        const errorMessage = errorData.error || 'Failed to generate AI insights.';
-        console.error('Error fetching insights:', errorMessage);
-        throw new Error(errorMessage);
+        throw new Error(errorData.error || 'Failed to regenerate the insights.');
     }
-    
-    const data = await response.json();
-    console.log('Successfully received AI insights.');
-    return data.insights; // The backend will return an object like { insights: [...] }
-}
\ No newline at end of file
+
+    return response.json();
+};
+
+
+/**
+ * --- Assessment Drafts ---
+ * An unfinished assessment is always kept in local storage under this key. It can also be
+ * saved on the server under a resume code, so it can be picked up on another device.
+ */
+export const DRAFT_STORAGE_KEY = 'assessmentDraft';
+
+export interface SavedDraft {
+    draft: AssessmentDraft;
+    code: string;
+    expiresAt: string;
+}
+
+const postDraftAction = async (body: object, fallbackError: string) => {
+    const response = await fetch('/api/drafts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(result.error || fallbackError);
+    }
+    return result;
+};
+
+/**
+ * Saves a draft on the server, under its existing resume code if it has one.
+ * @param sendLink Also email a resume link to the address in the draft.
+ * @returns The resume code and when the draft expires.
+ */
+export const saveDraftOnServer = async (draft: AssessmentDraft, code: string | null, sendLink = false): Promise<{ code: string; expiresAt: string }> =>
+    postDraftAction({ action: 'save', draft, code: code ?? undefined, sendLink }, 'Failed to save your progress.');
+
+/**
+ * Fetches the draft saved under a resume code.
+ */
+export const loadDraftFromServer = async (code: string): Promise<SavedDraft> =>
+    postDraftAction({ action: 'load', code }, 'Failed to load your saved progress.');
+
+/**
+ * Removes a server draft once its assessment has been submitted.
+ */
+export const deleteDraftFromServer = async (code: string): Promise<void> => {
+    await postDraftAction({ action: 'delete', code }, 'Failed to delete your saved progress.');
+};
+
+
+/**
+ * --- Adaptive Testing ---
+ * Where item banks are configured, PROMIS sections can be answered adaptively: the server
+ * picks each question from the answers given so far, and stops once the score is precise.
+ */
+export interface AdaptiveItem {
+    id: string;
+    text: string;
+    options: { value: number; label: string }[];
+}
+
+export interface AdaptiveProgress {
+    done: boolean;
+    item: AdaptiveItem | null; // Null once done
+    answeredCount: number;
+    maxItems: number;
+}
+
+/**
+ * Lists the sections that can be answered adaptively; empty if none, or if the server cannot say.
+ */
+export const fetchAdaptiveDomains = async (): Promise<string[]> => {
+    const response = await fetch('/api/adaptive-items');
+    if (!response.ok) return [];
+    const result = await response.json().catch(() => ({}));
+    return Array.isArray(result.domains) ? result.domains : [];
+};
+
+/**
+ * Fetches the next adaptive question of a section, given its answers so far in the order they were given.
+ */
+export const fetchNextAdaptiveItem = async (domain: string, answers: AdaptiveAnswers[string]): Promise<AdaptiveProgress> => {
+    const response = await fetch('/api/adaptive-items', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ domain, answers }),
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(result.error || 'Failed to load the next question.');
+    }
+    return result;
+};
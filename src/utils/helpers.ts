@@ -1,6 +1,77 @@
 
 
-import { ReferenceInterval } from '../types';
+import { Domain, HistoryEntry, ReferenceInterval } from '../types';
+
+/**
+ * Returns the score that a domain's reference intervals are expressed in.
+ * PROMIS domains are interpreted on the T-score metric; all others use the raw score.
+ * @param domain The domain to read the score from.
+ * @returns The T-score where one exists, otherwise the raw score.
+ */
+export const getIntervalScore = (domain: Pick<Domain, 'score' | 'tScore'>): number | null => {
+    return domain.tScore ?? domain.score;
+};
+
+/**
+ * Returns the score at which a chart of reference intervals ends. An open-ended top interval
+ * is drawn as wide as the interval below it, or further if a score lies beyond that.
+ * @param intervals The reference intervals to chart.
+ * @param scores The scores shown on the chart.
+ */
+export const getIntervalScaleMax = (intervals: ReferenceInterval[], scores: number[]): number => {
+    const sorted = [...intervals].sort((a, b) => a.min - b.min);
+    const closedMax = Math.max(...sorted.map(interval => interval.max ?? interval.min));
+    const top = sorted[sorted.length - 1];
+    if (top.max !== null) return closedMax;
+
+    const below = sorted[sorted.length - 2];
+    const width = below && below.max !== null ? below.max - below.min : 0;
+    return Math.max(closedMax, top.min + width, ...scores);
+};
+
+/**
+ * Collects one domain's interval scores across a person's assessments, oldest first.
+ * Entries scored against different reference intervals (e.g. before a scoring change)
+ * are left out, because their scores are not on the same scale as the current one.
+ * @param domain The domain as scored in the current report.
+ * @param history Every assessment linked to the same person, oldest first.
+ * @param currentSubmissionId The submission ID of the report being viewed.
+ * @returns The comparable points, each marked if it is the current report.
+ */
+export const getDomainTrend = (domain: Domain, history: HistoryEntry[], currentSubmissionId: string) => {
+    const intervalsKey = JSON.stringify(domain.referenceIntervals);
+    return history.flatMap(entry => {
+        const past = entry.domains.find(d => d.name === domain.name);
+        const score = past ? getIntervalScore(past) : null;
+        if (!past || score === null || JSON.stringify(past.referenceIntervals) !== intervalsKey) return [];
+        return [{
+            submissionId: entry.submissionId,
+            assessmentDate: entry.assessmentDate,
+            score,
+            isCurrent: entry.submissionId === currentSubmissionId,
+        }];
+    });
+};
+
+// Hex equivalents of the Tailwind background classes used for reference intervals,
+// for places that draw intervals directly (gradients, SVG charts).
+export const intervalHexColors: { [key: string]: string } = {
+    'bg-green-500': '#22c55e',
+    'bg-yellow-500': '#eab308',
+    'bg-orange-500': '#f97316',
+    'bg-red-500': '#ef4444',
+    'bg-amber-400': '#fbbd23',
+};
+
+/**
+ * Formats a percentile as an ordinal, e.g. 1 -> "1st", 62 -> "62nd", 13 -> "13th".
+ */
+export const formatPercentile = (percentile: number): string => {
+    const lastTwo = percentile % 100;
+    if (lastTwo >= 11 && lastTwo <= 13) return `${percentile}th`;
+    const suffixes: { [key: number]: string } = { 1: 'st', 2: 'nd', 3: 'rd' };
+    return `${percentile}${suffixes[percentile % 10] || 'th'}`;
+};
 
 /**
  * Generates a consistent set of Tailwind CSS color classes based on a score and its reference intervals.
@@ -0,0 +1,112 @@
+-- ====================================================================================
+-- Report Storage
+-- ------------------------------------------------------------------------------------
+-- The tables and columns SupabaseReportRepository (api/_lib/repository/supabase.ts)
+-- reads and writes. Column names are the camelCase field names the API uses, so they
+-- are quoted. Every statement is idempotent, so the migration can be applied to a
+-- project that already has some of these objects.
+--
+-- The API connects with the service key, which bypasses row level security. RLS is
+-- enabled with no policies so that the anon key can read none of this.
+-- ====================================================================================
+
+-- Original (version 1) reports.
+create table if not exists public.reports (
+    "submissionId" text primary key,
+    data jsonb not null,
+    "createdAt" timestamptz not null default now()
+);
+
+alter table public.reports
+    add column if not exists "personId" text,
+    add column if not exists "accessRevokedBefore" timestamptz,
+    add column if not exists "emailVerifiedAt" timestamptz,
+    add column if not exists insights jsonb,
+    add column if not exists "insightsVersion" integer;
+
+create index if not exists reports_person_id_idx on public.reports ("personId", "createdAt");
+
+-- Amended versions (2 and up) of each report.
+create table if not exists public.report_versions (
+    "submissionId" text not null references public.reports ("submissionId"),
+    version integer not null check (version >= 2),
+    data jsonb not null,
+    "createdAt" timestamptz not null default now(),
+    primary key ("submissionId", version)
+);
+
+-- Submissions endorsing any item of a crisis-response domain.
+create table if not exists public.risk_events (
+    id text primary key,
+    "submissionId" text not null references public.reports ("submissionId"),
+    "personId" text,
+    "itemIds" text[] not null,
+    "maxAnswer" integer not null,
+    "createdAt" timestamptz not null default now()
+);
+
+create index if not exists risk_events_submission_id_idx on public.risk_events ("submissionId");
+
+-- One outstanding one-time access code per person; only its hash is stored.
+create table if not exists public.access_codes (
+    "personId" text primary key,
+    "codeHash" text not null,
+    "expiresAt" timestamptz not null,
+    "attemptsLeft" integer not null
+);
+
+-- Unfinished assessments, keyed by the hash of their resume code.
+create table if not exists public.assessment_drafts (
+    "codeHash" text primary key,
+    draft jsonb not null,
+    "expiresAt" timestamptz not null,
+    "updatedAt" timestamptz not null
+);
+
+-- Follow-up state of flagged reports. Kept when a report is deleted, for the audit trail.
+create table if not exists public.triage_cases (
+    "submissionId" text primary key,
+    status text not null check (status in ('open', 'acknowledged', 'resolved')),
+    assignee text,
+    "updatedAt" timestamptz not null
+);
+
+create table if not exists public.triage_audit (
+    id text primary key,
+    "submissionId" text not null,
+    action text not null check (action in ('acknowledge', 'assign', 'resolve')),
+    actor text not null,
+    assignee text,
+    note text not null default '',
+    "createdAt" timestamptz not null
+);
+
+create index if not exists triage_audit_created_at_idx on public.triage_audit ("createdAt");
+
+-- Clinicians allowed to sign off reports, keyed by their access token name.
+create table if not exists public.reviewers (
+    name text primary key,
+    "displayName" text not null,
+    credentials text not null,
+    "registrationNumber" text not null,
+    "registrationBody" text not null
+);
+
+-- Attempts counted against rate limits, e.g. emailed resume links.
+create table if not exists public.rate_limit_hits (
+    id bigint generated always as identity primary key,
+    key text not null,
+    at timestamptz not null
+);
+
+create index if not exists rate_limit_hits_key_at_idx on public.rate_limit_hits (key, at);
+
+alter table public.reports enable row level security;
+alter table public.report_versions enable row level security;
+alter table public.risk_events enable row level security;
+alter table public.access_codes enable row level security;
+alter table public.assessment_drafts enable row level security;
+alter table public.triage_cases enable row level security;
+alter table public.triage_audit enable row level security;
+alter table public.reviewers enable row level security;
+alter table public.rate_limit_hits enable row level security;